@@ -1,8 +1,15 @@
+import I18nProvider from "./i18n/I18nProvider";
+import LocaleSwitcher from "./components/LocaleSwitcher";
 import NetworkForm from "./components/NetworkForm";
 import "./App.css";
 
 function App() {
-  return <NetworkForm />;
+  return (
+    <I18nProvider>
+      <LocaleSwitcher />
+      <NetworkForm />
+    </I18nProvider>
+  );
 }
 
 export default App;
@@ -0,0 +1,103 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import BulkImport from "../components/BulkImport";
+import NetworkForm from "../components/NetworkForm";
+
+function setup() {
+  const user = userEvent.setup();
+  const onApply = vi.fn();
+  render(<BulkImport onApply={onApply} />);
+  const textarea = screen.getByLabelText("Импорт списка");
+  const parseBtn = screen.getByRole("button", { name: "Разобрать" });
+  return { user, onApply, textarea, parseBtn };
+}
+
+// =====================================================================
+//  Отчёт по записям
+// =====================================================================
+
+describe("BulkImport — отчёт", () => {
+  it("показывает принятые и отклонённые записи", async () => {
+    const { user, textarea, parseBtn } = setup();
+    await user.click(textarea);
+    await user.paste("10.0.0.1 aa:bb:cc:dd:ee:ff\nnothing\n999.1.1.1");
+    await user.click(parseBtn);
+
+    expect(
+      screen.getByText(/Формат: текст\. Записей: 3, принято: 1/),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText("Принято: 10.0.0.1, aa:bb:cc:dd:ee:ff"),
+    ).toBeInTheDocument();
+    expect(screen.getByText("Адресов не найдено")).toBeInTheDocument();
+    expect(
+      screen.getByText("999.1.1.1: Некорректный IP-адрес"),
+    ).toBeInTheDocument();
+  });
+
+  it("некорректный JSON — ошибка", async () => {
+    const { user, textarea, parseBtn } = setup();
+    await user.click(textarea);
+    await user.paste('["10.0.0.1"');
+    await user.click(parseBtn);
+    expect(screen.getByText("Некорректный JSON")).toBeInTheDocument();
+  });
+
+  it("разбирает выбранный файл", async () => {
+    const { user } = setup();
+    const file = new File(['["10.0.0.1", "10.0.0.2"]'], "hosts.json", {
+      type: "application/json",
+    });
+    await user.upload(screen.getByLabelText("Файл"), file);
+    expect(
+      await screen.findByText(/Формат: JSON\. Записей: 2/),
+    ).toBeInTheDocument();
+  });
+});
+
+// =====================================================================
+//  Заполнение полей
+// =====================================================================
+
+describe("BulkImport — заполнение полей", () => {
+  it("передаёт принятые адреса", async () => {
+    const { user, onApply, textarea, parseBtn } = setup();
+    await user.click(textarea);
+    await user.paste("10.0.0.1 aa:bb:cc:dd:ee:ff\n10.0.0.2");
+    await user.click(parseBtn);
+    await user.click(screen.getByRole("button", { name: "Заполнить поля" }));
+    expect(onApply).toHaveBeenCalledWith({
+      ips: ["10.0.0.1", "10.0.0.2"],
+      macs: ["aa:bb:cc:dd:ee:ff"],
+    });
+  });
+
+  it("без принятых адресов кнопки заполнения нет", async () => {
+    const { user, textarea, parseBtn } = setup();
+    await user.click(textarea);
+    await user.paste("nothing");
+    await user.click(parseBtn);
+    expect(
+      screen.queryByRole("button", { name: "Заполнить поля" }),
+    ).not.toBeInTheDocument();
+  });
+
+  it("заполняет поля формы сетевых параметров", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm macNotations={["hyphen"]} />);
+    await user.click(screen.getByLabelText("Импорт списка"));
+    await user.paste(
+      "? (192.168.1.1) at aa:bb:cc:dd:ee:ff [ether] on eth0\n" +
+        "192.168.1.2 dev eth0 lladdr 00:11:22:33:44:55 REACHABLE",
+    );
+    await user.click(screen.getByRole("button", { name: "Разобрать" }));
+    await user.click(screen.getByRole("button", { name: "Заполнить поля" }));
+
+    expect(screen.getByLabelText("IP-адрес")).toHaveValue(
+      "192.168.1.1, 192.168.1.2",
+    );
+    expect(screen.getByLabelText("MAC-адрес")).toHaveValue(
+      "AA-BB-CC-DD-EE-FF, 00-11-22-33-44-55",
+    );
+  });
+});
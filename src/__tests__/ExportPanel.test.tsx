@@ -0,0 +1,82 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import ExportPanel from "../components/ExportPanel";
+import NetworkForm from "../components/NetworkForm";
+import { buildExportData } from "../utils/networkExport";
+import { createMockServer } from "../test/mockServer";
+
+const data = buildExportData("10.0.0.0/24, 10.0.0.1", "AA-BB-CC-DD-EE-FF");
+
+function setup() {
+  const user = userEvent.setup();
+  render(<ExportPanel data={data} />);
+  const preview = () => screen.getByLabelText("Предпросмотр");
+  return { user, preview };
+}
+
+describe("ExportPanel", () => {
+  it("по умолчанию показывает JSON", () => {
+    const { preview } = setup();
+    expect(JSON.parse(preview().textContent!).mac).toEqual([
+      "AA-BB-CC-DD-EE-FF",
+    ]);
+  });
+
+  it("переключает формат и имя набора", async () => {
+    const { user, preview } = setup();
+    await user.selectOptions(screen.getByLabelText("Формат"), "nftables");
+    const name = screen.getByLabelText("Имя набора");
+    await user.clear(name);
+    await user.type(name, "lab");
+    expect(preview()).toHaveTextContent("set lab_v4");
+  });
+
+  it("сообщает, что не вошло в формат", async () => {
+    const { user } = setup();
+    await user.selectOptions(screen.getByLabelText("Формат"), "dnsmasq");
+    expect(
+      screen.getByText("Не вошло в этот формат: 10.0.0.0/24"),
+    ).toBeInTheDocument();
+  });
+
+  it("скачивает файл", async () => {
+    setup();
+    const createObjectURL = vi.fn(() => "blob:export");
+    const revokeObjectURL = vi.fn();
+    vi.stubGlobal("URL", { ...URL, createObjectURL, revokeObjectURL });
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, "click")
+      .mockImplementation(() => {});
+
+    fireEvent.click(screen.getByRole("button", { name: "Скачать" }));
+    expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+    expect(click).toHaveBeenCalled();
+    // Ссылка освобождается не сразу: загрузка может начаться позже.
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+    await vi.waitFor(() =>
+      expect(revokeObjectURL).toHaveBeenCalledWith("blob:export"),
+    );
+
+    click.mockRestore();
+    vi.unstubAllGlobals();
+  });
+});
+
+describe("NetworkForm — экспорт", () => {
+  it("после успешной отправки показывает экспорт", async () => {
+    vi.stubGlobal("fetch", createMockServer().fetch);
+    const user = userEvent.setup();
+    render(<NetworkForm />);
+    expect(screen.queryByText("Экспорт")).not.toBeInTheDocument();
+
+    await user.type(screen.getByLabelText("IP-адрес"), "10.0.0.1");
+    await user.type(screen.getByLabelText("MAC-адрес"), "aa:bb:cc:dd:ee:ff");
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+
+    expect(screen.getByText("Экспорт")).toBeInTheDocument();
+    expect(screen.getByLabelText("Предпросмотр")).toHaveTextContent(
+      "AA-BB-CC-DD-EE-FF",
+    );
+    vi.unstubAllGlobals();
+  });
+});
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import IpInput, { type IpInputProps } from "../components/IpInput";
+
+type HarnessProps = Omit<IpInputProps, "value" | "onChange"> & {
+  initial?: string;
+};
+
+/** Владелец значения — как форма, в которую встроено поле. */
+function Harness({ initial = "", ...props }: HarnessProps) {
+  const [value, setValue] = useState(initial);
+  return <IpInput {...props} value={value} onChange={setValue} />;
+}
+
+function setup(props: HarnessProps = {}) {
+  const user = userEvent.setup();
+  const onValidityChange = vi.fn();
+  const utils = render(
+    <Harness onValidityChange={onValidityChange} {...props} />,
+  );
+  const input = screen.getByLabelText("IP-адрес");
+  return { user, input, onValidityChange, ...utils };
+}
+
+// =====================================================================
+//  Управляемое значение и валидность
+// =====================================================================
+
+describe("IpInput — значение и валидность", () => {
+  it("показывает значение владельца и сообщает о валидности", async () => {
+    const { user, input, onValidityChange } = setup({ initial: "10.0.0.1" });
+    expect(input).toHaveValue("10.0.0.1");
+    expect(onValidityChange).toHaveBeenLastCalledWith(true);
+
+    await user.type(input, "x");
+    expect(onValidityChange).toHaveBeenLastCalledWith(false);
+    await user.type(input, "{Backspace}");
+    expect(onValidityChange).toHaveBeenLastCalledWith(true);
+  });
+
+  it("вызывает onChange с новым значением", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<IpInput value="" onChange={onChange} />);
+    await user.type(screen.getByLabelText("IP-адрес"), "1");
+    expect(onChange).toHaveBeenCalledWith("1");
+  });
+
+  it("принимает подпись и id", () => {
+    render(<IpInput id="gw" label="Шлюз" value="" onChange={() => {}} />);
+    expect(screen.getByLabelText("Шлюз")).toHaveAttribute("id", "gw");
+  });
+});
+
+// =====================================================================
+//  Ограничения и обязательность
+// =====================================================================
+
+describe("IpInput — ограничения", () => {
+  it("ограничивает вид значения", async () => {
+    const { user, input, onValidityChange } = setup({ kinds: ["single"] });
+    await user.type(input, "10.0.0.0/8");
+    expect(
+      screen.getByText("10.0.0.0/8: подсеть здесь не допускается"),
+    ).toBeInTheDocument();
+    expect(onValidityChange).toHaveBeenLastCalledWith(false);
+
+    await user.clear(input);
+    await user.type(input, "10.0.0.1, 10.0.0.2");
+    expect(
+      screen.getByText("Допускается только одно значение"),
+    ).toBeInTheDocument();
+  });
+
+  it("ограничивает версию IP", async () => {
+    const { user, input } = setup({ versions: [4] });
+    await user.type(input, "fe80::1");
+    expect(
+      screen.getByText("fe80::1: IPv6 здесь не допускается"),
+    ).toBeInTheDocument();
+  });
+
+  it("обязательное поле: ошибка только после blur", async () => {
+    const { user, input, onValidityChange } = setup({ required: true });
+    expect(onValidityChange).toHaveBeenLastCalledWith(false);
+    expect(screen.queryByText("Обязательное поле")).not.toBeInTheDocument();
+
+    await user.click(input);
+    await user.tab();
+    expect(screen.getByText("Обязательное поле")).toBeInTheDocument();
+
+    await user.type(input, "10.0.0.1");
+    expect(screen.queryByText("Обязательное поле")).not.toBeInTheDocument();
+    expect(onValidityChange).toHaveBeenLastCalledWith(true);
+  });
+
+  it("после отправки синтаксическая ошибка остаётся конкретной", () => {
+    const { rerender } = render(
+      <IpInput value="abc" onChange={() => {}} submitCount={0} />,
+    );
+    expect(screen.getByText(/некорректный формат ip/i)).toBeInTheDocument();
+    rerender(<IpInput value="abc" onChange={() => {}} submitCount={1} />);
+    expect(screen.getByText(/некорректный формат ip/i)).toBeInTheDocument();
+  });
+
+  it("после отправки недописанный адрес — ошибка", () => {
+    const { rerender } = render(
+      <IpInput value="10.0." onChange={() => {}} submitCount={0} />,
+    );
+    expect(document.querySelector(".field__error")).toBeNull();
+    rerender(<IpInput value="10.0." onChange={() => {}} submitCount={1} />);
+    expect(screen.getByText("Некорректный IP-адрес")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import MacInput, { type MacInputProps } from "../components/MacInput";
+
+type HarnessProps = Omit<MacInputProps, "value" | "onChange">;
+
+/** Владелец значения — как форма, в которую встроено поле. */
+function Harness(props: HarnessProps) {
+  const [value, setValue] = useState("");
+  return <MacInput {...props} value={value} onChange={setValue} />;
+}
+
+// =====================================================================
+//  MacInput
+// =====================================================================
+
+describe("MacInput", () => {
+  it("недописанный адрес допустим при вводе, но не валиден", async () => {
+    const user = userEvent.setup();
+    const onValidityChange = vi.fn();
+    render(<Harness onValidityChange={onValidityChange} />);
+    const input = screen.getByLabelText("MAC-адрес");
+
+    await user.type(input, "AA-BB");
+    expect(screen.queryByText(/некорректный/i)).not.toBeInTheDocument();
+    expect(onValidityChange).toHaveBeenLastCalledWith(false);
+
+    await user.tab();
+    expect(screen.getByText("Некорректный MAC-адрес")).toBeInTheDocument();
+
+    await user.type(input, "-CC-DD-EE-FF");
+    expect(onValidityChange).toHaveBeenLastCalledWith(true);
+  });
+
+  it("принимает только заданные нотации", async () => {
+    const user = userEvent.setup();
+    render(<Harness notations={["cisco"]} />);
+    expect(screen.getByText(/xxxx\.xxxx\.xxxx/i)).toBeInTheDocument();
+    await user.type(screen.getByLabelText("MAC-адрес"), "aa-bb");
+    expect(screen.getByRole("textbox")).toHaveValue("aa-bb");
+    expect(screen.queryByText(/^Форматы/)).toBeInTheDocument();
+    expect(document.querySelector(".field--error")).not.toBeNull();
+  });
+
+  it("обязательное поле: ошибка после отправки", () => {
+    const { rerender } = render(
+      <MacInput value="" onChange={() => {}} required />,
+    );
+    expect(screen.queryByText("Обязательное поле")).not.toBeInTheDocument();
+    rerender(
+      <MacInput value="" onChange={() => {}} required submitCount={1} />,
+    );
+    expect(screen.getByText("Обязательное поле")).toBeInTheDocument();
+  });
+
+  it("поле на один адрес не принимает списки", async () => {
+    const user = userEvent.setup();
+    render(<Harness multiple={false} />);
+    expect(screen.queryByText(/через запятую/)).not.toBeInTheDocument();
+    await user.type(
+      screen.getByLabelText("MAC-адрес"),
+      "AA-BB-CC-DD-EE-FF, AA-BB-CC-DD-EE-01",
+    );
+    expect(
+      screen.getByText("Допускается только один MAC-адрес"),
+    ).toBeInTheDocument();
+  });
+});
+
+// =====================================================================
+//  Маска ввода
+// =====================================================================
+
+describe("MacInput — маска ввода", () => {
+  function setup(props: HarnessProps = {}) {
+    const user = userEvent.setup();
+    render(<Harness mask {...props} />);
+    const input = screen.getByLabelText<HTMLInputElement>("MAC-адрес");
+    return { user, input };
+  }
+
+  it("дефисы и заглавные буквы — при вводе", async () => {
+    const { user, input } = setup();
+    await user.type(input, "aabbccddeeff");
+    expect(input).toHaveValue("AA-BB-CC-DD-EE-FF");
+    expect(input.selectionStart).toBe(17);
+  });
+
+  it("запятая начинает следующий адрес", async () => {
+    const { user, input } = setup();
+    await user.type(input, "aabbccddeeff,001122334455");
+    expect(input).toHaveValue("AA-BB-CC-DD-EE-FF, 00-11-22-33-44-55");
+  });
+
+  it("вставка любой нотации переписывается под маску", async () => {
+    const { user, input } = setup();
+    await user.click(input);
+    await user.paste("aabb.ccdd.eeff 00:11:22:33:44:55");
+    expect(input).toHaveValue("AA-BB-CC-DD-EE-FF, 00-11-22-33-44-55");
+  });
+
+  it("Backspace проходит через дефисы", async () => {
+    const { user, input } = setup();
+    await user.type(input, "aabbcc");
+    await user.keyboard("{Backspace}");
+    expect(input).toHaveValue("AA-BB-C");
+    await user.keyboard("{Backspace}");
+    expect(input).toHaveValue("AA-BB");
+    await user.keyboard("{Backspace}{Backspace}");
+    expect(input).toHaveValue("AA");
+  });
+
+  it("каретка остаётся на месте при правке в середине", async () => {
+    const { user, input } = setup();
+    await user.type(input, "aabbcc");
+    // Каретка после «AA-»: Backspace стирает дефис вместе с цифрой
+    await user.type(input, "{Backspace}", {
+      initialSelectionStart: 3,
+      initialSelectionEnd: 3,
+    });
+    expect(input).toHaveValue("AB-BC-C");
+    expect(input.selectionStart).toBe(1);
+
+    await user.keyboard("f");
+    expect(input).toHaveValue("AF-BB-CC");
+    expect(input.selectionStart).toBe(2);
+    await user.keyboard("1");
+    expect(input).toHaveValue("AF-1B-BC-C");
+    expect(input.selectionStart).toBe(4);
+  });
+
+  it("валидность считается по отформатированному значению", async () => {
+    const onValidityChange = vi.fn();
+    const { user, input } = setup({ onValidityChange });
+    await user.type(input, "aa:bb:cc:dd:ee:ff");
+    expect(input).toHaveValue("AA-BB-CC-DD-EE-FF");
+    expect(onValidityChange).toHaveBeenLastCalledWith(true);
+  });
+
+  it("без нотаций hyphen и colon маска не действует", async () => {
+    const { user, input } = setup({ notations: ["cisco"] });
+    await user.type(input, "aabb");
+    expect(input).toHaveValue("aabb");
+  });
+});
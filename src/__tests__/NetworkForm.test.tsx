@@ -1,16 +1,35 @@
-import { render, screen } from "@testing-library/react";
+import { cleanup, render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import NetworkForm from "../components/NetworkForm";
 import {
   TEXT_ALLOWED_CHARS,
   TEXT_INVALID_IP,
+  TEXT_INVALID_IP_FORMAT,
   TEXT_INVALID_MAC,
   TEXT_IP_VERSION_MISMATCH,
 } from "../utils/validators";
+import { createFetchTransport } from "../utils/submission";
+import { createMockServer, type MockServer } from "../test/mockServer";
+
+/** Отправка через fetch — её перехватывает тестовый сервер */
+const transport = createFetchTransport({ url: "/api/network-parameters" });
+
+let server: MockServer;
+/** Значения, ушедшие на сервер */
+const sent = () => server.requests.map((r) => r.body);
+
+beforeEach(() => {
+  server = createMockServer();
+  vi.stubGlobal("fetch", server.fetch);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
 
 function setup() {
   const user = userEvent.setup();
-  render(<NetworkForm />);
+  render(<NetworkForm transport={transport} />);
   const ipInput = screen.getByLabelText("IP-адрес");
   const macInput = screen.getByLabelText("MAC-адрес");
   const submitBtn = screen.getByRole("button", { name: /отправить/i });
@@ -23,7 +42,7 @@ function setup() {
 
 describe("NetworkForm — рендеринг", () => {
   it("рендерит заголовок", () => {
-    render(<NetworkForm />);
+    render(<NetworkForm transport={transport} />);
     expect(screen.getByText("Сетевые параметры")).toBeInTheDocument();
   });
 
@@ -194,6 +213,30 @@ describe("NetworkForm — MAC валидация", () => {
     expect(screen.queryByText(/некорректный/i)).not.toBeInTheDocument();
   });
 
+  it("принимает MAC в нотациях с двоеточием и Cisco", async () => {
+    const { user, macInput } = setup();
+    await user.type(macInput, "aa:bb:cc:dd:ee:ff, aabb.ccdd.eeff");
+    await user.tab();
+    expect(screen.queryByText(/некорректный/i)).not.toBeInTheDocument();
+  });
+
+  it("отклоняет нотации, не разрешённые в настройках формы", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm transport={transport} macNotations={["hyphen"]} />);
+    await user.type(screen.getByLabelText("MAC-адрес"), "aa:bb");
+    expect(screen.getByText(TEXT_ALLOWED_CHARS)).toBeInTheDocument();
+  });
+
+  it("принимает EUI-64, если поле настроено на 8 октетов", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm transport={transport} macLength={8} />);
+    const macInput = screen.getByLabelText("MAC-адрес");
+    await user.type(macInput, "AA-BB-CC-DD-EE-FF-00-11");
+    await user.tab();
+    expect(screen.queryByText(/некорректный/i)).not.toBeInTheDocument();
+    expect(screen.getByText(/XX-XX-XX-XX-XX-XX-XX-XX/)).toBeInTheDocument();
+  });
+
   it("убирает ошибку MAC сразу на onChange когда ввод валиден", async () => {
     const { user, macInput } = setup();
     await user.type(macInput, "AA-BB");
@@ -232,6 +275,15 @@ describe("NetworkForm — сабмит", () => {
     expect(
       screen.queryByText(/данные успешно отправлены/i),
     ).not.toBeInTheDocument();
+    // При отправке остаётся конкретное сообщение, а не общее
+    expect(screen.getByText(TEXT_INVALID_IP_FORMAT)).toBeInTheDocument();
+  });
+
+  it("не отправляет недописанный IP", async () => {
+    const { user, ipInput, submitBtn } = setup();
+    await user.type(ipInput, "10.0.");
+    await user.click(submitBtn);
+    expect(sent()).toHaveLength(0);
     expect(screen.getByText(TEXT_INVALID_IP)).toBeInTheDocument();
   });
 
@@ -245,12 +297,570 @@ describe("NetworkForm — сабмит", () => {
     expect(screen.getByText(TEXT_INVALID_MAC)).toBeInTheDocument();
   });
 
+  it("отправляет MAC в единой нотации", async () => {
+    const { user, macInput, submitBtn } = setup();
+    await user.type(macInput, "aa:bb:cc:dd:ee:ff, 0011.2233.4455");
+    await user.click(submitBtn);
+    expect(sent()).toEqual([
+      {
+        ip: "",
+        mac: "AA-BB-CC-DD-EE-FF, 00-11-22-33-44-55",
+      },
+    ]);
+  });
+
+  it("с маской MAC форматируется при вводе", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm transport={transport} macMask />);
+    const macInput = screen.getByLabelText("MAC-адрес");
+    await user.type(macInput, "aabbccddeeff,0011.2233.4455");
+    expect(macInput).toHaveValue("AA-BB-CC-DD-EE-FF, 00-11-22-33-44-55");
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+    expect(sent()).toEqual([
+      { ip: "", mac: "AA-BB-CC-DD-EE-FF, 00-11-22-33-44-55" },
+    ]);
+  });
+
+  it("предупреждение о broadcast MAC не блокирует отправку", async () => {
+    const { user, macInput, submitBtn } = setup();
+    await user.type(macInput, "FF-FF-FF-FF-FF-FF");
+    expect(
+      screen.getByText("FF-FF-FF-FF-FF-FF — широковещательный адрес"),
+    ).toBeInTheDocument();
+    await user.click(submitBtn);
+    expect(screen.getByText(/данные успешно отправлены/i)).toBeInTheDocument();
+  });
+
   it("показывает ошибки для обоих полей при невалидных данных", async () => {
     const { user, ipInput, macInput, submitBtn } = setup();
     await user.type(ipInput, "999.999.999.999");
     await user.type(macInput, "ZZ-XX-YY-WW-VV-UU");
     await user.click(submitBtn);
-    expect(screen.getByText(TEXT_INVALID_IP)).toBeInTheDocument();
+    expect(screen.getByText(TEXT_INVALID_IP_FORMAT)).toBeInTheDocument();
+    expect(screen.getByText(TEXT_ALLOWED_CHARS)).toBeInTheDocument();
+  });
+});
+
+// =====================================================================
+//  Подсветка ошибочных фрагментов
+// =====================================================================
+
+describe("NetworkForm — подсветка ошибок", () => {
+  it("подчёркивает ошибочный элемент списка IP", async () => {
+    const { user, ipInput } = setup();
+    await user.type(ipInput, "10.0.0.1, 10.0.0.9-10.0.0.2");
+    const mark = document.querySelector(".field__mark");
+    expect(mark).toHaveTextContent("10.0.0.9-10.0.0.2");
+  });
+
+  it("не показывает подсветку для корректного значения", async () => {
+    const { user, macInput } = setup();
+    await user.type(macInput, "AA-BB-CC-DD-EE-FF");
+    expect(document.querySelector(".field__highlight")).toBeNull();
+  });
+});
+
+// =====================================================================
+//  Политика адресов
+// =====================================================================
+
+describe("NetworkForm — политика IP", () => {
+  it("показывает запрет категории и блокирует отправку", async () => {
+    const user = userEvent.setup();
+    render(
+      <NetworkForm
+        transport={transport}
+        ipPolicy={{ rules: { loopback: "deny" } }}
+      />,
+    );
+
+    await user.type(screen.getByLabelText("IP-адрес"), "10.0.0.1, 127.0.0.1");
+    const text = "127.0.0.1: адрес loopback — такие адреса запрещены";
+    expect(screen.getByText(text)).toBeInTheDocument();
+    expect(document.querySelector(".field__mark")).toHaveTextContent(
+      "127.0.0.1",
+    );
+
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+    expect(screen.getByText(text)).toBeInTheDocument();
+    expect(sent()).toHaveLength(0);
+  });
+
+  it("предупреждение не блокирует отправку", async () => {
+    const user = userEvent.setup();
+    render(
+      <NetworkForm
+        transport={transport}
+        ipPolicy={{ rules: { linkLocal: "warn" } }}
+      />,
+    );
+
+    await user.type(screen.getByLabelText("IP-адрес"), "fe80::1");
+    expect(screen.getByText("fe80::1: link-local адрес")).toHaveClass(
+      "field__warning",
+    );
+
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+    expect(sent()).toHaveLength(1);
+  });
+});
+
+// =====================================================================
+//  Биты хоста в CIDR
+// =====================================================================
+
+describe("NetworkForm — биты хоста в CIDR", () => {
+  it("предлагает адрес сети и применяет его одним кликом", async () => {
+    const { user, ipInput } = setup();
+    await user.type(ipInput, "10.0.0.1, 192.168.1.77/24");
+    expect(
+      screen.getByText(
+        "192.168.1.77/24: установлены биты хоста — возможно, имелось в виду 192.168.1.0/24",
+      ),
+    ).toHaveClass("field__warning");
+
+    await user.click(
+      screen.getByRole("button", { name: "Заменить на 192.168.1.0/24" }),
+    );
+    expect(ipInput).toHaveValue("10.0.0.1, 192.168.1.0/24");
+    expect(screen.queryByText(/биты хоста/)).not.toBeInTheDocument();
+  });
+
+  it("в строгом режиме биты хоста блокируют отправку", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm transport={transport} strictCidr />);
+
+    await user.type(screen.getByLabelText("IP-адрес"), "192.168.1.77/24");
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+    expect(screen.getByText(/установлены биты хоста/)).toHaveClass(
+      "field__error",
+    );
+    expect(sent()).toHaveLength(0);
+
+    await user.click(
+      screen.getByRole("button", { name: "Заменить на 192.168.1.0/24" }),
+    );
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+    expect(sent()).toHaveLength(1);
+  });
+});
+
+// =====================================================================
+//  Сводка по числу адресов
+// =====================================================================
+
+describe("NetworkForm — число адресов", () => {
+  it("показывает, сколько адресов покрывает значение", async () => {
+    const { user, ipInput } = setup();
+    await user.type(ipInput, "10.0.0.0/22, 10.0.8.1-10.0.8.4");
+    expect(screen.getByText("Адресов в списке: 1028")).toBeInTheDocument();
+  });
+
+  it("учитывает только уже введённые корректные элементы", async () => {
+    const { user, ipInput } = setup();
+    await user.type(ipInput, "10.0.0.1, 10.0");
+    expect(screen.getByText("Адресов в списке: 1")).toBeInTheDocument();
+  });
+
+  it("не показывает сводку для пустого поля", () => {
+    setup();
+    expect(screen.queryByText(/адресов в списке/i)).not.toBeInTheDocument();
+  });
+});
+
+// =====================================================================
+//  Пересечения элементов
+// =====================================================================
+
+describe("NetworkForm — пересечения элементов", () => {
+  it("предупреждает о повторе, не блокируя отправку", async () => {
+    const { user, ipInput, submitBtn } = setup();
+    await user.type(ipInput, "192.168.1.1, 192.168.1.1");
+    expect(screen.getByText("192.168.1.1: повторяет 192.168.1.1")).toHaveClass(
+      "field__warning",
+    );
+
+    await user.click(submitBtn);
+    expect(sent()).toHaveLength(1);
+  });
+
+  it("в строгом режиме пересечение — ошибка", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm transport={transport} strictOverlaps />);
+
+    await user.type(
+      screen.getByLabelText("IP-адрес"),
+      "10.0.0.0/24, 10.0.0.50-10.0.0.60",
+    );
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+    expect(
+      screen.getByText("10.0.0.50-10.0.0.60: уже входит в 10.0.0.0/24"),
+    ).toHaveClass("field__error");
+    expect(sent()).toHaveLength(0);
+  });
+});
+
+// =====================================================================
+//  Нормализация списка
+// =====================================================================
+
+describe("NetworkForm — нормализация IP", () => {
+  it("переписывает поле минимальным набором CIDR", async () => {
+    const { user, ipInput } = setup();
+    await user.type(ipInput, "10.0.0.0-10.0.0.255, 10.0.1.0/24, 10.0.2.1");
+    await user.click(screen.getByRole("button", { name: "Свести к CIDR" }));
+    expect(ipInput).toHaveValue("10.0.0.0/23, 10.0.2.1");
+    expect(
+      screen.queryByRole("button", { name: "Свести к CIDR" }),
+    ).not.toBeInTheDocument();
+  });
+
+  it("не предлагает нормализацию для уже нормального значения", async () => {
+    const { user, ipInput } = setup();
+    await user.type(ipInput, "10.0.0.0/24");
+    expect(
+      screen.queryByRole("button", { name: "Свести к CIDR" }),
+    ).not.toBeInTheDocument();
+  });
+
+  it("не предлагает нормализацию, если разница только в пробелах", async () => {
+    const { user, ipInput } = setup();
+    await user.type(ipInput, "10.0.0.0/24 ,10.0.2.1");
+    expect(
+      screen.queryByRole("button", { name: "Свести к CIDR" }),
+    ).not.toBeInTheDocument();
+  });
+});
+
+// =====================================================================
+//  Каноническая запись IPv6
+// =====================================================================
+
+describe("NetworkForm — каноническая запись IPv6", () => {
+  it("приводит IPv6 к RFC 5952 при уходе с поля", async () => {
+    const { user, ipInput } = setup();
+    await user.type(ipInput, "2001:0DB8:0:0::1, 10.0.0.1");
+    expect(ipInput).toHaveValue("2001:0DB8:0:0::1, 10.0.0.1");
+    await user.tab();
+    expect(ipInput).toHaveValue("2001:db8::1, 10.0.0.1");
+  });
+
+  it("в режиме submit переписывает только при отправке", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm transport={transport} ipv6Canonical="submit" />);
+    const ipInput = screen.getByLabelText("IP-адрес");
+
+    await user.type(ipInput, "FE80:0::1");
+    await user.tab();
+    expect(ipInput).toHaveValue("FE80:0::1");
+
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+    expect(ipInput).toHaveValue("fe80::1");
+    expect(sent()).toEqual([{ ip: "fe80::1", mac: "" }]);
+  });
+});
+
+// =====================================================================
+//  Зоны IPv6
+// =====================================================================
+
+describe("NetworkForm — зоны IPv6", () => {
+  it("принимает зону у link-local адреса, если она разрешена", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm transport={transport} allowIpZones />);
+
+    await user.type(screen.getByLabelText("IP-адрес"), "FE80::1%eth0");
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+    expect(sent()).toEqual([
+      {
+        ip: "fe80::1%eth0",
+        mac: "",
+      },
+    ]);
+  });
+
+  it("показывает калькулятор подсети для одного CIDR", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm transport={transport} />);
+    const input = screen.getByLabelText("IP-адрес");
+
+    await user.type(input, "192.168.1.0/26");
+    const panel = screen.getByLabelText("Калькулятор подсети");
+    expect(panel).toHaveTextContent("Широковещательный адрес192.168.1.63");
+    expect(panel).toHaveTextContent("Маска255.255.255.192");
+    expect(panel).toHaveTextContent("Адресов для узлов62");
+
+    await user.type(input, ", 10.0.0.0/8");
+    expect(
+      screen.queryByLabelText("Калькулятор подсети"),
+    ).not.toBeInTheDocument();
+  });
+
+  it("принимает сокращённые диапазоны, если они разрешены", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm transport={transport} allowShortIpRanges />);
+
+    await user.type(screen.getByLabelText("IP-адрес"), "192.168.1.10-50");
+    expect(screen.getByText("Адресов в списке: 41")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+    expect(sent()).toEqual([
+      {
+        ip: "192.168.1.10-50",
+        mac: "",
+      },
+    ]);
+  });
+
+  it("объясняет, почему зона недопустима", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm transport={transport} allowIpZones />);
+
+    await user.type(screen.getByLabelText("IP-адрес"), "2001:db8::1%eth0");
+    expect(
+      screen.getByText(
+        "Зона допустима только у link-local и multicast IPv6-адресов",
+      ),
+    ).toBeInTheDocument();
+  });
+});
+
+// =====================================================================
+//  Отправка на сервер
+// =====================================================================
+
+describe("NetworkForm — отправка на сервер", () => {
+  it("без VITE_SUBMIT_URL отправляет локально, без сервера", async () => {
+    const user = userEvent.setup();
+    render(<NetworkForm />);
+    await user.type(screen.getByLabelText("IP-адрес"), "10.0.0.1");
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+
+    expect(
+      await screen.findByText(/данные успешно отправлены/i),
+    ).toBeInTheDocument();
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it("отправляет JSON на адрес транспорта", async () => {
+    const { user, ipInput, submitBtn } = setup();
+    await user.type(ipInput, "10.0.0.1");
+    await user.click(submitBtn);
+    expect(server.requests).toEqual([
+      {
+        method: "POST",
+        url: "/api/network-parameters",
+        body: { ip: "10.0.0.1", mac: "" },
+      },
+    ]);
+  });
+
+  it("пока ждёт ответа, кнопка недоступна", async () => {
+    let reply!: () => void;
+    server = createMockServer(
+      () => new Promise((resolve) => (reply = () => resolve({}))),
+    );
+    vi.stubGlobal("fetch", server.fetch);
+    const { user, submitBtn } = setup();
+
+    await user.click(submitBtn);
+    expect(submitBtn).toBeDisabled();
+    expect(submitBtn).toHaveTextContent("Отправка…");
+
+    reply();
+    expect(
+      await screen.findByText(/данные успешно отправлены/i),
+    ).toBeInTheDocument();
+    expect(submitBtn).toBeEnabled();
+  });
+
+  it("показывает ошибки сервера под полями", async () => {
+    server = createMockServer(() => ({
+      status: 422,
+      body: {
+        errors: {
+          ip: "10.0.0.1 уже выдан другому узлу",
+          mac: [{ code: "mac.invalid" }],
+        },
+      },
+    }));
+    vi.stubGlobal("fetch", server.fetch);
+    const { user, ipInput, macInput, submitBtn } = setup();
+    await user.type(ipInput, "10.0.0.1");
+    await user.type(macInput, "AA-BB-CC-DD-EE-FF");
+    await user.click(submitBtn);
+
+    expect(
+      await screen.findByText("10.0.0.1 уже выдан другому узлу"),
+    ).toBeInTheDocument();
+    expect(screen.getByText(TEXT_INVALID_MAC)).toBeInTheDocument();
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Сервер отклонил данные",
+    );
+    expect(
+      screen.queryByText(/данные успешно отправлены/i),
+    ).not.toBeInTheDocument();
+
+    // Исправление поля снимает его серверную ошибку
+    await user.type(ipInput, "0");
+    expect(
+      screen.queryByText("10.0.0.1 уже выдан другому узлу"),
+    ).not.toBeInTheDocument();
     expect(screen.getByText(TEXT_INVALID_MAC)).toBeInTheDocument();
   });
+
+  it("повторяет отправку после сбоя сервера", async () => {
+    server = createMockServer((_, index) =>
+      index === 0 ? { status: 503 } : {},
+    );
+    vi.stubGlobal("fetch", server.fetch);
+    const user = userEvent.setup();
+    render(<NetworkForm transport={transport} retry={{ baseDelay: 0 }} />);
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+
+    expect(
+      await screen.findByText(/данные успешно отправлены/i),
+    ).toBeInTheDocument();
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it("сообщает о недоступности сервера, когда повторы исчерпаны", async () => {
+    server = createMockServer(() => {
+      throw new Error("offline");
+    });
+    vi.stubGlobal("fetch", server.fetch);
+    const user = userEvent.setup();
+    render(
+      <NetworkForm
+        transport={transport}
+        retry={{ retries: 1, baseDelay: 0 }}
+      />,
+    );
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Нет связи с сервером",
+    );
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it("транспорт можно заменить", async () => {
+    const replaced = vi.fn().mockResolvedValue({ ok: true, data: null });
+    const user = userEvent.setup();
+    render(<NetworkForm transport={replaced} />);
+    await user.type(screen.getByLabelText("MAC-адрес"), "aa:bb:cc:dd:ee:ff");
+    await user.click(screen.getByRole("button", { name: /отправить/i }));
+
+    expect(replaced).toHaveBeenCalledWith(
+      { ip: "", mac: "AA-BB-CC-DD-EE-FF" },
+      expect.any(AbortSignal),
+    );
+    expect(server.requests).toHaveLength(0);
+  });
+});
+
+// =====================================================================
+//  Отмена правок
+// =====================================================================
+
+describe("NetworkForm — отмена правок", () => {
+  it("Ctrl+Z отменяет последний введённый адрес, Ctrl+Shift+Z возвращает", async () => {
+    const { user, ipInput } = setup();
+    await user.type(ipInput, "10.0.0.1, 10.0.0.2");
+
+    await user.keyboard("{Control>}z{/Control}");
+    expect(ipInput).toHaveValue("10.0.0.1");
+    await user.keyboard("{Control>}z{/Control}");
+    expect(ipInput).toHaveValue("");
+
+    await user.keyboard("{Control>}{Shift>}z{/Shift}{/Control}");
+    expect(ipInput).toHaveValue("10.0.0.1");
+    await user.keyboard("{Control>}y{/Control}");
+    expect(ipInput).toHaveValue("10.0.0.1, 10.0.0.2");
+  });
+
+  it("история общая для всех полей формы", async () => {
+    const { user, ipInput, macInput } = setup();
+    await user.type(ipInput, "10.0.0.1");
+    await user.type(macInput, "AA-BB-CC-DD-EE-FF");
+
+    await user.keyboard("{Control>}z{/Control}");
+    expect(macInput).toHaveValue("");
+    await user.keyboard("{Control>}z{/Control}");
+    expect(ipInput).toHaveValue("");
+  });
+
+  it("отменяет применённое исправление", async () => {
+    const { user, ipInput } = setup();
+    await user.type(ipInput, "192.168.1.0/24, 192.168.1.5");
+    await user.click(screen.getByRole("button", { name: "Свести к CIDR" }));
+    expect(ipInput).toHaveValue("192.168.1.0/24");
+
+    await user.click(ipInput);
+    await user.keyboard("{Control>}z{/Control}");
+    expect(ipInput).toHaveValue("192.168.1.0/24, 192.168.1.5");
+  });
+});
+
+// =====================================================================
+//  Черновики
+// =====================================================================
+
+describe("NetworkForm — черновики", () => {
+  it("сохраняет ввод и предлагает восстановить его при следующем открытии", async () => {
+    const { user, ipInput, macInput } = setup();
+    await user.type(ipInput, "10.0.0.1");
+    await user.type(macInput, "AA-BB-CC-DD-EE-FF");
+    cleanup();
+
+    setup();
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Найден несохранённый черновик",
+    );
+    expect(screen.getByLabelText("IP-адрес")).toHaveValue("");
+
+    await userEvent.click(
+      screen.getByRole("button", { name: "Восстановить черновик" }),
+    );
+    expect(screen.getByLabelText("IP-адрес")).toHaveValue("10.0.0.1");
+    expect(screen.getByLabelText("MAC-адрес")).toHaveValue("AA-BB-CC-DD-EE-FF");
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+  });
+
+  it("не перезаписывает черновик, пока пользователь не ответил", async () => {
+    await setup().user.type(screen.getByLabelText("IP-адрес"), "10.0.0.1");
+    cleanup();
+
+    const { user, ipInput } = setup();
+    await user.type(ipInput, "172.16.0.1");
+    cleanup();
+
+    setup();
+    await userEvent.click(
+      screen.getByRole("button", { name: "Восстановить черновик" }),
+    );
+    expect(screen.getByLabelText("IP-адрес")).toHaveValue("10.0.0.1");
+  });
+
+  it("удалённый черновик больше не предлагается", async () => {
+    await setup().user.type(screen.getByLabelText("IP-адрес"), "10.0.0.1");
+    cleanup();
+
+    const { user } = setup();
+    await user.click(screen.getByRole("button", { name: "Удалить черновик" }));
+    cleanup();
+
+    setup();
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+  });
+
+  it("после успешной отправки черновик удаляется", async () => {
+    const { user, ipInput, submitBtn } = setup();
+    await user.type(ipInput, "10.0.0.1");
+    await user.click(submitBtn);
+    await screen.findByText(/данные успешно отправлены/i);
+    cleanup();
+
+    setup();
+    expect(screen.queryByRole("status")).not.toBeInTheDocument();
+  });
 });
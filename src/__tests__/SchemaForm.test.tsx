@@ -0,0 +1,120 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import SchemaForm from "../components/SchemaForm";
+import type { FormSchema } from "../utils/formSchema";
+import {
+  ALLOWED_MACS_FORM,
+  DHCP_POOL_FORM,
+  GATEWAY_FORM,
+  VLAN_FORM,
+} from "../utils/formPresets";
+
+function setup(schema: FormSchema) {
+  const user = userEvent.setup();
+  const onSubmit = vi.fn();
+  render(<SchemaForm schema={schema} onSubmit={onSubmit} />);
+  const submitBtn = screen.getByRole("button", { name: /отправить/i });
+  return { user, onSubmit, submitBtn };
+}
+
+// =====================================================================
+//  Разметка по схеме
+// =====================================================================
+
+describe("SchemaForm — разметка", () => {
+  it("рендерит заголовок и поля из схемы", () => {
+    setup(DHCP_POOL_FORM);
+    expect(screen.getByText("Пул DHCP")).toBeInTheDocument();
+    expect(screen.getByLabelText("Пул адресов")).toHaveAttribute("id", "pool");
+    expect(screen.getByLabelText("Шлюз")).toHaveAttribute("id", "gateway");
+    expect(screen.getByLabelText("DNS-серверы")).toHaveAttribute("id", "dns");
+  });
+
+  it("показывает подсказки из схемы", () => {
+    setup(GATEWAY_FORM);
+    expect(screen.getByText("Один адрес IPv4 или IPv6")).toBeInTheDocument();
+  });
+
+  it("обязательные поля помечены", () => {
+    setup(VLAN_FORM);
+    expect(screen.getByLabelText("Подсеть")).toHaveAttribute(
+      "aria-required",
+      "true",
+    );
+    expect(screen.getByLabelText("Шлюз")).toHaveAttribute(
+      "aria-required",
+      "false",
+    );
+  });
+});
+
+// =====================================================================
+//  Ограничения полей
+// =====================================================================
+
+describe("SchemaForm — ограничения", () => {
+  it("поле на одно значение не принимает список", async () => {
+    const { user } = setup(GATEWAY_FORM);
+    await user.type(screen.getByLabelText("Адрес шлюза"), "10.0.0.1, 10.0.0.2");
+    expect(
+      screen.getByText("Допускается только одно значение"),
+    ).toBeInTheDocument();
+  });
+
+  it("ограничения вида и версии из схемы", async () => {
+    const { user } = setup(DHCP_POOL_FORM);
+    await user.type(screen.getByLabelText("Пул адресов"), "10.0.0.1");
+    expect(
+      screen.getByText("10.0.0.1: одиночный адрес здесь не допускается"),
+    ).toBeInTheDocument();
+  });
+
+  it("обязательное поле не даёт отправить форму", async () => {
+    const { user, onSubmit, submitBtn } = setup(GATEWAY_FORM);
+    await user.click(submitBtn);
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(screen.getByText("Обязательное поле")).toBeInTheDocument();
+  });
+});
+
+// =====================================================================
+//  Отправка
+// =====================================================================
+
+describe("SchemaForm — отправка", () => {
+  it("передаёт значения по именам полей", async () => {
+    const { user, onSubmit, submitBtn } = setup(DHCP_POOL_FORM);
+    await user.type(screen.getByLabelText("Пул адресов"), "192.168.1.10-50");
+    await user.type(screen.getByLabelText("Шлюз"), "192.168.1.1");
+    await user.click(submitBtn);
+    expect(onSubmit).toHaveBeenCalledWith(
+      {
+        pool: "192.168.1.10-50",
+        gateway: "192.168.1.1",
+        dns: "",
+      },
+      expect.any(AbortSignal),
+    );
+    expect(screen.getByText(/данные успешно отправлены/i)).toBeInTheDocument();
+  });
+
+  it("приводит MAC к нотации из схемы", async () => {
+    const { user, onSubmit, submitBtn } = setup({
+      ...ALLOWED_MACS_FORM,
+      fields: [
+        {
+          kind: "mac",
+          name: "macs",
+          label: "forms.macs.mac",
+          outputNotation: "colon",
+        },
+      ],
+    });
+    await user.type(screen.getByLabelText("MAC-адреса"), "AABB.CCDD.EEFF");
+    await user.click(submitBtn);
+    expect(onSubmit).toHaveBeenCalledWith(
+      { macs: "AA:BB:CC:DD:EE:FF" },
+      expect.any(AbortSignal),
+    );
+  });
+});
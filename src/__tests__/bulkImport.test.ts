@@ -0,0 +1,161 @@
+import {
+  detectImportFormat,
+  importAddresses,
+  isRecordAccepted,
+} from "../utils/bulkImport";
+
+describe("detectImportFormat", () => {
+  it("по расширению файла", () => {
+    expect(detectImportFormat("", "hosts.json")).toBe("json");
+    expect(detectImportFormat("", "hosts.CSV")).toBe("csv");
+    expect(detectImportFormat("[", "hosts.txt")).toBe("text");
+  });
+
+  it("по содержимому", () => {
+    expect(detectImportFormat(' ["10.0.0.1"]')).toBe("json");
+    expect(detectImportFormat("ip;mac\n10.0.0.1;")).toBe("csv");
+    expect(detectImportFormat("10.0.0.1\n10.0.0.2")).toBe("text");
+  });
+});
+
+describe("importAddresses — текст", () => {
+  it("достаёт адреса из вывода arp -a и ip neigh", () => {
+    const result = importAddresses(
+      [
+        "? (192.168.1.1) at aa:bb:cc:dd:ee:ff [ether] on eth0",
+        "192.168.1.30 dev eth0 lladdr 00:11:22:33:44:55 REACHABLE",
+        "  192.168.1.254         aa-bb-cc-dd-ee-01     dynamic",
+      ].join("\n"),
+    );
+    expect(result.format).toBe("text");
+    expect(result.ips).toEqual([
+      "192.168.1.1",
+      "192.168.1.30",
+      "192.168.1.254",
+    ]);
+    expect(result.macs).toEqual([
+      "aa:bb:cc:dd:ee:ff",
+      "00:11:22:33:44:55",
+      "aa-bb-cc-dd-ee-01",
+    ]);
+    expect(result.records.every(isRecordAccepted)).toBe(true);
+  });
+
+  it("дополняет группы MAC без ведущих нулей (macOS)", () => {
+    const result = importAddresses("? (10.0.0.2) at 0:1b:2c:3d:4e:5 on en0");
+    expect(result.macs).toEqual(["00:1b:2c:3d:4e:05"]);
+  });
+
+  it("номер строки, пропуск пустых строк и комментариев", () => {
+    const result = importAddresses("# hosts\n\n10.0.0.1\nnothing here");
+    expect(result.records.map((r) => r.label)).toEqual(["3", "4"]);
+    expect(isRecordAccepted(result.records[1])).toBe(false);
+    expect(result.records[1].rejected).toEqual([]);
+  });
+
+  it("похожие на адрес, но некорректные токены — с причиной", () => {
+    const [record] = importAddresses(
+      "10.0.0.1 999.1.1.1 aa:bb:cc:dd:ee:zz",
+    ).records;
+    expect(record.ips).toEqual(["10.0.0.1"]);
+    expect(record.rejected).toEqual([
+      { token: "999.1.1.1", message: { key: "ip.invalid" } },
+      { token: "aa:bb:cc:dd:ee:zz", message: { key: "mac.invalid" } },
+    ]);
+  });
+
+  it("время, даты и версии — шум, а не ошибки", () => {
+    const [record] = importAddresses(
+      "at 12:30:45 on 2024-01-15 v1.2.3",
+    ).records;
+    expect(isRecordAccepted(record)).toBe(false);
+    expect(record.rejected).toEqual([]);
+  });
+
+  it("пунктуация в конце токена", () => {
+    expect(importAddresses("шлюз: 10.0.0.1.").ips).toEqual(["10.0.0.1"]);
+  });
+
+  it("подсети и диапазоны", () => {
+    expect(importAddresses("10.0.0.0/24 10.0.1.1-10.0.1.9").ips).toEqual([
+      "10.0.0.0/24",
+      "10.0.1.1-10.0.1.9",
+    ]);
+  });
+
+  it("учитывает параметры IP-поля", () => {
+    expect(importAddresses("fe80::1%eth0").ips).toEqual([]);
+    expect(
+      importAddresses("fe80::1%eth0", { ip: { allowZones: true } }).ips,
+    ).toEqual(["fe80::1%eth0"]);
+  });
+});
+
+describe("importAddresses — CSV", () => {
+  it("ячейки в кавычках и разные разделители", () => {
+    const result = importAddresses(
+      'name,ip,mac\nsrv1,"10.0.0.1",AABB.CCDD.EEFF\nsrv2;10.0.0.2;11-22-33-44-55-66',
+      { fileName: "hosts.csv" },
+    );
+    expect(result.format).toBe("csv");
+    expect(result.ips).toEqual(["10.0.0.1", "10.0.0.2"]);
+    expect(result.macs).toEqual(["AABB.CCDD.EEFF", "11-22-33-44-55-66"]);
+    // Заголовок — запись без адресов
+    expect(isRecordAccepted(result.records[0])).toBe(false);
+  });
+});
+
+describe("importAddresses — JSON", () => {
+  it("строки из вложенных массивов и объектов, с путями", () => {
+    const result = importAddresses(
+      '{"hosts":[{"ip":"10.0.0.1","mac":"aa:bb:cc:dd:ee:ff","port":22},"fe80::1"]}',
+    );
+    expect(result.format).toBe("json");
+    expect(result.records.map((r) => r.label)).toEqual([
+      "hosts[0].ip",
+      "hosts[0].mac",
+      "hosts[1]",
+    ]);
+    expect(result.ips).toEqual(["10.0.0.1", "fe80::1"]);
+    expect(result.macs).toEqual(["aa:bb:cc:dd:ee:ff"]);
+  });
+
+  it("некорректный JSON — ошибка всего файла", () => {
+    const result = importAddresses("{bad", { format: "json" });
+    expect(result.error).toEqual({ key: "import.invalidJson" });
+    expect(result.records).toEqual([]);
+  });
+});
+
+describe("importAddresses — повторы и нотации", () => {
+  it("убирает повторы, в том числе MAC в другой нотации", () => {
+    const result = importAddresses(
+      "10.0.0.1 aa:bb:cc:dd:ee:ff\n10.0.0.1 AA-BB-CC-DD-EE-FF",
+    );
+    expect(result.ips).toEqual(["10.0.0.1"]);
+    expect(result.macs).toEqual(["aa:bb:cc:dd:ee:ff"]);
+  });
+
+  it("приводит MAC к нотации, которую принимает поле", () => {
+    const result = importAddresses("aa:bb:cc:dd:ee:ff", {
+      mac: { notations: ["cisco"] },
+    });
+    expect(result.macs).toEqual(["AABB.CCDD.EEFF"]);
+  });
+
+  it("EUI-64 через двоеточие — MAC, а не IPv6", () => {
+    const result = importAddresses("host 00:11:22:33:44:55:66:77", {
+      mac: { length: 8 },
+    });
+    expect(result.macs).toEqual(["00:11:22:33:44:55:66:77"]);
+    expect(result.ips).toEqual([]);
+    // Без EUI-64 в поле это обычный IPv6-адрес.
+    expect(importAddresses("host 00:11:22:33:44:55:66:77").ips).toEqual([
+      "00:11:22:33:44:55:66:77",
+    ]);
+  });
+
+  it("не принимает двенадцать hex-цифр подряд без разделителей", () => {
+    expect(importAddresses("id 001122334455").macs).toEqual([]);
+  });
+});
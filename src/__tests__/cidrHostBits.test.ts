@@ -0,0 +1,78 @@
+import {
+  getCidrHostBitsDiagnostics,
+  getCidrNetwork,
+} from "../utils/cidrHostBits";
+import { parseIpItems, type IpCidrItem } from "../utils/ipExpression";
+
+// =====================================================================
+//  getCidrNetwork
+// =====================================================================
+
+describe("getCidrNetwork", () => {
+  it.each([
+    ["192.168.1.77/24", "192.168.1.0/24"],
+    ["10.1.2.3/8", "10.0.0.0/8"],
+    ["172.16.5.4/32", "172.16.5.4/32"],
+    ["2001:db8::1/64", "2001:db8::/64"],
+    ["2001:db8:abcd:12::1/48", "2001:db8:abcd::/48"],
+    ["192.168.1.77 255.255.255.0", "192.168.1.0 255.255.255.0"],
+    ["10.0.0.9 0.0.0.255", "10.0.0.0 0.0.0.255"],
+  ])("%s → %s", (cidr, network) => {
+    const item = parseIpItems(cidr)[0] as IpCidrItem;
+    expect(getCidrNetwork(item)).toBe(network);
+  });
+});
+
+// =====================================================================
+//  getCidrHostBitsDiagnostics
+// =====================================================================
+
+describe("getCidrHostBitsDiagnostics", () => {
+  it("указывает элемент и предлагает адрес сети", () => {
+    const value = "10.0.0.0/8, 192.168.1.77/24";
+    const [d] = getCidrHostBitsDiagnostics(value);
+    expect(d).toMatchObject({
+      code: "CIDR_HOST_BITS",
+      itemIndex: 1,
+      fix: "192.168.1.0/24",
+      message: {
+        key: "ip.cidrHostBitsFix",
+        params: { cidr: "192.168.1.77/24", network: "192.168.1.0/24" },
+      },
+    });
+    expect(value.slice(d.start, d.end)).toBe("192.168.1.77/24");
+  });
+
+  it.each([
+    ["10.0.1-2.77/24", "10.0.1-2.0/24"],
+    ["10.0.0.1-5/24", "10.0.0.0/24"],
+    ["10.*.3.0/8", "10.0.0.0/8"],
+    ["10.0.16-31.*/20", "10.0.16.0/20"],
+  ])("сокращённый диапазон %s → %s", (value, network) => {
+    const short = { allowShortRanges: true };
+    expect(getCidrHostBitsDiagnostics(value, short)).toMatchObject([
+      { code: "CIDR_HOST_BITS", itemIndex: 0, fix: network },
+    ]);
+  });
+
+  it("сокращённые диапазоны — только с allowShortRanges", () => {
+    expect(getCidrHostBitsDiagnostics("10.0.1-2.77/24")).toEqual([]);
+    expect(
+      getCidrHostBitsDiagnostics("10.0.1-2.0/24, 10.*.0.0/16", {
+        allowShortRanges: true,
+      }),
+    ).toEqual([]);
+  });
+
+  it("замечания идут в порядке элементов", () => {
+    const value = "10.0.1-2.77/24, 192.168.1.77/24";
+    const found = getCidrHostBitsDiagnostics(value, { allowShortRanges: true });
+    expect(found.map((d) => d.itemIndex)).toEqual([0, 1]);
+  });
+
+  it("не трогает адреса сетей, одиночные адреса и диапазоны", () => {
+    expect(getCidrHostBitsDiagnostics("10.0.0.0/8, 10.0.0.1, ::1-::5")).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { getIpDiagnostics, getMacDiagnostics } from "../utils/diagnostics";
+import { getErrorCode } from "../utils/validators";
+
+// =====================================================================
+//  Коды ошибок
+// =====================================================================
+
+describe("getErrorCode", () => {
+  it("сопоставляет ключам сообщений стабильные коды", () => {
+    expect(getErrorCode("ip.rangeOrder")).toBe("RANGE_ORDER");
+    expect(getErrorCode("mac.invalid")).toBe("INVALID_MAC");
+  });
+});
+
+// =====================================================================
+//  IP
+// =====================================================================
+
+describe("getIpDiagnostics", () => {
+  it("пустой массив для корректного или пустого значения", () => {
+    expect(getIpDiagnostics("")).toEqual([]);
+    expect(getIpDiagnostics("10.0.0.1, 192.168.")).toEqual([]);
+    expect(getIpDiagnostics("10.0.0.1, ::1", "full")).toEqual([]);
+  });
+
+  it("указывает на элемент с неверным порядком диапазона", () => {
+    const value = "10.0.0.1, 10.0.0.9-10.0.0.2, ::1";
+    expect(getIpDiagnostics(value)).toEqual([
+      {
+        code: "RANGE_ORDER",
+        message: { key: "ip.rangeOrder" },
+        start: 10,
+        end: 27,
+        itemIndex: 1,
+      },
+    ]);
+  });
+
+  it.each([
+    ["192.168.1.1-::1", "VERSION_MISMATCH"],
+    ["10.0.0.0/33", "CIDR_PREFIX"],
+    ["192.168.1.-1", "RANGE_FORMAT"],
+    ["2001:db8::1::1", "IP_FORMAT"],
+  ])("код ошибки для %s — %s", (value, code) => {
+    expect(getIpDiagnostics(value).map((d) => d.code)).toEqual([code]);
+  });
+
+  it("указывает на первый недопустимый символ", () => {
+    const [d] = getIpDiagnostics("10.0.0.1, 10.0.x.1");
+    expect(d).toMatchObject({
+      code: "ALLOWED_CHARS",
+      message: { key: "common.allowedChars" },
+      start: 15,
+      end: 16,
+      itemIndex: 1,
+    });
+  });
+
+  it("находит элементы списка, не похожие на IP", () => {
+    const diagnostics = getIpDiagnostics("12,22,10.0.0.1");
+    expect(diagnostics.map((d) => [d.code, d.itemIndex])).toEqual([
+      ["IP_FORMAT", 0],
+      ["IP_FORMAT", 1],
+    ]);
+  });
+
+  it("в режиме full подсвечивает завершающую запятую", () => {
+    expect(getIpDiagnostics("10.0.0.1, ", "full")).toEqual([
+      expect.objectContaining({ code: "INVALID_IP", start: 8, end: 9 }),
+    ]);
+  });
+
+  it("маска 0.0.0.0 с контекстом в других элементах — не ошибка", () => {
+    const value = "10.0.0.0 0.0.0.255, 10.0.1.1 0.0.0.0, 10.0";
+    expect(getIpDiagnostics(value, "full")).toEqual([
+      expect.objectContaining({ itemIndex: 2 }),
+    ]);
+  });
+
+  it("в режиме full отклоняет недописанный последний элемент", () => {
+    expect(getIpDiagnostics("10.0.0.1, 10.0", "full")).toEqual([
+      expect.objectContaining({ itemIndex: 1, start: 10, end: 14 }),
+    ]);
+  });
+});
+
+// =====================================================================
+//  MAC
+// =====================================================================
+
+describe("getMacDiagnostics", () => {
+  it("пустой массив для корректного частичного ввода", () => {
+    expect(getMacDiagnostics("AA-BB-CC-DD-EE-FF, 11-22")).toEqual([]);
+  });
+
+  it("указывает на неполный MAC в середине списка", () => {
+    expect(getMacDiagnostics("AA-BB, 11-22-33-44-55-66")).toEqual([
+      {
+        code: "INVALID_MAC",
+        message: { key: "mac.invalid" },
+        start: 0,
+        end: 5,
+        itemIndex: 0,
+      },
+    ]);
+  });
+
+  it("указывает на недопустимый символ", () => {
+    const [d] = getMacDiagnostics("AA-BB-CC-DD-EE-FF, 11-2Z");
+    expect(d).toMatchObject({ code: "ALLOWED_CHARS", start: 23, end: 24 });
+  });
+
+  it("в режиме full отклоняет недописанный последний MAC", () => {
+    expect(getMacDiagnostics("AA-BB-CC-DD-EE-FF, 11-22", "full")).toEqual([
+      expect.objectContaining({ code: "INVALID_MAC", itemIndex: 1 }),
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  canRedo,
+  canUndo,
+  createEditHistory,
+  getHistoryCommand,
+  GROUP_TIMEOUT,
+  HISTORY_LIMIT,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+  type EditHistory,
+} from "../utils/editHistory";
+
+/** Печать строки в поле по символу с интервалом step мс. */
+function type(
+  history: EditHistory,
+  field: string,
+  text: string,
+  { start = 0, step = 100 } = {},
+): EditHistory {
+  let h = history;
+  [...text].forEach((char, i) => {
+    const value = (h.present[field] ?? "") + char;
+    h = recordEdit(
+      h,
+      { ...h.present, [field]: value },
+      { field, time: start + i * step },
+    );
+  });
+  return h;
+}
+
+describe("editHistory — группировка нажатий", () => {
+  it("набор без пауз — одна запись", () => {
+    const h = type(createEditHistory(), "ip", "10.0.0.1");
+    expect(h.present).toEqual({ ip: "10.0.0.1" });
+    expect(undoEdit(h).present).toEqual({});
+  });
+
+  it("разделитель списка начинает новую запись", () => {
+    const h = type(createEditHistory(), "ip", "10.0.0.1, 10.0.0.2");
+    expect(undoEdit(h).present).toEqual({ ip: "10.0.0.1" });
+    expect(undoEdit(undoEdit(h)).present).toEqual({});
+  });
+
+  it("пауза дольше GROUP_TIMEOUT начинает новую запись", () => {
+    let h = type(createEditHistory(), "ip", "10.0");
+    h = type(h, "ip", ".0.1", { start: 300 + GROUP_TIMEOUT });
+    expect(undoEdit(h).present).toEqual({ ip: "10.0" });
+  });
+
+  it("другое поле — новая запись", () => {
+    let h = type(createEditHistory(), "ip", "10.0.0.1");
+    h = type(h, "mac", "AA", { start: 900 });
+    expect(undoEdit(h).present).toEqual({ ip: "10.0.0.1" });
+  });
+
+  it("удаление после ввода — новая запись", () => {
+    let h = type(createEditHistory(), "ip", "10.0.0.12");
+    h = recordEdit(h, { ip: "10.0.0.1" }, { field: "ip", time: 1000 });
+    h = recordEdit(h, { ip: "10.0.0." }, { field: "ip", time: 1100 });
+    expect(undoEdit(h).present).toEqual({ ip: "10.0.0.12" });
+  });
+
+  it("вставка и правки без поля — отдельные записи", () => {
+    let h = recordEdit(
+      createEditHistory(),
+      { ip: "10.0.0.1, 10.0.0.2" },
+      {
+        field: "ip",
+        time: 0,
+      },
+    );
+    h = recordEdit(h, { ip: "10.0.0.0/30" });
+    expect(undoEdit(h).present).toEqual({ ip: "10.0.0.1, 10.0.0.2" });
+  });
+
+  it("те же значения не создают записи", () => {
+    const h = recordEdit(createEditHistory({ ip: "" }), { ip: "", mac: "" });
+    expect(canUndo(h)).toBe(false);
+  });
+});
+
+describe("editHistory — отмена и повтор", () => {
+  it("повтор возвращает отменённое, новая правка сбрасывает повторы", () => {
+    let h = type(createEditHistory(), "ip", "10.0.0.1, 10.0.0.2");
+    h = undoEdit(h);
+    expect(canRedo(h)).toBe(true);
+    expect(redoEdit(h).present).toEqual({ ip: "10.0.0.1, 10.0.0.2" });
+
+    h = recordEdit(h, { ip: "10.0.0.1;" }, { field: "ip", time: 5000 });
+    expect(canRedo(h)).toBe(false);
+  });
+
+  it("на краях истории — без изменений", () => {
+    const h = createEditHistory({ ip: "x" });
+    expect(undoEdit(h)).toBe(h);
+    expect(redoEdit(h)).toBe(h);
+  });
+
+  it("хранит не больше HISTORY_LIMIT записей", () => {
+    let h = createEditHistory();
+    for (let i = 0; i <= HISTORY_LIMIT + 10; i++) {
+      h = recordEdit(h, { ip: String(i) });
+    }
+    expect(h.past).toHaveLength(HISTORY_LIMIT);
+  });
+});
+
+describe("getHistoryCommand", () => {
+  const key = (
+    k: string,
+    mods: Partial<
+      Record<"ctrlKey" | "metaKey" | "shiftKey" | "altKey", boolean>
+    >,
+  ) => ({
+    key: k,
+    ctrlKey: false,
+    metaKey: false,
+    shiftKey: false,
+    altKey: false,
+    ...mods,
+  });
+
+  it("распознаёт сочетания", () => {
+    expect(getHistoryCommand(key("z", { ctrlKey: true }))).toBe("undo");
+    expect(getHistoryCommand(key("z", { metaKey: true }))).toBe("undo");
+    expect(getHistoryCommand(key("Z", { ctrlKey: true, shiftKey: true }))).toBe(
+      "redo",
+    );
+    expect(getHistoryCommand(key("y", { ctrlKey: true }))).toBe("redo");
+  });
+
+  it("остальное не трогает", () => {
+    expect(getHistoryCommand(key("z", {}))).toBeNull();
+    expect(
+      getHistoryCommand(key("z", { ctrlKey: true, altKey: true })),
+    ).toBeNull();
+    expect(getHistoryCommand(key("a", { ctrlKey: true }))).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  createIpValidator,
+  createMacValidator,
+  NO_ISSUES,
+} from "../utils/fieldValidators";
+
+describe("createIpValidator", () => {
+  const validator = createIpValidator();
+
+  it("пустое значение — без замечаний", () => {
+    expect(validator.partial("")).toEqual(NO_ISSUES);
+    expect(validator.full("")).toEqual(NO_ISSUES);
+  });
+
+  it("недописанный адрес допустим только при вводе", () => {
+    expect(validator.partial("10.0.").error).toBeNull();
+    expect(validator.full("10.0.").error).toEqual({ key: "ip.invalid" });
+    expect(validator.full("10.0.").diagnostics).not.toHaveLength(0);
+  });
+
+  it("конкретная синтаксическая ошибка одинакова в обоих режимах", () => {
+    expect(validator.partial("abc").error).toEqual({
+      key: "ip.invalidFormat",
+    });
+    expect(validator.full("abc").error).toEqual({ key: "ip.invalidFormat" });
+  });
+
+  it("ограничения поля — ошибка после синтаксиса", () => {
+    const v4only = createIpValidator({ versions: [4] });
+    expect(v4only.full("fe80::1").error?.key).toBe("ip.versionNotAllowed");
+    expect(v4only.full("10.0.0.1").error).toBeNull();
+  });
+
+  it("биты хоста — предупреждение, в строгом режиме — ошибка", () => {
+    expect(validator.full("10.0.0.1/24").error).toBeNull();
+    expect(validator.full("10.0.0.1/24").warnings).toHaveLength(1);
+    const strict = createIpValidator({ strictCidr: true });
+    expect(strict.full("10.0.0.1/24").error?.key).toBe("ip.cidrHostBitsFix");
+  });
+
+  it("при вводе биты хоста в строгом режиме — только предупреждение", () => {
+    const strict = createIpValidator({ strictCidr: true });
+    const typing = strict.partial("192.168.1.0/2");
+    expect(typing.error).toBeNull();
+    expect(typing.diagnostics).toEqual([]);
+    expect(typing.warnings).toMatchObject([{ fix: "192.0.0.0/2" }]);
+    expect(strict.partial("192.168.1.0/24")).toMatchObject({
+      error: null,
+      warnings: [],
+    });
+  });
+
+  it("биты хоста проверяются с настройками поля", () => {
+    const strict = createIpValidator({
+      strictCidr: true,
+      allowShortRanges: true,
+    });
+    const { error, diagnostics } = strict.full(
+      "192.168.1.0 255.255.255.0, 10.0.1-2.77/24",
+    );
+    expect(error?.key).toBe("ip.cidrHostBitsFix");
+    expect(diagnostics).toMatchObject([{ itemIndex: 1, fix: "10.0.1-2.0/24" }]);
+    expect(strict.full("10.0.1-2.0/24").error).toBeNull();
+  });
+});
+
+describe("createMacValidator", () => {
+  const validator = createMacValidator();
+
+  it("недописанный адрес допустим только при вводе", () => {
+    expect(validator.partial("AA-BB").error).toBeNull();
+    expect(validator.full("AA-BB").error).toEqual({ key: "mac.invalid" });
+  });
+
+  it("недопустимые символы — конкретное сообщение", () => {
+    expect(validator.full("ZZ-BB-CC-DD-EE-FF").error?.key).toBe(
+      "common.allowedChars",
+    );
+  });
+
+  it("учитывает нотации и длину", () => {
+    const colon = createMacValidator({ notations: ["colon"], length: 6 });
+    expect(colon.full("AA:BB:CC:DD:EE:FF").error).toBeNull();
+    expect(colon.full("AA-BB-CC-DD-EE-FF").error).not.toBeNull();
+  });
+
+  it("предупреждения не блокируют значение", () => {
+    const issues = validator.full("FF-FF-FF-FF-FF-FF");
+    expect(issues.error).toBeNull();
+    expect(issues.warnings).not.toHaveLength(0);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  DRAFT_VERSION,
+  getDraftStorageKey,
+  getDraftValues,
+  loadDraft,
+  parseDraft,
+  removeDraft,
+  saveDraft,
+  serializeDraft,
+  type DraftStorage,
+} from "../utils/formDraft";
+
+const SAVED_AT = new Date("2026-03-01T10:00:00Z");
+
+describe("формат черновика", () => {
+  it("конверт с версией и временем сохранения", () => {
+    expect(JSON.parse(serializeDraft({ ip: "10.0.0.1" }, SAVED_AT))).toEqual({
+      version: DRAFT_VERSION,
+      savedAt: "2026-03-01T10:00:00.000Z",
+      values: { ip: "10.0.0.1" },
+    });
+  });
+
+  it("читает сохранённый черновик", () => {
+    const text = serializeDraft({ ip: "10.0.0.1", mac: "" }, SAVED_AT);
+    expect(parseDraft(text)?.values).toEqual({ ip: "10.0.0.1", mac: "" });
+  });
+
+  it("отбрасывает повреждённые и неизвестные версии", () => {
+    expect(parseDraft(null)).toBeNull();
+    expect(parseDraft("{not json")).toBeNull();
+    expect(parseDraft('"text"')).toBeNull();
+    expect(parseDraft(JSON.stringify({ values: { ip: "1" } }))).toBeNull();
+    expect(
+      parseDraft(
+        JSON.stringify({ version: DRAFT_VERSION + 1, savedAt: "", values: {} }),
+      ),
+    ).toBeNull();
+    expect(
+      parseDraft(
+        JSON.stringify({
+          version: DRAFT_VERSION,
+          savedAt: "",
+          values: { ip: 1 },
+        }),
+      ),
+    ).toBeNull();
+  });
+
+  it("восстанавливает только поля, которые есть в форме", () => {
+    const draft = parseDraft(
+      serializeDraft({ ip: "10.0.0.1", vlan: "10", mac: "" }, SAVED_AT),
+    )!;
+    expect(getDraftValues(draft, ["ip", "mac", "gateway"])).toEqual({
+      ip: "10.0.0.1",
+    });
+    expect(getDraftValues(draft, ["gateway"])).toBeNull();
+  });
+});
+
+describe("хранилище черновиков", () => {
+  function memoryStorage(): DraftStorage & { data: Map<string, string> } {
+    const data = new Map<string, string>();
+    return {
+      data,
+      getItem: (key) => data.get(key) ?? null,
+      setItem: (key, value) => void data.set(key, value),
+      removeItem: (key) => void data.delete(key),
+    };
+  }
+
+  it("сохраняет непустые значения и читает их обратно", () => {
+    const storage = memoryStorage();
+    saveDraft("net", { ip: "10.0.0.1", mac: " " }, storage);
+    expect(loadDraft("net", storage)?.values).toEqual({ ip: "10.0.0.1" });
+    expect([...storage.data.keys()]).toEqual([getDraftStorageKey("net")]);
+  });
+
+  it("пустая форма удаляет черновик", () => {
+    const storage = memoryStorage();
+    saveDraft("net", { ip: "10.0.0.1" }, storage);
+    saveDraft("net", { ip: "" }, storage);
+    expect(storage.data.size).toBe(0);
+    saveDraft("net", { ip: "10.0.0.1" }, storage);
+    removeDraft("net", storage);
+    expect(loadDraft("net", storage)).toBeNull();
+  });
+
+  it("ошибки хранилища не мешают работе формы", () => {
+    const broken: DraftStorage = {
+      getItem: () => {
+        throw new Error("denied");
+      },
+      setItem: () => {
+        throw new Error("quota");
+      },
+      removeItem: () => {
+        throw new Error("denied");
+      },
+    };
+    expect(loadDraft("net", broken)).toBeNull();
+    expect(() => saveDraft("net", { ip: "10.0.0.1" }, broken)).not.toThrow();
+    expect(() => removeDraft("net", broken)).not.toThrow();
+  });
+});
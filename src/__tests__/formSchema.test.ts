@@ -0,0 +1,93 @@
+import {
+  getIpFieldKinds,
+  prepareFormValues,
+  serializeFormValues,
+  type FormSchema,
+} from "../utils/formSchema";
+import {
+  ALLOWED_MACS_FORM,
+  createNetworkFormSchema,
+  DHCP_POOL_FORM,
+  DNS_FORM,
+  GATEWAY_FORM,
+  VLAN_FORM,
+} from "../utils/formPresets";
+
+const schema: FormSchema = {
+  title: "form.title",
+  fields: [
+    { kind: "ip", name: "ip" },
+    { kind: "mac", name: "mac", outputNotation: "colon" },
+  ],
+};
+
+describe("getIpFieldKinds", () => {
+  it("по умолчанию — все виды", () => {
+    expect(getIpFieldKinds({ kind: "ip", name: "ip" })).toEqual([
+      "single",
+      "cidr",
+      "range",
+      "list",
+    ]);
+  });
+
+  it("поле на одно значение не принимает списки", () => {
+    expect(
+      getIpFieldKinds({
+        kind: "ip",
+        name: "ip",
+        multiple: false,
+        kinds: ["single", "list"],
+      }),
+    ).toEqual(["single"]);
+  });
+});
+
+describe("prepareFormValues", () => {
+  it("приводит IPv6 к канонической записи только в IP-полях", () => {
+    expect(
+      prepareFormValues(schema, { ip: "2001:DB8:0:0::1", mac: "aa:bb" }),
+    ).toEqual({ ip: "2001:db8::1", mac: "aa:bb" });
+  });
+});
+
+describe("serializeFormValues", () => {
+  it("приводит MAC к нотации поля", () => {
+    expect(
+      serializeFormValues(schema, {
+        ip: "10.0.0.1",
+        mac: "AA-BB-CC-DD-EE-FF",
+      }),
+    ).toEqual({ ip: "10.0.0.1", mac: "AA:BB:CC:DD:EE:FF" });
+  });
+
+  it("отсутствующее значение — пустая строка", () => {
+    expect(serializeFormValues(schema, {})).toEqual({ ip: "", mac: "" });
+  });
+});
+
+describe("готовые формы", () => {
+  it("сетевые параметры — поля ip и mac с переданными настройками", () => {
+    const form = createNetworkFormSchema({
+      strictCidr: true,
+      macOutputNotation: "cisco",
+    });
+    expect(form.fields.map((f) => f.name)).toEqual(["ip", "mac"]);
+    expect(form.fields[0]).toMatchObject({ kind: "ip", strictCidr: true });
+    expect(form.fields[1]).toMatchObject({
+      kind: "mac",
+      outputNotation: "cisco",
+    });
+  });
+
+  it.each([
+    GATEWAY_FORM,
+    DNS_FORM,
+    DHCP_POOL_FORM,
+    ALLOWED_MACS_FORM,
+    VLAN_FORM,
+  ])("$title — имена полей уникальны", (form) => {
+    const names = form.fields.map((f) => f.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
@@ -0,0 +1,68 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import I18nProvider from "../i18n/I18nProvider";
+import LocaleSwitcher from "../components/LocaleSwitcher";
+import NetworkForm from "../components/NetworkForm";
+import { en } from "../i18n/locales/en";
+import { ru } from "../i18n/locales/ru";
+import { formatMessage, interpolate, translate } from "../i18n/translate";
+
+// =====================================================================
+//  Каталог и подстановка параметров
+// =====================================================================
+
+describe("translate", () => {
+  it("возвращает текст в выбранной локали", () => {
+    expect(translate("ru", "ip.invalid")).toBe("Некорректный IP-адрес");
+    expect(translate("en", "ip.invalid")).toBe("Invalid IP address");
+  });
+
+  it("подставляет параметры и оставляет неизвестные плейсхолдеры", () => {
+    expect(interpolate("{count} из {total}", { count: 3 })).toBe(
+      "3 из {total}",
+    );
+  });
+
+  it("переводит вложенные сообщения в параметрах", () => {
+    const message = {
+      key: "ip.policy.warn",
+      params: { address: "::1", category: { key: "ip.category.loopback" } },
+    } as const;
+    expect(formatMessage("ru", message)).toBe("::1: адрес loopback");
+    expect(formatMessage("en", message)).toBe("::1: loopback address");
+  });
+
+  it("форматирует сообщение валидатора", () => {
+    expect(formatMessage("en", { key: "mac.invalid" })).toBe(
+      "Invalid MAC address",
+    );
+  });
+
+  it("английский каталог полный", () => {
+    expect(Object.keys(en).sort()).toEqual(Object.keys(ru).sort());
+  });
+});
+
+// =====================================================================
+//  Переключение локали в форме
+// =====================================================================
+
+describe("I18nProvider", () => {
+  it("переключает подписи и ошибки формы на английский", async () => {
+    const user = userEvent.setup();
+    render(
+      <I18nProvider>
+        <LocaleSwitcher />
+        <NetworkForm />
+      </I18nProvider>,
+    );
+
+    await user.type(screen.getByLabelText("IP-адрес"), "abc");
+    expect(screen.getByText("Некорректный формат IP-адреса")).toBeVisible();
+
+    await user.selectOptions(screen.getByLabelText("Язык"), "en");
+    expect(screen.getByText("Network parameters")).toBeInTheDocument();
+    expect(screen.getByLabelText("IP address")).toHaveValue("abc");
+    expect(screen.getByText("Invalid IP address format")).toBeVisible();
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  aggregateIpItems,
+  formatCidrBlock,
+  normalizeIpList,
+  rangeToCidrs,
+} from "../utils/ipAggregate";
+import { parseIpExpression } from "../utils/ipExpression";
+import { getIpSetSize } from "../utils/ipSet";
+import { ipv4ToNumber } from "../utils/validators";
+
+function v4(address: string) {
+  return BigInt(ipv4ToNumber(address));
+}
+
+// =====================================================================
+//  rangeToCidrs
+// =====================================================================
+
+describe("rangeToCidrs", () => {
+  it("выровненный диапазон — один блок", () => {
+    expect(
+      rangeToCidrs(4, v4("10.0.0.0"), v4("10.0.0.255")).map(formatCidrBlock),
+    ).toEqual(["10.0.0.0/24"]);
+  });
+
+  it("раскладывает произвольный диапазон на минимум префиксов", () => {
+    expect(
+      rangeToCidrs(4, v4("10.0.0.1"), v4("10.0.0.10")).map(formatCidrBlock),
+    ).toEqual([
+      "10.0.0.1/32",
+      "10.0.0.2/31",
+      "10.0.0.4/30",
+      "10.0.0.8/31",
+      "10.0.0.10/32",
+    ]);
+  });
+
+  it("всё адресное пространство — /0", () => {
+    expect(rangeToCidrs(4, 0n, 0xffffffffn).map(formatCidrBlock)).toEqual([
+      "0.0.0.0/0",
+    ]);
+    expect(rangeToCidrs(6, 0n, (1n << 128n) - 1n).map(formatCidrBlock)).toEqual(
+      ["::/0"],
+    );
+  });
+});
+
+// =====================================================================
+//  aggregateIpItems / normalizeIpList
+// =====================================================================
+
+describe("aggregateIpItems", () => {
+  it("сливает смежные и пересекающиеся элементы", () => {
+    const items = parseIpExpression(
+      "10.0.0.0-10.0.0.255, 10.0.1.0/24, 10.0.0.128/25, 10.0.2.1",
+    )!;
+    expect(aggregateIpItems(items).map(formatCidrBlock)).toEqual([
+      "10.0.0.0/23",
+      "10.0.2.1/32",
+    ]);
+  });
+
+  it("сохраняет множество адресов", () => {
+    const items = parseIpExpression(
+      "192.168.0.7-192.168.3.200, 2001:db8::5-2001:db8::1:0",
+    )!;
+    const blocks = aggregateIpItems(items);
+    const cidrs = parseIpExpression(blocks.map(formatCidrBlock).join(", "))!;
+    expect(getIpSetSize(cidrs)).toEqual(getIpSetSize(items));
+  });
+});
+
+describe("normalizeIpList", () => {
+  it("переписывает список в минимальный набор CIDR", () => {
+    expect(
+      normalizeIpList("10.0.2.1, 10.0.0.0-10.0.0.255, 10.0.1.0/24, ::1"),
+    ).toBe("10.0.0.0/23, 10.0.2.1, ::1");
+  });
+
+  it("объединяет IPv6-подсети", () => {
+    expect(normalizeIpList("2001:db8::/65, 2001:db8:0:0:8000::/65")).toBe(
+      "2001:db8::/64",
+    );
+  });
+
+  it("адреса с зоной не сливаются и сохраняют зону", () => {
+    const zones = { allowZones: true };
+    const value = "fe80::1%eth0, fe80::1%eth1";
+    expect(normalizeIpList(value, zones)).toBe(value);
+    expect(
+      normalizeIpList(
+        "fe80::2%eth0, fe80::1, fe80::1%eth0, fe80::3%eth0",
+        zones,
+      ),
+    ).toBe("fe80::1, fe80::1%eth0, fe80::2%eth0, fe80::3%eth0");
+  });
+
+  it("некорректное значение — null", () => {
+    expect(normalizeIpList("10.0.0")).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  classifyIp,
+  getItemCategories,
+  IPV4_SPECIAL_PURPOSE,
+  IPV6_SPECIAL_PURPOSE,
+} from "../utils/ipClassification";
+import { parseIpExpression } from "../utils/ipExpression";
+import { checkIpPolicy, RFC1918_ONLY } from "../utils/ipPolicy";
+
+function item(value: string) {
+  return parseIpExpression(value)![0];
+}
+
+// =====================================================================
+//  classifyIp
+// =====================================================================
+
+describe("classifyIp", () => {
+  it.each([
+    ["8.8.8.8", "public"],
+    ["0.0.0.0", "unspecified"],
+    ["0.1.2.3", "thisNetwork"],
+    ["10.1.2.3", "private"],
+    ["172.31.255.255", "private"],
+    ["172.32.0.0", "public"],
+    ["192.168.0.1", "private"],
+    ["100.64.0.1", "sharedAddress"],
+    ["127.0.0.1", "loopback"],
+    ["169.254.1.1", "linkLocal"],
+    ["192.0.2.10", "documentation"],
+    ["198.18.0.1", "benchmarking"],
+    ["224.0.0.1", "multicast"],
+    ["240.0.0.1", "reserved"],
+    ["255.255.255.255", "broadcast"],
+  ])("IPv4 %s → %s", (address, category) => {
+    expect(classifyIp(address).category).toBe(category);
+  });
+
+  it.each([
+    ["2a00:1450::1", "public"],
+    ["::", "unspecified"],
+    ["::1", "loopback"],
+    ["::ffff:10.0.0.1", "ipv4Mapped"],
+    ["64:ff9b::10.0.0.1", "translation"],
+    ["64:ff9b::1", "translation"],
+    ["2001:db8::1", "documentation"],
+    ["2001::1", "tunneling"],
+    ["2001:2::1", "benchmarking"],
+    ["2001:100::1", "ietfProtocol"],
+    ["fd00::1", "uniqueLocal"],
+    ["fe80::1", "linkLocal"],
+    ["ff02::1", "multicast"],
+  ])("IPv6 %s → %s", (address, category) => {
+    expect(classifyIp(address).category).toBe(category);
+  });
+
+  it("возвращает самый специфичный блок реестра", () => {
+    expect(classifyIp("0.0.0.0").block?.cidr).toBe("0.0.0.0/32");
+    expect(classifyIp("2001::1").block?.name).toBe("TEREDO");
+    expect(classifyIp("8.8.8.8").block).toBeNull();
+  });
+
+  it("начало каждого блока реестра попадает в реестр", () => {
+    for (const block of [...IPV4_SPECIAL_PURPOSE, ...IPV6_SPECIAL_PURPOSE]) {
+      const [address] = block.cidr.split("/");
+      expect(classifyIp(address).block).not.toBeNull();
+    }
+  });
+});
+
+// =====================================================================
+//  getItemCategories
+// =====================================================================
+
+describe("getItemCategories", () => {
+  it("одиночный адрес — одна категория", () => {
+    expect(getItemCategories(item("127.0.0.1"))).toEqual(["loopback"]);
+  });
+
+  it("подсеть внутри блока — категория блока", () => {
+    expect(getItemCategories(item("10.20.0.0/16"))).toEqual(["private"]);
+  });
+
+  it("диапазон на границе блоков — обе категории", () => {
+    expect(getItemCategories(item("9.255.255.250-10.0.0.5"))).toEqual([
+      "public",
+      "private",
+    ]);
+  });
+
+  it("подсеть с установленными битами хоста берётся целиком", () => {
+    expect(getItemCategories(item("127.1.2.3/8"))).toEqual(["loopback"]);
+  });
+});
+
+// =====================================================================
+//  checkIpPolicy
+// =====================================================================
+
+describe("checkIpPolicy", () => {
+  it("запрещает категорию ошибкой с позицией элемента", () => {
+    const value = "8.8.8.8, 127.0.0.1";
+    const { errors, warnings } = checkIpPolicy(value, {
+      rules: { loopback: "deny" },
+    });
+    expect(warnings).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      code: "IP_CATEGORY",
+      itemIndex: 1,
+      message: {
+        key: "ip.policy.denied",
+        params: {
+          address: "127.0.0.1",
+          category: { key: "ip.category.loopback" },
+        },
+      },
+    });
+    expect(value.slice(errors[0].start, errors[0].end)).toBe("127.0.0.1");
+  });
+
+  it("предупреждает о категории с действием warn", () => {
+    const { errors, warnings } = checkIpPolicy("fe80::1", {
+      rules: { linkLocal: "warn" },
+    });
+    expect(errors).toEqual([]);
+    expect(warnings[0].message.key).toBe("ip.policy.warn");
+  });
+
+  it("белый список: только RFC 1918", () => {
+    const { errors } = checkIpPolicy(
+      "10.0.0.1, 192.168.1.0/24, 8.8.8.8",
+      RFC1918_ONLY,
+    );
+    expect(errors.map((e) => [e.code, e.itemIndex])).toEqual([
+      ["IP_NOT_ALLOWED", 2],
+    ]);
+  });
+
+  it("явное правило важнее белого списка", () => {
+    const { errors, warnings } = checkIpPolicy("127.0.0.1", {
+      allowOnly: ["private"],
+      rules: { loopback: "warn" },
+    });
+    expect(errors).toEqual([]);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it("allowOnlyAction: warn переводит нарушения в предупреждения", () => {
+    const { errors, warnings } = checkIpPolicy("8.8.8.8", {
+      ...RFC1918_ONLY,
+      allowOnlyAction: "warn",
+    });
+    expect(errors).toEqual([]);
+    expect(warnings[0].code).toBe("IP_NOT_ALLOWED");
+  });
+
+  it("пропускает незавершённые элементы", () => {
+    const { errors } = checkIpPolicy("127.0.0.1, 127.0", {
+      rules: { loopback: "deny" },
+    });
+    expect(errors.map((e) => e.itemIndex)).toEqual([0]);
+  });
+
+  it("сокращённый диапазон даёт одно замечание на категорию", () => {
+    const { errors } = checkIpPolicy(
+      "127.0.*.1",
+      { rules: { loopback: "deny" } },
+      { allowShortRanges: true },
+    );
+    expect(errors).toHaveLength(1);
+  });
+});
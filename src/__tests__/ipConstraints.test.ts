@@ -0,0 +1,63 @@
+import { getIpConstraintDiagnostics } from "../utils/ipConstraints";
+
+// =====================================================================
+//  getIpConstraintDiagnostics
+// =====================================================================
+
+describe("getIpConstraintDiagnostics", () => {
+  it("без ограничений замечаний нет", () => {
+    expect(
+      getIpConstraintDiagnostics("10.0.0.1, 10.0.0.0/8, ::1-::5", {}),
+    ).toEqual([]);
+  });
+
+  it("отмечает запрещённый вид элемента", () => {
+    const value = "10.0.0.1, 10.0.0.0/8";
+    const [d] = getIpConstraintDiagnostics(value, {
+      kinds: ["single", "list"],
+    });
+    expect(d).toMatchObject({
+      code: "IP_KIND",
+      itemIndex: 1,
+      message: {
+        key: "ip.kindNotAllowed",
+        params: { item: "10.0.0.0/8", kind: { key: "ip.kind.cidr" } },
+      },
+    });
+    expect(value.slice(d.start, d.end)).toBe("10.0.0.0/8");
+  });
+
+  it("без list допускается только одно значение", () => {
+    const diagnostics = getIpConstraintDiagnostics("10.0.0.1, 10.0.0.2, ", {
+      kinds: ["single"],
+    });
+    expect(diagnostics.map((d) => [d.itemIndex, d.message.key])).toEqual([
+      [1, "ip.listNotAllowed"],
+    ]);
+  });
+
+  it("отмечает запрещённую версию", () => {
+    const diagnostics = getIpConstraintDiagnostics("10.0.0.1, fe80::1", {
+      versions: [4],
+    });
+    expect(diagnostics).toMatchObject([
+      {
+        code: "IP_VERSION",
+        itemIndex: 1,
+        message: { params: { item: "fe80::1", version: 6 } },
+      },
+    ]);
+  });
+
+  it("сокращённый диапазон — это диапазон", () => {
+    const diagnostics = getIpConstraintDiagnostics(
+      "10.0.*.1",
+      { kinds: ["single"] },
+      { allowShortRanges: true },
+    );
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message.params?.kind).toEqual({
+      key: "ip.kind.range",
+    });
+  });
+});
@@ -0,0 +1,315 @@
+import {
+  bigIntToIpv6,
+  canonicalizeIpv6,
+  formatIpv6,
+  formatIpValue,
+  getEmbeddedIpv4,
+  getItemBounds,
+  parseIpExpression,
+  parseIpItems,
+} from "../utils/ipExpression";
+import {
+  ipv4ToNumber,
+  ipv6ToBigInt,
+  numberToIpv4,
+  splitList,
+} from "../utils/validators";
+
+// =====================================================================
+//  parseIpExpression
+// =====================================================================
+
+describe("parseIpExpression", () => {
+  it("пустая строка — пустой список", () => {
+    expect(parseIpExpression("")).toEqual([]);
+    expect(parseIpExpression("   ")).toEqual([]);
+  });
+
+  it.each(["abc", "192.168.1.1,", "10.0.0.0/33", "10.0.0.5-10.0.0.1"])(
+    "возвращает null для невалидного значения: %s",
+    (v) => expect(parseIpExpression(v)).toBeNull(),
+  );
+
+  it("разбирает одиночный IPv4", () => {
+    expect(parseIpExpression("192.168.1.1")).toEqual([
+      {
+        kind: "single",
+        version: 4,
+        address: "192.168.1.1",
+        value: 3232235777,
+        index: 0,
+        source: "192.168.1.1",
+        start: 0,
+        end: 11,
+      },
+    ]);
+  });
+
+  it("разбирает IPv6 в каноническую запись", () => {
+    const [item] = parseIpExpression("FE80:0:0::0001")!;
+    expect(item).toMatchObject({
+      kind: "single",
+      version: 6,
+      address: "fe80::1",
+      value: 0xfe800000000000000000000000000001n,
+    });
+  });
+
+  it("разбирает CIDR", () => {
+    const [item] = parseIpExpression("10.0.0.0/8")!;
+    expect(item).toMatchObject({
+      kind: "cidr",
+      version: 4,
+      address: "10.0.0.0",
+      value: 167772160,
+      prefix: 8,
+    });
+  });
+
+  it("разбирает диапазон с пробелами вокруг дефиса", () => {
+    const [item] = parseIpExpression("10.0.0.1 - 10.0.0.5")!;
+    expect(item).toMatchObject({
+      kind: "range",
+      version: 4,
+      first: { version: 4, address: "10.0.0.1", value: 167772161 },
+      last: { version: 4, address: "10.0.0.5", value: 167772165 },
+    });
+  });
+
+  it("разбирает IPv6 диапазон в bigint", () => {
+    const [item] = parseIpExpression("::1-::ff")!;
+    expect(item).toMatchObject({
+      kind: "range",
+      version: 6,
+      first: { value: 1n },
+      last: { value: 255n },
+    });
+  });
+
+  it("сохраняет смещения элементов списка", () => {
+    const value = " 10.0.0.1 ,  ::1/128";
+    const items = parseIpExpression(value)!;
+    expect(items.map((i) => [i.index, i.start, i.end])).toEqual([
+      [0, 1, 9],
+      [1, 13, 20],
+    ]);
+    expect(items.map((i) => value.slice(i.start, i.end))).toEqual([
+      "10.0.0.1",
+      "::1/128",
+    ]);
+  });
+});
+
+describe("parseIpExpression — зоны", () => {
+  it("выносит зону в отдельное поле", () => {
+    const [item, other] = parseIpExpression("FE80::1%eth0, ff02::1", {
+      allowZones: true,
+    })!;
+    expect(item).toMatchObject({
+      kind: "single",
+      address: "fe80::1",
+      value: 0xfe800000000000000000000000000001n,
+      zone: "eth0",
+      source: "FE80::1%eth0",
+    });
+    expect(other).not.toHaveProperty("zone");
+  });
+
+  it("без allowZones значение с зоной не разбирается", () => {
+    expect(parseIpExpression("fe80::1%eth0")).toBeNull();
+  });
+});
+
+describe("parseIpExpression — маски IPv4", () => {
+  it("переводит маску в длину префикса", () => {
+    const [netmask, wildcard] = parseIpExpression(
+      "192.168.1.0 255.255.255.0, 10.0.0.0/0.0.0.255",
+    )!;
+    expect(netmask).toMatchObject({
+      kind: "cidr",
+      address: "192.168.1.0",
+      prefix: 24,
+      maskNotation: "netmask",
+      source: "192.168.1.0 255.255.255.0",
+    });
+    expect(wildcard).toMatchObject({
+      kind: "cidr",
+      address: "10.0.0.0",
+      prefix: 24,
+      maskNotation: "wildcard",
+    });
+  });
+
+  it("0.0.0.0 и 255.255.255.255 читаются в записи соседних масок", () => {
+    const [, host] = parseIpExpression("10.0.0.0 0.0.0.255, 10.0.0.1 0.0.0.0")!;
+    expect(host).toMatchObject({ prefix: 32, maskNotation: "wildcard" });
+
+    const [, any] = parseIpExpression(
+      "10.0.0.0 0.0.0.255, 0.0.0.0 255.255.255.255",
+    )!;
+    expect(any).toMatchObject({ prefix: 0, maskNotation: "wildcard" });
+
+    const [, all] = parseIpExpression(
+      "192.168.1.0 255.255.255.0, 0.0.0.0 0.0.0.0",
+    )!;
+    expect(all).toMatchObject({ prefix: 0, maskNotation: "netmask" });
+  });
+
+  it("без соседних масок 0.0.0.0 не разбирается", () => {
+    expect(parseIpExpression("10.0.0.1 0.0.0.0")).toBeNull();
+  });
+
+  it("обычный CIDR без maskNotation", () => {
+    const [item] = parseIpExpression("10.0.0.0/8")!;
+    expect(item).not.toHaveProperty("maskNotation");
+  });
+});
+
+describe("parseIpExpression — сокращённые диапазоны", () => {
+  const short = { allowShortRanges: true };
+
+  it("разворачивает шаблон в обычные диапазоны", () => {
+    const items = parseIpExpression("192.168.1.10-50, 10.0.1-2.7", short)!;
+    expect(
+      items.map((i) =>
+        i.kind === "range"
+          ? [i.index, i.source, i.first.address, i.last.address]
+          : null,
+      ),
+    ).toEqual([
+      [0, "192.168.1.10-50", "192.168.1.10", "192.168.1.50"],
+      [1, "10.0.1-2.7", "10.0.1.7", "10.0.1.7"],
+      [1, "10.0.1-2.7", "10.0.2.7", "10.0.2.7"],
+    ]);
+  });
+
+  it("без allowShortRanges шаблон не разбирается", () => {
+    expect(parseIpExpression("192.168.1.10-50")).toBeNull();
+  });
+});
+
+describe("parseIpItems", () => {
+  it("разбирает только корректные элементы", () => {
+    const items = parseIpItems("10.0.0.1, 10.0, ::1");
+    expect(items.map((i) => [i.index, i.source])).toEqual([
+      [0, "10.0.0.1"],
+      [2, "::1"],
+    ]);
+  });
+
+  it("маску 0.0.0.0 читает в записи остальных масок значения", () => {
+    const items = parseIpItems("10.0.0.0 0.0.0.255, 10.0.1.1 0.0.0.0, 10.0");
+    expect(items.map((i) => [i.index, i.kind === "cidr" && i.prefix])).toEqual([
+      [0, 24],
+      [1, 32],
+    ]);
+  });
+});
+
+describe("getItemBounds", () => {
+  it("подсеть — от адреса сети до широковещательного", () => {
+    expect(getItemBounds(parseIpItems("10.0.0.7/30")[0])).toEqual([
+      BigInt(ipv4ToNumber("10.0.0.4")),
+      BigInt(ipv4ToNumber("10.0.0.7")),
+    ]);
+  });
+
+  it("диапазон и одиночный адрес", () => {
+    expect(getItemBounds(parseIpItems("::1-::5")[0])).toEqual([1n, 5n]);
+    expect(getItemBounds(parseIpItems("::2")[0])).toEqual([2n, 2n]);
+  });
+});
+
+// =====================================================================
+//  Вспомогательные функции
+// =====================================================================
+
+describe("numberToIpv4", () => {
+  it.each(["0.0.0.0", "10.0.0.1", "192.168.1.1", "255.255.255.255"])(
+    "обратна ipv4ToNumber: %s",
+    (v) => expect(numberToIpv4(ipv4ToNumber(v))).toBe(v),
+  );
+});
+
+describe("bigIntToIpv6", () => {
+  it.each([
+    ["::", "::"],
+    ["::1", "::1"],
+    ["2001:db8::1", "2001:db8::1"],
+    ["2001:0DB8:0000:0000:0001:0000:0000:0001", "2001:db8::1:0:0:1"],
+    ["2001:db8:0:1:1:1:1:1", "2001:db8:0:1:1:1:1:1"],
+    ["fe80::", "fe80::"],
+  ])("%s → %s", (input, expected) => {
+    expect(bigIntToIpv6(ipv6ToBigInt(input))).toBe(expected);
+  });
+});
+
+describe("formatIpv6 (RFC 5952)", () => {
+  it.each([
+    ["2001:0DB8:0:0::1", "2001:db8::1"],
+    ["2001:db8:0:0:1:0:0:1", "2001:db8::1:0:0:1"],
+    ["2001:db8:0:1:0:0:0:1", "2001:db8:0:1::1"],
+    ["2001:db8::0:1", "2001:db8::1"],
+    ["0:0:0:0:0:0:0:0", "::"],
+    ["FF02:0000:0000:0000:0000:0000:0000:0001", "ff02::1"],
+    ["::FFFF:C0A8:0101", "::ffff:192.168.1.1"],
+    ["0:0:0:0:0:ffff:1.2.3.4", "::ffff:1.2.3.4"],
+    ["::ffff:0:10.0.0.1", "::ffff:0:10.0.0.1"],
+    ["64:FF9B::A00:1", "64:ff9b::10.0.0.1"],
+    ["::1.2.3.4", "::102:304"],
+  ])("%s → %s", (input, expected) => {
+    expect(formatIpv6(input)).toBe(expected);
+  });
+});
+
+describe("getEmbeddedIpv4", () => {
+  it.each([
+    ["::ffff:192.168.1.1", "mapped", "192.168.1.1"],
+    ["::ffff:c0a8:101", "mapped", "192.168.1.1"],
+    ["::ffff:0:10.0.0.1", "translated", "10.0.0.1"],
+    ["64:ff9b::10.0.0.1", "nat64", "10.0.0.1"],
+    ["2002:c000:201::1", "6to4", "192.0.2.1"],
+  ])("%s → %s %s", (address, kind, ipv4) => {
+    expect(getEmbeddedIpv4(address)).toMatchObject({
+      kind,
+      ipv4: { version: 4, address: ipv4 },
+    });
+  });
+
+  it("возвращает null для обычного IPv6", () => {
+    expect(getEmbeddedIpv4("2001:db8::1")).toBeNull();
+    expect(getEmbeddedIpv4("::1")).toBeNull();
+  });
+});
+
+describe("canonicalizeIpv6", () => {
+  it("переписывает IPv6 в адресах, CIDR и диапазонах", () => {
+    expect(
+      canonicalizeIpv6(
+        "2001:0DB8:0:0::1, 2001:DB8:0::/48, ::0001-::00FF, 10.0.0.1",
+      ),
+    ).toBe("2001:db8::1, 2001:db8::/48, ::1-::ff, 10.0.0.1");
+  });
+
+  it("не трогает недописанные адреса и разделители", () => {
+    expect(canonicalizeIpv6(" 2001:0DB8::1 ,2001:0DB8:")).toBe(
+      " 2001:db8::1 ,2001:0DB8:",
+    );
+  });
+});
+
+describe("formatIpValue", () => {
+  it("выбирает запись по версии", () => {
+    expect(formatIpValue(4, 0x0a000001n)).toBe("10.0.0.1");
+    expect(formatIpValue(6, 1n)).toBe("::1");
+  });
+});
+
+describe("splitList", () => {
+  it("возвращает пустой элемент для завершающей запятой", () => {
+    expect(splitList("a, ")).toEqual([
+      { index: 0, text: "a", start: 0, end: 1 },
+      { index: 1, text: "", start: 3, end: 3 },
+    ]);
+  });
+});
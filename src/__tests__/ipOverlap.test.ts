@@ -0,0 +1,92 @@
+import { parseIpExpression } from "../utils/ipExpression";
+import { findIpOverlaps, getIpOverlapDiagnostics } from "../utils/ipOverlap";
+
+function overlaps(value: string) {
+  const items = parseIpExpression(value, { allowZones: true })!;
+  return findIpOverlaps(items).map((o) => [
+    o.kind,
+    o.item.source,
+    o.other.source,
+  ]);
+}
+
+// =====================================================================
+//  findIpOverlaps
+// =====================================================================
+
+describe("findIpOverlaps", () => {
+  it("находит повтор одиночного адреса", () => {
+    expect(overlaps("192.168.1.1, 10.0.0.1, 192.168.1.1")).toEqual([
+      ["duplicate", "192.168.1.1", "192.168.1.1"],
+    ]);
+  });
+
+  it("считает повтором одинаковые адреса в разной записи", () => {
+    expect(overlaps("10.0.0.0/30, 10.0.0.0-10.0.0.3")).toEqual([
+      ["duplicate", "10.0.0.0-10.0.0.3", "10.0.0.0/30"],
+    ]);
+  });
+
+  it("находит вхождение диапазона в подсеть", () => {
+    expect(overlaps("10.0.0.0/24, 10.0.0.50-10.0.0.60")).toEqual([
+      ["contained", "10.0.0.50-10.0.0.60", "10.0.0.0/24"],
+    ]);
+  });
+
+  it("отмечает более узкий элемент, даже если он стоит раньше", () => {
+    expect(overlaps("2001:db8::5, 2001:db8::/64")).toEqual([
+      ["contained", "2001:db8::5", "2001:db8::/64"],
+    ]);
+  });
+
+  it("находит частичное пересечение", () => {
+    expect(overlaps("10.0.0.1-10.0.0.10, 10.0.0.5-10.0.0.20")).toEqual([
+      ["partial", "10.0.0.5-10.0.0.20", "10.0.0.1-10.0.0.10"],
+    ]);
+  });
+
+  it("учитывает зону IPv6", () => {
+    expect(overlaps("fe80::1%eth0, fe80::1%eth1, fe80::/64")).toEqual([]);
+    expect(overlaps("fe80::1%eth0, FE80::1%eth0")).toEqual([
+      ["duplicate", "FE80::1%eth0", "fe80::1%eth0"],
+    ]);
+  });
+
+  it("не сравнивает IPv4 с IPv6 и смежные элементы", () => {
+    expect(overlaps("0.0.0.1, ::1, 10.0.0.0/25, 10.0.0.128/25")).toEqual([]);
+  });
+});
+
+// =====================================================================
+//  getIpOverlapDiagnostics
+// =====================================================================
+
+describe("getIpOverlapDiagnostics", () => {
+  it("указывает на избыточный элемент", () => {
+    const value = "10.0.0.0/24, 10.0.0.7";
+    const [d] = getIpOverlapDiagnostics(value);
+    expect(d).toMatchObject({
+      code: "IP_CONTAINED",
+      itemIndex: 1,
+      message: {
+        key: "ip.overlap.contained",
+        params: { item: "10.0.0.7", other: "10.0.0.0/24" },
+      },
+    });
+    expect(value.slice(d.start, d.end)).toBe("10.0.0.7");
+  });
+
+  it("пропускает недописанные элементы", () => {
+    expect(getIpOverlapDiagnostics("10.0.0.1, 10.0.0")).toEqual([]);
+  });
+
+  it("одно замечание на сокращённый диапазон из нескольких частей", () => {
+    const value = "10.0.0.0/16, 10.0.*.1";
+    const diagnostics = getIpOverlapDiagnostics(value, {
+      allowShortRanges: true,
+    });
+    expect(diagnostics.map((d) => [d.code, d.itemIndex])).toEqual([
+      ["IP_CONTAINED", 1],
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { parseIpExpression } from "../utils/ipExpression";
+import {
+  expandIpSet,
+  getIpSetSize,
+  iterateIpSet,
+  toIntervals,
+} from "../utils/ipSet";
+
+function items(value: string) {
+  return parseIpExpression(value)!;
+}
+
+// =====================================================================
+//  Размер множества
+// =====================================================================
+
+describe("getIpSetSize", () => {
+  it("считает адреса CIDR, диапазонов и одиночных адресов", () => {
+    expect(
+      getIpSetSize(items("10.0.0.0/22, 10.0.8.5-10.0.8.40, 2001:db8::/120")),
+    ).toEqual({ v4: 1024n + 36n, v6: 256n, total: 1316n });
+  });
+
+  it("не удваивает пересечения и повторы", () => {
+    expect(
+      getIpSetSize(items("10.0.0.0/24, 10.0.0.10-10.0.1.9, 10.0.0.1")).total,
+    ).toBe(266n);
+  });
+
+  it("точен для огромных IPv6-подсетей", () => {
+    expect(getIpSetSize(items("::/0")).v6).toBe(1n << 128n);
+  });
+
+  it("один адрес в разных зонах — разные адреса", () => {
+    const zoned = parseIpExpression("fe80::1%eth0, fe80::1%eth1, fe80::1", {
+      allowZones: true,
+    })!;
+    expect(getIpSetSize(zoned).v6).toBe(3n);
+  });
+
+  it("пустое выражение — ноль адресов", () => {
+    expect(getIpSetSize([]).total).toBe(0n);
+  });
+});
+
+describe("toIntervals", () => {
+  it("сливает смежные интервалы и сортирует по версии", () => {
+    expect(toIntervals(items("::1, 10.0.0.2-10.0.0.3, 10.0.0.1"))).toEqual([
+      { version: 4, first: 0x0a000001n, last: 0x0a000003n },
+      { version: 6, first: 1n, last: 1n },
+    ]);
+  });
+});
+
+// =====================================================================
+//  Перебор и развёртка
+// =====================================================================
+
+describe("iterateIpSet", () => {
+  it("лениво перебирает адреса по возрастанию", () => {
+    const it = iterateIpSet(items("10.0.0.254/31, 2001:db8::ffff"));
+    expect([...it].map((a) => a.address)).toEqual([
+      "10.0.0.254",
+      "10.0.0.255",
+      "2001:db8::ffff",
+    ]);
+  });
+
+  it("не разворачивает огромную подсеть целиком", () => {
+    const it = iterateIpSet(items("2001:db8::/32"));
+    expect(it.next().value).toMatchObject({ address: "2001:db8::" });
+    expect(it.next().value).toMatchObject({ address: "2001:db8::1" });
+  });
+});
+
+describe("expandIpSet", () => {
+  it("разворачивает множество в пределах лимита", () => {
+    expect(expandIpSet(items("10.0.0.1-10.0.0.3"))).toEqual([
+      { version: 4, address: "10.0.0.1", value: 0x0a000001 },
+      { version: 4, address: "10.0.0.2", value: 0x0a000002 },
+      { version: 4, address: "10.0.0.3", value: 0x0a000003 },
+    ]);
+  });
+
+  it("отказывается разворачивать больше лимита", () => {
+    expect(expandIpSet(items("10.0.0.0/24"), { limit: 100 })).toBeNull();
+  });
+
+  it("обрезает по лимиту в режиме cap", () => {
+    const result = expandIpSet(items("10.0.0.0/8"), {
+      limit: 2,
+      overflow: "cap",
+    });
+    expect(result?.map((a) => a.address)).toEqual(["10.0.0.0", "10.0.0.1"]);
+  });
+});
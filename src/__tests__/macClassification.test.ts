@@ -0,0 +1,93 @@
+import { classifyMac, getMacWarnings } from "../utils/macClassification";
+import { MAC_NOTATIONS } from "../utils/validators";
+
+// =====================================================================
+//  classifyMac
+// =====================================================================
+
+describe("classifyMac", () => {
+  it("глобальный индивидуальный адрес", () => {
+    expect(classifyMac("00-1A-2B-3C-4D-5E")).toMatchObject({
+      multicast: false,
+      broadcast: false,
+      zero: false,
+      locallyAdministered: false,
+    });
+  });
+
+  it("читает бит I/G", () => {
+    expect(classifyMac("01-00-5E-00-00-01")).toMatchObject({
+      multicast: true,
+      locallyAdministered: false,
+    });
+  });
+
+  it("читает бит U/L", () => {
+    expect(classifyMac("02-00-00-00-00-01")).toMatchObject({
+      multicast: false,
+      locallyAdministered: true,
+    });
+  });
+
+  it("распознаёт broadcast и нулевой адрес", () => {
+    expect(classifyMac("FF-FF-FF-FF-FF-FF")).toMatchObject({
+      broadcast: true,
+      multicast: true,
+    });
+    expect(classifyMac("00-00-00-00-00-00")).toMatchObject({ zero: true });
+  });
+
+  it("работает с любой разрешённой нотацией", () => {
+    const info = classifyMac("3333.0000.0001", { notations: MAC_NOTATIONS });
+    expect(info?.multicast).toBe(true);
+  });
+
+  it("для InfiniBand смотрит на GID", () => {
+    const ib = { notations: ["colon"] as const, length: 20 as const };
+    const unicast =
+      "80:00:00:48:fe:80:00:00:00:00:00:00:00:02:c9:03:00:01:23:45";
+    const multicast =
+      "00:ff:ff:ff:ff:12:40:1b:ff:ff:00:00:00:00:00:00:ff:ff:ff:ff";
+    expect(classifyMac(unicast, ib)?.multicast).toBe(false);
+    expect(classifyMac(multicast, ib)?.multicast).toBe(true);
+  });
+
+  it("возвращает null для невалидного токена", () => {
+    expect(classifyMac("AA-BB")).toBeNull();
+  });
+});
+
+// =====================================================================
+//  getMacWarnings
+// =====================================================================
+
+describe("getMacWarnings", () => {
+  it("нет предупреждений для обычного адреса и незавершённого ввода", () => {
+    expect(getMacWarnings("00-1A-2B-3C-4D-5E, 01-00")).toEqual([]);
+  });
+
+  it("по одному предупреждению на broadcast и нулевой адрес", () => {
+    const value = "FF-FF-FF-FF-FF-FF, 00-00-00-00-00-00";
+    expect(getMacWarnings(value).map((w) => [w.code, w.itemIndex])).toEqual([
+      ["MAC_BROADCAST", 0],
+      ["MAC_ZERO", 1],
+    ]);
+  });
+
+  it("групповой локальный адрес даёт два предупреждения", () => {
+    const codes = getMacWarnings("03-00-00-00-00-01").map((w) => w.code);
+    expect(codes).toEqual(["MAC_MULTICAST", "MAC_LOCAL"]);
+  });
+
+  it("передаёт адрес в параметры сообщения", () => {
+    const [w] = getMacWarnings(" 01-00-5e-00-00-01");
+    expect(w).toMatchObject({
+      message: {
+        key: "mac.warn.multicast",
+        params: { address: "01-00-5E-00-00-01" },
+      },
+      start: 1,
+      end: 18,
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  formatMacInput,
+  getMacMaskSeparator,
+  maskMacEdit,
+  type MaskedValue,
+} from "../utils/macMask";
+
+/** Значение с кареткой, отмеченной «|» */
+function at(marked: string): MaskedValue {
+  return { value: marked.replace("|", ""), caret: marked.indexOf("|") };
+}
+
+function show({ value, caret }: MaskedValue): string {
+  return value.slice(0, caret) + "|" + value.slice(caret);
+}
+
+/** Правка: было → стало (до маски) */
+function edit(
+  before: string,
+  after: string,
+  ...rest: Parameters<typeof maskMacEdit> extends [unknown, unknown, ...infer R]
+    ? R
+    : never
+): string {
+  return show(maskMacEdit(at(before).value, at(after), ...rest));
+}
+
+describe("formatMacInput", () => {
+  it("расставляет дефисы и переводит буквы в верхний регистр", () => {
+    expect(formatMacInput("aabbcc").value).toBe("AA-BB-CC");
+    expect(formatMacInput("aabbccddeeff").value).toBe("AA-BB-CC-DD-EE-FF");
+  });
+
+  it("переписывает любую нотацию", () => {
+    expect(formatMacInput("aa:bb:cc:dd:ee:ff").value).toBe("AA-BB-CC-DD-EE-FF");
+    expect(formatMacInput("aabb.ccdd.eeff").value).toBe("AA-BB-CC-DD-EE-FF");
+  });
+
+  it("разделяет адреса запятой, пробелом и переводом строки", () => {
+    expect(
+      formatMacInput("aa:bb:cc:dd:ee:ff\n0011.2233.4455;,  66-77-88-99-aa-bb")
+        .value,
+    ).toBe("AA-BB-CC-DD-EE-FF, 00-11-22-33-44-55, 66-77-88-99-AA-BB");
+  });
+
+  it("отбрасывает лишние цифры и посторонние символы", () => {
+    expect(formatMacInput("aabbccddeeff00").value).toBe("AA-BB-CC-DD-EE-FF");
+    expect(formatMacInput("zz-aa-gg-bb").value).toBe("AA-BB");
+  });
+
+  it("учитывает длину адреса и разделитель", () => {
+    expect(
+      formatMacInput("0011223344556677", undefined, { length: 8 }).value,
+    ).toBe("00-11-22-33-44-55-66-77");
+    expect(formatMacInput("aabbcc", undefined, { separator: ":" }).value).toBe(
+      "AA:BB:CC",
+    );
+  });
+
+  it("в одиночном поле запятая не начинает адрес", () => {
+    expect(
+      formatMacInput("aabbcc, ddeeff", undefined, { multiple: false }).value,
+    ).toBe("AA-BB-CC-DD-EE-FF");
+  });
+});
+
+describe("maskMacEdit — ввод", () => {
+  it("дефис появляется перед третьей цифрой", () => {
+    expect(edit("AA|", "AAb|")).toBe("AA-B|");
+    expect(edit("A|", "Ab|")).toBe("AB|");
+  });
+
+  it("ввод в середине сохраняет место каретки", () => {
+    expect(edit("AA-|CC-DD", "AA-b|CC-DD")).toBe("AA-B|C-CD-D");
+  });
+
+  it("недопустимый символ не сдвигает каретку", () => {
+    expect(edit("AA-B|B", "AA-Bz|B")).toBe("AA-B|B");
+  });
+
+  it("запятая начинает новый адрес", () => {
+    expect(edit("AA-BB-CC-DD-EE-FF|", "AA-BB-CC-DD-EE-FF,|")).toBe(
+      "AA-BB-CC-DD-EE-FF, |",
+    );
+    expect(edit("AA-BB-CC-DD-EE-FF, |", "AA-BB-CC-DD-EE-FF, 1|")).toBe(
+      "AA-BB-CC-DD-EE-FF, 1|",
+    );
+  });
+
+  it("вставка переписывается, каретка — после вставленного", () => {
+    expect(edit("|", "aabb.ccdd.eeff|")).toBe("AA-BB-CC-DD-EE-FF|");
+    expect(
+      edit("AA-BB-CC-DD-EE-FF, |", "AA-BB-CC-DD-EE-FF, 00:11:22|, 33"),
+    ).toBe("AA-BB-CC-DD-EE-FF, 00-11-22|, 33");
+  });
+});
+
+describe("maskMacEdit — удаление", () => {
+  it("Backspace за цифрой убирает её и ненужный дефис", () => {
+    expect(edit("AA-B|", "AA-|")).toBe("AA|");
+  });
+
+  it("Backspace за дефисом стирает и цифру перед ним", () => {
+    expect(edit("AA-|BB", "AA|BB")).toBe("A|B-B");
+    expect(edit("AA-BB-|CC", "AA-BB|CC")).toBe("AA-B|C-C");
+  });
+
+  it("Delete перед дефисом стирает цифру после него", () => {
+    expect(edit("AA|-BB", "AA|BB", {}, "forward")).toBe("AA|-B");
+  });
+
+  it("Backspace за «, » соединяет адреса", () => {
+    expect(edit("AA-BB, |CC", "AA-BB,|CC")).toBe("AA-BB|-CC");
+    expect(edit("AA-BB-CC-DD-EE-FF, |", "AA-BB-CC-DD-EE-FF,|")).toBe(
+      "AA-BB-CC-DD-EE-FF|",
+    );
+  });
+
+  it("Backspace в начале поля ничего не ломает", () => {
+    expect(edit("|AA", "|AA")).toBe("|AA");
+  });
+});
+
+describe("getMacMaskSeparator", () => {
+  it("дефис, иначе двоеточие, иначе маски нет", () => {
+    expect(getMacMaskSeparator(["colon", "hyphen"])).toBe("-");
+    expect(getMacMaskSeparator(["cisco", "colon"])).toBe(":");
+    expect(getMacMaskSeparator(["cisco", "bare"])).toBeNull();
+  });
+});
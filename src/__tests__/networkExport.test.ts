@@ -0,0 +1,204 @@
+import {
+  buildExportData,
+  exportNetworkData,
+  getExportFileName,
+  getExportMimeType,
+} from "../utils/networkExport";
+
+const data = buildExportData(
+  "10.0.0.1, 10.0.0.0/24, 10.0.1.1-10.0.1.9, 2001:db8::1, 2001:db8::/48",
+  "AA-BB-CC-DD-EE-FF, 0011.2233.4455",
+);
+
+describe("buildExportData", () => {
+  it("элементы IP с видом, версией и границами", () => {
+    expect(
+      data.ips.map(({ value, kind, version, first, last }) => ({
+        value,
+        kind,
+        version,
+        first,
+        last,
+      })),
+    ).toEqual([
+      {
+        value: "10.0.0.1",
+        kind: "single",
+        version: 4,
+        first: "10.0.0.1",
+        last: "10.0.0.1",
+      },
+      {
+        value: "10.0.0.0/24",
+        kind: "cidr",
+        version: 4,
+        first: "10.0.0.0",
+        last: "10.0.0.255",
+      },
+      {
+        value: "10.0.1.1-10.0.1.9",
+        kind: "range",
+        version: 4,
+        first: "10.0.1.1",
+        last: "10.0.1.9",
+      },
+      {
+        value: "2001:db8::1",
+        kind: "single",
+        version: 6,
+        first: "2001:db8::1",
+        last: "2001:db8::1",
+      },
+      {
+        value: "2001:db8::/48",
+        kind: "cidr",
+        version: 6,
+        first: "2001:db8::",
+        last: "2001:db8:0:ffff:ffff:ffff:ffff:ffff",
+      },
+    ]);
+  });
+
+  it("MAC в отправленной записи и в октетах", () => {
+    expect(data.macs).toEqual([
+      {
+        value: "AA-BB-CC-DD-EE-FF",
+        octets: [0xaa, 0xbb, 0xcc, 0xdd, 0xee, 0xff],
+      },
+      { value: "0011.2233.4455", octets: [0x00, 0x11, 0x22, 0x33, 0x44, 0x55] },
+    ]);
+  });
+
+  it("сокращённые диапазоны разворачиваются", () => {
+    const { ips } = buildExportData("10.0.0.10-20", "", {
+      ipOptions: { allowShortRanges: true },
+    });
+    expect(ips.map((e) => e.value)).toEqual(["10.0.0.10-10.0.0.20"]);
+  });
+
+  it("подсеть с битами хоста записывается адресом сети", () => {
+    const { ips } = buildExportData("10.0.0.77/24", "");
+    expect(ips[0].value).toBe("10.0.0.0/24");
+  });
+});
+
+describe("exportNetworkData — форматы данных", () => {
+  it("JSON", () => {
+    const parsed = JSON.parse(exportNetworkData(data, "json").content);
+    expect(parsed.ip[1]).toEqual({
+      value: "10.0.0.0/24",
+      version: 4,
+      kind: "cidr",
+      first: "10.0.0.0",
+      last: "10.0.0.255",
+    });
+    expect(parsed.mac).toEqual(["AA-BB-CC-DD-EE-FF", "0011.2233.4455"]);
+  });
+
+  it("CSV", () => {
+    const lines = exportNetworkData(data, "csv").content.trim().split("\n");
+    expect(lines[0]).toBe("type,value,version,kind,first,last");
+    expect(lines[2]).toBe("ip,10.0.0.0/24,4,cidr,10.0.0.0,10.0.0.255");
+    expect(lines.at(-1)).toBe("mac,0011.2233.4455,,,,");
+  });
+
+  it("YAML: строки в кавычках, пустые списки", () => {
+    const { content } = exportNetworkData(data, "yaml");
+    expect(content).toContain('  - value: "2001:db8::1"\n    version: 6\n');
+    expect(content).toContain('mac:\n  - "AA-BB-CC-DD-EE-FF"\n');
+    expect(exportNetworkData(buildExportData("", ""), "yaml").content).toBe(
+      "ip: []\nmac: []\n",
+    );
+  });
+});
+
+describe("exportNetworkData — межсетевые экраны", () => {
+  it("ipset и iptables: диапазоны раскладываются на CIDR", () => {
+    const { content } = exportNetworkData(data, "iptables", { name: "lab" });
+    const lines = content.trim().split("\n");
+    expect(lines).toContain("ipset create lab_v4 hash:net family inet -exist");
+    expect(lines).toContain("ipset add lab_v4 10.0.1.2/31 -exist");
+    expect(lines).toContain("ipset add lab_v6 2001:db8::/48 -exist");
+    expect(lines).toContain("ipset add lab_mac aa:bb:cc:dd:ee:ff -exist");
+    expect(lines.slice(-3)).toEqual([
+      "iptables -A INPUT -m set --match-set lab_v4 src -j ACCEPT",
+      "ip6tables -A INPUT -m set --match-set lab_v6 src -j ACCEPT",
+      "iptables -A INPUT -m set --match-set lab_mac src -j ACCEPT",
+    ]);
+  });
+
+  it("nftables: пересечения сливаются в наборах с интервалами", () => {
+    const { content } = exportNetworkData(data, "nftables");
+    expect(content).toContain(
+      "\tset allowed_v4 {\n\t\ttype ipv4_addr\n\t\tflags interval\n" +
+        "\t\telements = { 10.0.0.0/24, 10.0.1.1-10.0.1.9 }\n\t}",
+    );
+    expect(content).toContain("elements = { 2001:db8::/48 }");
+    expect(content).toContain(
+      "\t\ttype ether_addr\n\t\telements = { aa:bb:cc:dd:ee:ff, 00:11:22:33:44:55 }",
+    );
+  });
+
+  it("Cisco ACL: обратные маски, host и MAC в точечной нотации", () => {
+    const { content } = exportNetworkData(data, "cisco", { name: "lab" });
+    expect(content).toContain("ip access-list extended LAB_V4\n");
+    expect(content).toContain(" permit ip host 10.0.0.1 any\n");
+    expect(content).toContain(" permit ip 10.0.0.0 0.0.0.255 any\n");
+    expect(content).toContain(" permit ipv6 2001:db8::/48 any\n");
+    expect(content).toContain(" permit host aabb.ccdd.eeff any\n");
+  });
+
+  it("MAC не EUI-48 не попадают в наборы", () => {
+    const eui64 = buildExportData("", "00-11-22-33-44-55-66-77", {
+      macLength: 8,
+    });
+    const result = exportNetworkData(eui64, "iptables");
+    expect(result.content).toBe("");
+    expect(result.skipped).toEqual(["00-11-22-33-44-55-66-77"]);
+  });
+});
+
+describe("exportNetworkData — DHCP", () => {
+  it("dnsmasq: пары MAC — адрес, IPv6 в скобках", () => {
+    const result = exportNetworkData(data, "dnsmasq");
+    expect(result.content).toBe(
+      "dhcp-host=aa:bb:cc:dd:ee:ff,10.0.0.1\n" +
+        "dhcp-host=00:11:22:33:44:55,[2001:db8::1]\n",
+    );
+    expect(result.skipped).toEqual([
+      "10.0.0.0/24",
+      "10.0.1.1-10.0.1.9",
+      "2001:db8::/48",
+    ]);
+  });
+
+  it("ISC DHCP: только IPv4, MAC без пары — без fixed-address", () => {
+    const result = exportNetworkData(
+      buildExportData("10.0.0.5", "AA-BB-CC-DD-EE-FF, 00-11-22-33-44-55"),
+      "isc-dhcp",
+      { name: "lab" },
+    );
+    expect(result.content).toBe(
+      "host lab-1 {\n  hardware ethernet aa:bb:cc:dd:ee:ff;\n  fixed-address 10.0.0.5;\n}\n\n" +
+        "host lab-2 {\n  hardware ethernet 00:11:22:33:44:55;\n}\n",
+    );
+    expect(result.skipped).toEqual([]);
+  });
+
+  it("адреса без пары — в skipped", () => {
+    const result = exportNetworkData(
+      buildExportData("10.0.0.1, 10.0.0.2", "AA-BB-CC-DD-EE-FF"),
+      "dnsmasq",
+    );
+    expect(result.skipped).toEqual(["10.0.0.2"]);
+  });
+});
+
+describe("имя файла и тип", () => {
+  it("по формату и имени набора", () => {
+    expect(getExportFileName("nftables", "lab")).toBe("lab.nft");
+    expect(getExportFileName("dnsmasq")).toBe("allowed-dnsmasq.conf");
+    expect(getExportFileName("json", "my set!")).toBe("my_set_.json");
+    expect(getExportMimeType("csv")).toBe("text/csv");
+  });
+});
@@ -0,0 +1,200 @@
+import { createMockServer, type MockHandler } from "../test/mockServer";
+import {
+  createFetchTransport,
+  getRetryDelay,
+  SUBMIT_ABORTED,
+  withRetry,
+  type SubmitResult,
+} from "../utils/submission";
+
+const VALUES = { ip: "10.0.0.1", mac: "AA-BB-CC-DD-EE-FF" };
+
+function send(handler?: MockHandler, signal = new AbortController().signal) {
+  const server = createMockServer(handler);
+  const transport = createFetchTransport({
+    url: "/api/net",
+    fetch: server.fetch,
+  });
+  return { server, result: transport(VALUES, signal) };
+}
+
+describe("createFetchTransport", () => {
+  it("отправляет значения JSON-объектом", async () => {
+    const { server, result } = send(() => ({ body: { id: 7 } }));
+    expect(await result).toEqual({ ok: true, data: { id: 7 } });
+    expect(server.requests).toEqual([
+      { method: "POST", url: "/api/net", body: VALUES },
+    ]);
+  });
+
+  it("пустой ответ — успех без данных", async () => {
+    const { result } = send(() => ({ status: 204 }));
+    expect(await result).toEqual({ ok: true, data: null });
+  });
+
+  it("422: ошибки полей текстом и кодом из каталога", async () => {
+    const { result } = send(() => ({
+      status: 422,
+      body: {
+        errors: {
+          ip: "Адрес уже занят",
+          mac: [{ code: "mac.invalid" }, "второе сообщение"],
+          vlan: { code: "unknown.code", message: "Нет такого VLAN" },
+        },
+      },
+    }));
+    expect(await result).toEqual({
+      ok: false,
+      error: { key: "submit.rejected" },
+      fieldErrors: {
+        ip: { key: "submit.server", params: { message: "Адрес уже занят" } },
+        mac: { key: "mac.invalid", params: undefined },
+        vlan: { key: "submit.server", params: { message: "Нет такого VLAN" } },
+      },
+      retryable: false,
+    });
+  });
+
+  it("общее сообщение сервера и параметры кода", async () => {
+    const { result } = send(() => ({
+      status: 400,
+      body: {
+        code: "ip.versionNotAllowed",
+        params: { item: "fe80::1", version: 6, nested: { x: 1 } },
+      },
+    }));
+    const outcome = await result;
+    expect(!outcome.ok && outcome.error).toEqual({
+      key: "ip.versionNotAllowed",
+      params: { item: "fe80::1", version: 6 },
+    });
+  });
+
+  it("5xx и 429 можно повторить; Retry-After — в миллисекундах", async () => {
+    const { result } = send(() => ({
+      status: 503,
+      headers: { "Retry-After": "2" },
+    }));
+    expect(await result).toEqual({
+      ok: false,
+      error: { key: "submit.httpError", params: { status: 503 } },
+      fieldErrors: {},
+      retryable: true,
+      retryAfter: 2000,
+    });
+    const tooMany = await send(() => ({ status: 429 })).result;
+    expect(!tooMany.ok && tooMany.retryable).toBe(true);
+    const forbidden = await send(() => ({ status: 403 })).result;
+    expect(!forbidden.ok && forbidden.retryable).toBe(false);
+  });
+
+  it("сбой сети можно повторить", async () => {
+    const { result } = send(() => {
+      throw new Error("offline");
+    });
+    expect(await result).toEqual({
+      ok: false,
+      error: { key: "submit.networkError" },
+      fieldErrors: {},
+      retryable: true,
+    });
+  });
+
+  it("отменённая отправка", async () => {
+    const controller = new AbortController();
+    const { result } = send(async () => {
+      controller.abort();
+      return {};
+    }, controller.signal);
+    expect(await result).toBe(SUBMIT_ABORTED);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("удваивает паузу до потолка", () => {
+    expect([1, 2, 3, 4, 5, 6].map((n) => getRetryDelay(n))).toEqual([
+      500, 1000, 2000, 4000, 8000, 8000,
+    ]);
+    expect(getRetryDelay(3, { baseDelay: 100, maxDelay: 300 })).toBe(300);
+  });
+
+  it("Retry-After важнее, но не длиннее потолка", () => {
+    expect(getRetryDelay(1, {}, 3000)).toBe(3000);
+    expect(getRetryDelay(1, {}, 60_000)).toBe(8000);
+  });
+});
+
+describe("withRetry", () => {
+  const FAIL: SubmitResult = {
+    ok: false,
+    error: { key: "submit.networkError" },
+    fieldErrors: {},
+    retryable: true,
+  };
+  const OK: SubmitResult = { ok: true, data: null };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("повторяет с нарастающей паузой до успеха", async () => {
+    const transport = vi
+      .fn()
+      .mockResolvedValueOnce(FAIL)
+      .mockResolvedValueOnce(FAIL)
+      .mockResolvedValueOnce(OK);
+    const result = withRetry(transport)(VALUES, new AbortController().signal);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(transport).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(transport).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(transport).toHaveBeenCalledTimes(3);
+    expect(await result).toBe(OK);
+  });
+
+  it("сдаётся после заданного числа повторов", async () => {
+    const transport = vi.fn().mockResolvedValue(FAIL);
+    const result = withRetry(transport, { retries: 1, baseDelay: 10 })(
+      VALUES,
+      new AbortController().signal,
+    );
+    await vi.advanceTimersByTimeAsync(10);
+    expect(await result).toBe(FAIL);
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it("не повторяет отказ по данным", async () => {
+    const rejected = { ...FAIL, retryable: false };
+    const transport = vi.fn().mockResolvedValue(rejected);
+    const result = withRetry(transport)(VALUES, new AbortController().signal);
+    expect(await result).toBe(rejected);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it("отмена прерывает паузу", async () => {
+    const controller = new AbortController();
+    const transport = vi.fn().mockResolvedValue(FAIL);
+    const result = withRetry(transport)(VALUES, controller.signal);
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    expect(await result).toBe(SUBMIT_ABORTED);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it("исключение транспорта — отказ без повтора", async () => {
+    const transport = vi.fn().mockRejectedValue(new Error("bug"));
+    const result = withRetry(transport)(VALUES, new AbortController().signal);
+    expect(await result).toEqual({
+      ok: false,
+      error: { key: "submit.unexpected" },
+      fieldErrors: {},
+      retryable: false,
+    });
+  });
+});
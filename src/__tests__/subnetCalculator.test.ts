@@ -0,0 +1,104 @@
+import { parseIpItems, type IpCidrItem } from "../utils/ipExpression";
+import { calculateSubnet } from "../utils/subnetCalculator";
+
+const subnet = (cidr: string) =>
+  calculateSubnet(parseIpItems(cidr)[0] as IpCidrItem);
+
+// =====================================================================
+//  calculateSubnet — IPv4
+// =====================================================================
+
+describe("calculateSubnet — IPv4", () => {
+  it("считает параметры /24", () => {
+    expect(subnet("192.168.1.77/24")).toEqual({
+      version: 4,
+      prefix: 24,
+      network: "192.168.1.0",
+      broadcast: "192.168.1.255",
+      firstHost: "192.168.1.1",
+      lastHost: "192.168.1.254",
+      netmask: "255.255.255.0",
+      wildcard: "0.0.0.255",
+      addressCount: 256n,
+      hostCount: 254n,
+      maskBinary: "11111111.11111111.11111111.00000000",
+    });
+  });
+
+  it("маска не по границе октета", () => {
+    expect(subnet("10.1.2.3/20")).toMatchObject({
+      network: "10.1.0.0",
+      broadcast: "10.1.15.255",
+      netmask: "255.255.240.0",
+      wildcard: "0.0.15.255",
+      hostCount: 4094n,
+      maskBinary: "11111111.11111111.11110000.00000000",
+    });
+  });
+
+  it("/31 и /32 без широковещательного адреса", () => {
+    expect(subnet("10.0.0.0/31")).toMatchObject({
+      broadcast: null,
+      firstHost: "10.0.0.0",
+      lastHost: "10.0.0.1",
+      hostCount: 2n,
+    });
+    expect(subnet("10.0.0.5/32")).toMatchObject({
+      broadcast: null,
+      firstHost: "10.0.0.5",
+      lastHost: "10.0.0.5",
+      hostCount: 1n,
+    });
+  });
+
+  it("принимает запись с маской", () => {
+    expect(subnet("172.16.0.0 255.240.0.0")).toMatchObject({
+      prefix: 12,
+      broadcast: "172.31.255.255",
+    });
+  });
+});
+
+// =====================================================================
+//  calculateSubnet — IPv6
+// =====================================================================
+
+describe("calculateSubnet — IPv6", () => {
+  it("считает параметры /64", () => {
+    expect(subnet("2001:db8:0:1::5/64")).toEqual({
+      version: 6,
+      prefix: 64,
+      network: "2001:db8:0:1::",
+      broadcast: null,
+      firstHost: "2001:db8:0:1::",
+      lastHost: "2001:db8:0:1:ffff:ffff:ffff:ffff",
+      netmask: "ffff:ffff:ffff:ffff::",
+      wildcard: "::ffff:ffff:ffff:ffff",
+      addressCount: 1n << 64n,
+      hostCount: 1n << 64n,
+      maskBinary: [
+        ...Array(4).fill("1".repeat(16)),
+        ...Array(4).fill("0".repeat(16)),
+      ].join(":"),
+    });
+  });
+
+  it.each([
+    [80, "ffff:ffff:ffff:ffff:ffff::", "::ffff:ffff:ffff"],
+    [96, "ffff:ffff:ffff:ffff:ffff:ffff::", "::ffff:ffff"],
+  ])("маски /%i — без смешанной записи IPv4", (prefix, netmask, wildcard) => {
+    expect(subnet(`2001:db8::/${prefix}`)).toMatchObject({ netmask, wildcard });
+  });
+
+  it("/0 и /128", () => {
+    expect(subnet("::/0")).toMatchObject({
+      netmask: "::",
+      wildcard: "ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff",
+    });
+    expect(subnet("fe80::1/128")).toMatchObject({
+      firstHost: "fe80::1",
+      lastHost: "fe80::1",
+      hostCount: 1n,
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import type { FormEvent } from "react";
+import { act, renderHook } from "@testing-library/react";
+import {
+  useNetworkForm,
+  type NetworkFormOptions,
+} from "../hooks/useNetworkForm";
+import type { FieldErrors, SubmitResult } from "../utils/submission";
+
+const FIELDS = ["ip", "mac"] as const;
+
+const submitEvent = () =>
+  ({ preventDefault: () => {} }) as unknown as FormEvent;
+
+describe("useNetworkForm", () => {
+  it("отправляет валидные значения после prepare", () => {
+    const onSubmit = vi.fn();
+    const { result } = renderHook(() =>
+      useNetworkForm({
+        fields: FIELDS,
+        prepare: (v) => ({ ...v, ip: v.ip.trim() }),
+        onSubmit,
+      }),
+    );
+    act(() => result.current.fields.ip.onChange(" 10.0.0.1 "));
+    act(() => result.current.fields.mac.onChange("AA-BB-CC-DD-EE-FF"));
+    act(() => result.current.handleSubmit(submitEvent()));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      { ip: "10.0.0.1", mac: "AA-BB-CC-DD-EE-FF" },
+      expect.any(AbortSignal),
+    );
+    expect(result.current.fields.ip.value).toBe("10.0.0.1");
+    expect(result.current.fields.ip.submitCount).toBe(1);
+    expect(result.current.submitted).toBe(true);
+  });
+
+  it("не отправляет, если поле сообщило о невалидности", () => {
+    const onSubmit = vi.fn();
+    const { result } = renderHook(() =>
+      useNetworkForm({ fields: FIELDS, onSubmit }),
+    );
+    act(() => result.current.fields.mac.onValidityChange(false));
+    act(() => result.current.handleSubmit(submitEvent()));
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(result.current.valid).toBe(false);
+    expect(result.current.submitted).toBe(false);
+    expect(result.current.fields.mac.submitCount).toBe(1);
+  });
+
+  it("поле без значения — пустая строка", () => {
+    const { result } = renderHook(() =>
+      useNetworkForm({ fields: FIELDS, onSubmit: () => {} }),
+    );
+    expect(result.current.values).toEqual({ ip: "", mac: "" });
+  });
+
+  it("обработчики полей стабильны между рендерами", () => {
+    const { result } = renderHook(() =>
+      useNetworkForm({ fields: FIELDS, onSubmit: () => {} }),
+    );
+    const { onChange, onValidityChange } = result.current.fields.ip;
+    act(() => result.current.fields.ip.onChange("10.0.0.1"));
+    expect(result.current.fields.ip.onChange).toBe(onChange);
+    expect(result.current.fields.ip.onValidityChange).toBe(onValidityChange);
+  });
+
+  it("успех сбрасывается, когда значение становится невалидным", () => {
+    const { result } = renderHook(() =>
+      useNetworkForm({ fields: FIELDS, onSubmit: () => {} }),
+    );
+    act(() => result.current.handleSubmit(submitEvent()));
+    expect(result.current.submitted).toBe(true);
+    act(() => result.current.fields.ip.onValidityChange(false));
+    expect(result.current.submitted).toBe(false);
+  });
+});
+
+describe("useNetworkForm — асинхронная отправка", () => {
+  const rejected = (fieldErrors: FieldErrors): SubmitResult => ({
+    ok: false,
+    error: { key: "submit.rejected" },
+    fieldErrors,
+    retryable: false,
+  });
+  const taken = { key: "submit.server", params: { message: "занят" } } as const;
+
+  function setup(onSubmit: NetworkFormOptions["onSubmit"]) {
+    return renderHook(() => useNetworkForm({ fields: FIELDS, onSubmit }));
+  }
+
+  it("ждёт результата: pending, затем success", async () => {
+    let resolve!: (result: SubmitResult) => void;
+    const { result } = setup(
+      () => new Promise<SubmitResult>((r) => (resolve = r)),
+    );
+    act(() => result.current.handleSubmit(submitEvent()));
+    expect(result.current.status).toBe("pending");
+    expect(result.current.submitted).toBe(false);
+
+    await act(async () => resolve({ ok: true, data: null }));
+    expect(result.current.status).toBe("success");
+    expect(result.current.submitted).toBe(true);
+  });
+
+  it("не начинает вторую отправку, пока не завершилась первая", async () => {
+    const onSubmit = vi.fn(() => new Promise<SubmitResult>(() => {}));
+    const { result } = setup(onSubmit);
+    act(() => result.current.handleSubmit(submitEvent()));
+    act(() => result.current.handleSubmit(submitEvent()));
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it("раскладывает ошибки сервера по полям", async () => {
+    const { result } = setup(async () =>
+      rejected({ mac: taken, vlan: { key: "mac.invalid" } }),
+    );
+    await act(async () => result.current.handleSubmit(submitEvent()));
+
+    expect(result.current.status).toBe("failure");
+    expect(result.current.fields.mac.serverError).toEqual(taken);
+    expect(result.current.fields.ip.serverError).toBeNull();
+    expect(result.current.submitErrors).toEqual([
+      { key: "submit.rejected" },
+      {
+        key: "submit.fieldError",
+        params: { field: "vlan", message: { key: "mac.invalid" } },
+      },
+    ]);
+  });
+
+  it("ошибка поля снимается при изменении его значения", async () => {
+    const { result } = setup(async () => rejected({ ip: taken, mac: taken }));
+    await act(async () => result.current.handleSubmit(submitEvent()));
+    act(() => result.current.fields.ip.onChange("10.0.0.2"));
+    expect(result.current.fields.ip.serverError).toBeNull();
+    expect(result.current.fields.mac.serverError).toEqual(taken);
+  });
+
+  it("исключение в onSubmit — общая ошибка", async () => {
+    const { result } = setup(() => Promise.reject(new Error("bug")));
+    await act(async () => result.current.handleSubmit(submitEvent()));
+    expect(result.current.status).toBe("failure");
+    expect(result.current.submitErrors).toEqual([{ key: "submit.unexpected" }]);
+  });
+
+  it("отменяет отправку при размонтировании", () => {
+    let signal!: AbortSignal;
+    const { result, unmount } = setup((_, s) => {
+      signal = s;
+      return new Promise(() => {});
+    });
+    act(() => result.current.handleSubmit(submitEvent()));
+    unmount();
+    expect(signal.aborted).toBe(true);
+  });
+});
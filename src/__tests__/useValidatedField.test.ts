@@ -0,0 +1,85 @@
+import { act, renderHook } from "@testing-library/react";
+import { useValidatedField } from "../hooks/useValidatedField";
+import { createIpValidator } from "../utils/fieldValidators";
+
+const validator = createIpValidator();
+
+function setup(initial: string, options = {}) {
+  return renderHook(
+    ({ value, submitCount }) =>
+      useValidatedField(value, validator, { ...options, submitCount }),
+    { initialProps: { value: initial, submitCount: 0 } },
+  );
+}
+
+describe("useValidatedField — режимы проверки", () => {
+  it("при вводе — частичная проверка", () => {
+    const { result } = setup("10.0.");
+    expect(result.current.error).toBeNull();
+    expect(result.current.valid).toBe(false);
+  });
+
+  it("после blur — полная проверка", () => {
+    const { result } = setup("10.0.");
+    act(() => result.current.markBlurred());
+    expect(result.current.error).toEqual({ key: "ip.invalid" });
+    expect(result.current.touched).toBe(true);
+  });
+
+  it("ввод после blur снова включает частичную проверку", () => {
+    const { result } = setup("10.0.");
+    act(() => result.current.markBlurred());
+    act(() => result.current.markEdited());
+    expect(result.current.error).toBeNull();
+  });
+
+  it("отправка показывает полную проверку с конкретным сообщением", () => {
+    const { result, rerender } = setup("abc");
+    rerender({ value: "abc", submitCount: 1 });
+    expect(result.current.error).toEqual({ key: "ip.invalidFormat" });
+    expect(result.current.touched).toBe(true);
+  });
+});
+
+describe("useValidatedField — состояние", () => {
+  it("dirty — значение отличается от исходного", () => {
+    const { result, rerender } = setup("10.0.0.1");
+    expect(result.current.dirty).toBe(false);
+    rerender({ value: "10.0.0.2", submitCount: 0 });
+    expect(result.current.dirty).toBe(true);
+    rerender({ value: "10.0.0.1", submitCount: 0 });
+    expect(result.current.dirty).toBe(false);
+  });
+
+  it("обязательное пустое поле — ошибка только после blur", () => {
+    const { result } = setup("", { required: true });
+    expect(result.current.error).toBeNull();
+    expect(result.current.valid).toBe(false);
+    act(() => result.current.markBlurred());
+    expect(result.current.error).toEqual({ key: "common.required" });
+  });
+
+  it("необязательное пустое поле валидно", () => {
+    const { result } = setup("");
+    expect(result.current.valid).toBe(true);
+  });
+});
+
+describe("useValidatedField — ошибка сервера", () => {
+  const serverError = {
+    key: "submit.server",
+    params: { message: "Адрес занят" },
+  } as const;
+
+  it("показывается, но не делает поле невалидным", () => {
+    const { result } = setup("10.0.0.1", { serverError });
+    expect(result.current.error).toEqual(serverError);
+    expect(result.current.valid).toBe(true);
+  });
+
+  it("собственная ошибка поля важнее", () => {
+    const { result } = setup("abc", { serverError });
+    act(() => result.current.markBlurred());
+    expect(result.current.error).toEqual({ key: "ip.invalidFormat" });
+  });
+});
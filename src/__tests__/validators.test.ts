@@ -1,8 +1,25 @@
 import {
+  getIpFullError,
+  getIpPartialError,
+  hasCidrHostBits,
+  ipv6ToBigInt,
+  isIpValid,
+  expandIpv4ShortRange,
+  parseIpv4Mask,
+  parseIpv4ShortRange,
+  prefixToIpv4Mask,
+  getMacNotationExample,
+  getMacPartialError,
   isIpPartiallyValid,
   isMacValid,
   isMacPartiallyValid,
+  formatMac,
+  MAC_NOTATIONS,
+  normalizeMac,
+  numberToIpv4,
+  parseMac,
   TEXT_ALLOWED_CHARS,
+  TEXT_INVALID_MAC,
   TEXT_INVALID_SUBNET,
   TEXT_RANGE_ALLOWED,
   TEXT_RANGE_ORDER,
@@ -115,6 +132,362 @@ describe("isIpValid", () => {
   });
 });
 
+describe("IPv6 со встроенным IPv4", () => {
+  it.each([
+    "::ffff:192.168.1.1",
+    "64:ff9b::10.0.0.1",
+    "0:0:0:0:0:ffff:1.2.3.4",
+    "1:2:3:4:5:6:1.2.3.4",
+    "::1.2.3.4",
+    "::ffff:10.0.0.0/104",
+    "::ffff:10.0.0.1-::ffff:10.0.0.9, 10.0.0.1",
+  ])("принимает %s", (v) => expect(isIpValid(v)).toBe(true));
+
+  it.each([
+    "::ffff:256.1.1.1",
+    "::ffff:1.2.3.4.5",
+    "::ffff:1.2.3",
+    "1:2:3:4:5:6:7:1.2.3.4",
+    "1.2.3.4::ffff",
+  ])("отклоняет %s", (v) => expect(isIpValid(v)).toBe(false));
+
+  it.each(["::ffff:192", "::ffff:192.", "::ffff:192.168.1"])(
+    "допускает при вводе %s",
+    (v) => expect(getIpPartialError(v)).toBeNull(),
+  );
+
+  it.each(["::ffff:999.1", "::ffff:1.2.3.4.", "::ffff:1.2.3.4.5"])(
+    "не допускает при вводе %s",
+    (v) => expect(getIpPartialError(v)).not.toBeNull(),
+  );
+
+  it("ipv6ToBigInt учитывает IPv4-хвост", () => {
+    expect(ipv6ToBigInt("::ffff:192.168.1.1")).toBe(0xffffc0a80101n);
+    expect(ipv6ToBigInt("64:ff9b::10.0.0.1")).toBe(
+      ipv6ToBigInt("64:ff9b::a00:1"),
+    );
+    expect(ipv6ToBigInt("1:2:3:4:5:6:0.0.0.7")).toBe(
+      ipv6ToBigInt("1:2:3:4:5:6:0:7"),
+    );
+  });
+});
+
+describe("IPv6 — зоны", () => {
+  const zones = { allowZones: true };
+
+  it("по умолчанию зона не допускается", () => {
+    expect(isIpValid("fe80::1%eth0")).toBe(false);
+    expect(isIpPartiallyValid("fe80::1%eth0")).toBe(TEXT_ALLOWED_CHARS);
+  });
+
+  it.each([
+    "fe80::1%eth0",
+    "fe80::1%3",
+    "ff02::1%en0.100",
+    "fe80::1%eth0, ::1",
+  ])("принимает %s", (v) => {
+    expect(isIpValid(v, zones)).toBe(true);
+    expect(getIpPartialError(v, zones)).toBeNull();
+  });
+
+  it("допускает ещё не набранную зону только при вводе", () => {
+    expect(getIpPartialError("fe80::1%", zones)).toBeNull();
+    expect(getIpFullError("fe80::1%", zones)).toEqual({
+      key: "ip.zoneInvalid",
+    });
+  });
+
+  it.each([
+    ["2001:db8::1%eth0", "ip.zoneScope"],
+    ["10.0.0.1%eth0", "ip.zoneScope"],
+    ["fe80::1%eth 0", "ip.zoneInvalid"],
+    ["fe80::1%eth0%1", "ip.zoneInvalid"],
+    ["fe80::1%eth0-fe80::5", "ip.zoneContext"],
+    ["fe80::%eth0/64", "ip.zoneContext"],
+  ])("отклоняет %s (%s)", (v, key) => {
+    expect(getIpFullError(v, zones)).toEqual({ key });
+    expect(getIpPartialError(v, zones)).toEqual({ key });
+  });
+
+  it("прочие ошибки проверяются как обычно", () => {
+    expect(getIpFullError("fe80::1%eth0, 10.0.0.5-10.0.0.1", zones)).toEqual({
+      key: "ip.rangeOrder",
+    });
+  });
+});
+
+describe("CIDR — биты хоста", () => {
+  it.each([
+    ["192.168.1.77/24", true],
+    ["192.168.1.0/24", false],
+    ["10.0.0.1/32", false],
+    ["0.0.0.1/0", true],
+    ["2001:db8::1/64", true],
+    ["2001:db8::/32", false],
+  ])("hasCidrHostBits(%s) → %s", (token, expected) => {
+    expect(hasCidrHostBits(token)).toBe(expected);
+  });
+
+  it("по умолчанию биты хоста допустимы", () => {
+    expect(isIpValid("192.168.1.77/24")).toBe(true);
+  });
+
+  it("в строгом режиме биты хоста — ошибка", () => {
+    const strict = { strictCidr: true };
+    expect(isIpValid("192.168.1.77/24", strict)).toBe(false);
+    expect(isIpValid("192.168.1.0/24, 2001:db8::/32", strict)).toBe(true);
+    expect(getIpFullError("10.0.0.0/8, 2001:db8::1/64", strict)).toEqual({
+      key: "ip.cidrHostBits",
+    });
+  });
+});
+
+describe("IPv4 — маска и обратная маска", () => {
+  it.each([
+    ["255.255.255.0", { notation: "netmask", prefix: 24 }],
+    ["255.255.128.0", { notation: "netmask", prefix: 17 }],
+    ["255.255.255.255", null],
+    ["0.0.0.0", null],
+    ["0.0.0.255", { notation: "wildcard", prefix: 24 }],
+    ["0.0.3.255", { notation: "wildcard", prefix: 22 }],
+    ["127.255.255.255", { notation: "wildcard", prefix: 1 }],
+    ["255.0.255.0", null],
+    ["0.255.0.255", null],
+  ])("parseIpv4Mask(%s)", (mask, expected) => {
+    expect(parseIpv4Mask(mask)).toEqual(expected);
+  });
+
+  it.each([
+    [24, "netmask", "255.255.255.0"],
+    [17, "netmask", "255.255.128.0"],
+    [0, "netmask", "0.0.0.0"],
+    [32, "netmask", "255.255.255.255"],
+    [24, "wildcard", "0.0.0.255"],
+    [22, "wildcard", "0.0.3.255"],
+  ] as const)("prefixToIpv4Mask(%i, %s) → %s", (prefix, notation, mask) => {
+    expect(prefixToIpv4Mask(prefix, notation)).toBe(mask);
+    expect(parseIpv4Mask(mask, notation)).toEqual({ notation, prefix });
+  });
+
+  it.each([
+    ["0.0.0.0", "netmask", 0],
+    ["0.0.0.0", "wildcard", 32],
+    ["255.255.255.255", "netmask", 32],
+    ["255.255.255.255", "wildcard", 0],
+  ] as const)("parseIpv4Mask(%s, %s) → /%i", (mask, notation, prefix) => {
+    expect(parseIpv4Mask(mask, notation)).toEqual({ notation, prefix });
+  });
+
+  it.each([
+    ["10.0.0.1 0.0.0.0", "0.0.0.0"],
+    ["0.0.0.0 255.255.255.255", "255.255.255.255"],
+  ])("%s без контекста — неоднозначная маска", (value, mask) => {
+    expect(getIpFullError(value)).toEqual({
+      key: "ip.maskAmbiguous",
+      params: { mask },
+    });
+    // При вводе запись ещё может задать следующий элемент.
+    expect(getIpPartialError(value)).toBeNull();
+  });
+
+  it("запись 0.0.0.0 и 255.255.255.255 берётся из других масок", () => {
+    expect(isIpValid("10.0.0.0 0.0.0.255, 10.0.0.1 0.0.0.0")).toBe(true);
+    expect(isIpValid("10.0.0.0 0.0.0.255, 0.0.0.0 255.255.255.255")).toBe(true);
+  });
+
+  it("запись неоднозначной маски можно задать в настройках", () => {
+    expect(
+      getIpFullError("10.0.0.1 0.0.0.0", { maskNotation: "wildcard" }),
+    ).toBeNull();
+    // Маски самого значения важнее настройки.
+    expect(
+      isIpValid("10.0.0.0 255.255.255.0, 10.0.0.1 0.0.0.0", {
+        maskNotation: "wildcard",
+      }),
+    ).toBe(true);
+  });
+
+  it("при смешанных записях маска 0.0.0.0 неоднозначна", () => {
+    expect(
+      getIpFullError(
+        "10.0.0.0 0.0.0.255, 10.0.1.0 255.255.255.0, 10.0.0.1 0.0.0.0",
+      ),
+    ).toEqual({ key: "ip.maskAmbiguous", params: { mask: "0.0.0.0" } });
+  });
+
+  it.each([
+    "192.168.1.0 255.255.255.0",
+    "10.0.0.0 0.0.0.255",
+    "192.168.1.0/255.255.255.0",
+    "192.168.1.0   255.255.255.0, 10.0.0.0 0.0.255.255, 172.16.0.0/12",
+  ])("принимает %s", (value) => {
+    expect(isIpValid(value)).toBe(true);
+  });
+
+  it("прерывистая маска — отдельная ошибка", () => {
+    expect(getIpFullError("192.168.1.0 255.0.255.0")).toEqual({
+      key: "ip.maskNonContiguous",
+      params: { mask: "255.0.255.0" },
+    });
+    expect(getIpPartialError("10.0.0.0 0.255.0.255,")).toEqual({
+      key: "ip.maskNonContiguous",
+      params: { mask: "0.255.0.255" },
+    });
+  });
+
+  it.each(["10.0.0.0 0.0.0.255", "192.168.1.0 255.255.255.240"])(
+    "набор маски %s по одному символу не даёт ошибок",
+    (value) => {
+      for (let i = 1; i <= value.length; i++) {
+        expect(getIpPartialError(value.slice(0, i))).toBeNull();
+      }
+    },
+  );
+
+  it.each(["10.0.0.1 10.0.0.2", "10.0.0.1 192.168.1.1, 10.0.0.3"])(
+    "два адреса через пробел — не маска: %s",
+    (value) => {
+      expect(getIpPartialError(value)).toEqual({ key: "ip.invalidFormat" });
+      expect(getIpFullError(value)).toEqual({ key: "ip.invalid" });
+    },
+  );
+
+  it("недописанная маска не последнего элемента — ошибка", () => {
+    expect(getIpPartialError("10.0.0.0 0.0.0.25, 10.0.1.0")).toEqual({
+      key: "ip.maskNonContiguous",
+      params: { mask: "0.0.0.25" },
+    });
+    expect(getIpFullError("10.0.0.0 0.0.0.25")).toEqual({
+      key: "ip.maskNonContiguous",
+      params: { mask: "0.0.0.25" },
+    });
+  });
+
+  it("маска допустима только для IPv4", () => {
+    expect(isIpValid("2001:db8:: 255.255.255.0")).toBe(false);
+    expect(isIpValid("192.168.1.0 2001:db8::")).toBe(false);
+  });
+
+  it("строгий режим видит биты хоста и в записи с маской", () => {
+    const strict = { strictCidr: true };
+    expect(isIpValid("192.168.1.77 255.255.255.0", strict)).toBe(false);
+    expect(isIpValid("192.168.1.0 255.255.255.0", strict)).toBe(true);
+  });
+
+  it.each(["192.168.1.0 ", "192.168.1.0 255", "192.168.1.0 255.255.25"])(
+    "маску можно набирать: %s",
+    (value) => {
+      expect(getIpPartialError(value)).toBeNull();
+    },
+  );
+});
+
+describe("IPv4 — сокращённые диапазоны", () => {
+  const short = { allowShortRanges: true };
+
+  it.each([
+    [
+      "192.168.1.10-50",
+      [
+        [192, 192],
+        [168, 168],
+        [1, 1],
+        [10, 50],
+      ],
+      null,
+    ],
+    [
+      "10.0.*.1",
+      [
+        [10, 10],
+        [0, 0],
+        [0, 255],
+        [1, 1],
+      ],
+      null,
+    ],
+    [
+      "10.0.1-3.0/24",
+      [
+        [10, 10],
+        [0, 0],
+        [1, 3],
+        [0, 0],
+      ],
+      24,
+    ],
+  ])("parseIpv4ShortRange(%s)", (text, octets, prefix) => {
+    expect(parseIpv4ShortRange(text)).toEqual({ octets, prefix });
+  });
+
+  it.each(["10.0.0.1", "10.0.0.0/8", "10.0.0.1-10.0.0.5", "10.0"])(
+    "%s — не шаблон",
+    (text) => {
+      expect(parseIpv4ShortRange(text)).toBeNull();
+    },
+  );
+
+  it("разворачивает шаблон в интервалы", () => {
+    const range = (text: string) =>
+      expandIpv4ShortRange(parseIpv4ShortRange(text)!)!.map(([a, b]) => [
+        numberToIpv4(a),
+        numberToIpv4(b),
+      ]);
+    expect(range("192.168.1.10-50")).toEqual([
+      ["192.168.1.10", "192.168.1.50"],
+    ]);
+    expect(range("10.0.1-3.0/24")).toEqual([["10.0.1.0", "10.0.3.255"]]);
+    expect(range("10.0.1-3.*")).toEqual([["10.0.1.0", "10.0.3.255"]]);
+    expect(range("10.0-1.0-99.1")).toHaveLength(200);
+    expect(range("10.0.*.1").slice(0, 2)).toEqual([
+      ["10.0.0.1", "10.0.0.1"],
+      ["10.0.1.1", "10.0.1.1"],
+    ]);
+  });
+
+  it("принимается только с allowShortRanges", () => {
+    expect(isIpValid("192.168.1.10-50")).toBe(false);
+    expect(isIpValid("192.168.1.10-50, 10.0.*.1, 10.0.1-3.0/24", short)).toBe(
+      true,
+    );
+    expect(isIpValid("10.0.0.1-10.0.0.5, 10.0.0.0/8", short)).toBe(true);
+  });
+
+  it("границы октета в обратном порядке — ошибка порядка", () => {
+    expect(getIpFullError("192.168.1.50-10", short)).toEqual({
+      key: "ip.rangeOrder",
+    });
+    expect(getIpPartialError("192.168.1.50-10, 10.0.0.1", short)).toEqual({
+      key: "ip.rangeOrder",
+    });
+  });
+
+  it("слишком крупный шаблон отклоняется", () => {
+    expect(getIpFullError("10.*.*.1", short)).toEqual({
+      key: "ip.shortRangeTooLarge",
+      params: { limit: 256 },
+    });
+  });
+
+  it("строгий режим запрещает биты хоста в шаблоне с префиксом", () => {
+    const strict = { ...short, strictCidr: true };
+    expect(isIpValid("10.0.1-3.0/24", strict)).toBe(true);
+    expect(getIpFullError("10.0.1-3.5/24", strict)).toEqual({
+      key: "ip.cidrHostBits",
+    });
+  });
+
+  it.each([
+    "192.168.1.10-",
+    "192.168.1.10-5",
+    "10.0.*",
+    "10.0.*.",
+    "10.0.1-3.0/2",
+  ])("шаблон можно набирать: %s", (value) => {
+    expect(getIpPartialError(value, short)).toBeNull();
+  });
+});
+
 // =====================================================================
 //  IP — частичная валидация (ввод)
 // =====================================================================
@@ -288,3 +661,134 @@ describe("isMacPartiallyValid", () => {
     expect(isMacPartiallyValid(v)).toBe(TEXT_ALLOWED_CHARS),
   );
 });
+
+// =====================================================================
+//  Ключи сообщений (для локализации)
+// =====================================================================
+
+describe("getIpPartialError / getMacPartialError", () => {
+  it("возвращают null для допустимого ввода", () => {
+    expect(getIpPartialError("192.168.")).toBeNull();
+    expect(getMacPartialError("AA-BB")).toBeNull();
+  });
+
+  it("возвращают ключ сообщения вместо текста", () => {
+    expect(getIpPartialError("192.168.1.10-192.168.1.2")).toEqual({
+      key: "ip.rangeOrder",
+    });
+    expect(getMacPartialError("GG")).toEqual({ key: "common.allowedChars" });
+  });
+});
+
+// =====================================================================
+//  MAC — нотации и нормализация
+// =====================================================================
+
+describe("MAC — нотации", () => {
+  const all = { notations: MAC_NOTATIONS };
+
+  it.each([
+    "AA-BB-CC-DD-EE-FF",
+    "aa:bb:cc:dd:ee:ff",
+    "aabb.ccdd.eeff",
+    "AABBCCDDEEFF",
+    "aa:bb:cc:dd:ee:ff, aabb.ccdd.eeff",
+  ])("принимает %s при всех нотациях", (v) =>
+    expect(isMacValid(v, all)).toBe(true),
+  );
+
+  it.each([
+    "aa:bb-cc:dd:ee:ff", // смешанные разделители
+    "aabb.ccdd.ee", // неполная группа Cisco
+    "aab.bccd.deeff", // группы Cisco не по 4 символа
+    "AABBCCDDEEF", // 11 hex-символов
+  ])("отклоняет %s", (v) => expect(isMacValid(v, all)).toBe(false));
+
+  it("принимает только разрешённые нотации", () => {
+    const colonOnly = { notations: ["colon"] as const };
+    expect(isMacValid("aa:bb:cc:dd:ee:ff", colonOnly)).toBe(true);
+    expect(isMacValid("AA-BB-CC-DD-EE-FF", colonOnly)).toBe(false);
+  });
+
+  it.each([
+    "aa:",
+    "aa:bb:c",
+    "aabb.",
+    "aabb.cc",
+    "aabbccdd",
+    "AA-BB-CC-DD-EE-FF, aa:b",
+  ])("допускает частичный ввод: %s", (v) =>
+    expect(isMacPartiallyValid(v, all)).toBe(""),
+  );
+
+  it.each(["aabb.ccdd.eeff.", "aabbccddeeff0", "aa:bb:cc:dd:ee:ff:00"])(
+    "отклоняет лишние группы при вводе: %s",
+    (v) => expect(isMacPartiallyValid(v, all)).toBe(TEXT_INVALID_MAC),
+  );
+
+  it("разделители неразрешённых нотаций считаются недопустимыми символами", () => {
+    expect(isMacPartiallyValid("aa:bb")).toBe(TEXT_ALLOWED_CHARS);
+  });
+});
+
+describe("normalizeMac", () => {
+  const all = { notations: MAC_NOTATIONS };
+
+  it("приводит любые нотации к каноничному виду", () => {
+    expect(
+      normalizeMac(
+        "aa:bb:cc:dd:ee:ff, 0011.2233.4455, 66778899aabb",
+        "hyphen",
+        all,
+      ),
+    ).toBe("AA-BB-CC-DD-EE-FF, 00-11-22-33-44-55, 66-77-88-99-AA-BB");
+  });
+
+  it("выводит в заданной нотации", () => {
+    expect(normalizeMac("AA-BB-CC-DD-EE-FF", "cisco")).toBe("AABB.CCDD.EEFF");
+  });
+
+  it("возвращает null для невалидного значения", () => {
+    expect(normalizeMac("AA-BB", "hyphen", all)).toBeNull();
+  });
+
+  it("parseMac и formatMac взаимно обратны", () => {
+    const octets = parseMac("01:23:45:67:89:ab", all)!;
+    expect(octets).toEqual([0x01, 0x23, 0x45, 0x67, 0x89, 0xab]);
+    expect(formatMac(octets, "colon", "lower")).toBe("01:23:45:67:89:ab");
+  });
+});
+
+describe("MAC — длина адреса", () => {
+  it.each([
+    ["AA-BB-CC-DD-EE-FF-00-11", 8],
+    ["aabb.ccdd.eeff.0011", 8],
+    ["80:00:00:48:fe:80:00:00:00:00:00:00:00:02:c9:03:00:01:23:45", 20],
+  ] as const)("принимает %s при длине %i", (v, length) =>
+    expect(isMacValid(v, { notations: MAC_NOTATIONS, length })).toBe(true),
+  );
+
+  it("не принимает EUI-48 в поле EUI-64", () => {
+    expect(isMacValid("AA-BB-CC-DD-EE-FF", { length: 8 })).toBe(false);
+  });
+
+  it("считает сегменты по выбранной длине при вводе", () => {
+    expect(isMacPartiallyValid("AA-BB-CC-DD-EE-FF-00", { length: 8 })).toBe("");
+    expect(isMacPartiallyValid("AA-BB-CC-DD-EE-FF-00")).toBe(TEXT_INVALID_MAC);
+    expect(
+      isMacPartiallyValid("AA-BB-CC-DD-EE-FF-00-11-22", { length: 8 }),
+    ).toBe(TEXT_INVALID_MAC);
+  });
+
+  it("нормализует адрес InfiniBand", () => {
+    const value = "8000.0048.fe80.0000.0000.0000.0002.c903.0001.2345";
+    expect(
+      normalizeMac(value, "colon", { notations: ["cisco"], length: 20 }),
+    ).toBe("80:00:00:48:FE:80:00:00:00:00:00:00:00:02:C9:03:00:01:23:45");
+  });
+
+  it("строит образец записи для подсказки", () => {
+    expect(getMacNotationExample("cisco", 8)).toBe("XXXX.XXXX.XXXX.XXXX");
+    expect(getMacNotationExample("hyphen")).toBe("XX-XX-XX-XX-XX-XX");
+  });
+});
@@ -0,0 +1,227 @@
+import { useCallback, useState, type ChangeEvent, type DragEvent } from "react";
+import { useI18n } from "../i18n/I18nContext";
+import type { ValidationMessage } from "../i18n/translate";
+import {
+  importAddresses,
+  isRecordAccepted,
+  type ImportRecord,
+  type ImportResult,
+} from "../utils/bulkImport";
+import type { IpOptions, MacOptions } from "../utils/validators";
+import "./Field.css";
+import "./BulkImport.css";
+
+export interface BulkImportEntries {
+  ips: string[];
+  macs: string[];
+}
+
+interface BulkImportProps {
+  /** Принятые адреса — по нажатию «Заполнить поля» */
+  onApply: (entries: BulkImportEntries) => void;
+  /** Параметры IP-поля, которое заполняется импортом */
+  ipOptions?: IpOptions;
+  /** Параметры MAC-поля, которое заполняется импортом */
+  macOptions?: MacOptions;
+}
+
+/** Содержимое файла как текст. */
+function readFileText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+interface ImportReportProps {
+  result: ImportResult;
+}
+
+/** Отчёт по записям: что принято и почему отклонено. */
+function ImportReport({ result }: ImportReportProps) {
+  const { t, format } = useI18n();
+  const accepted = result.records.filter(isRecordAccepted).length;
+
+  const describe = (record: ImportRecord): ValidationMessage[] => {
+    const items = [...record.ips, ...record.macs];
+    const messages: ValidationMessage[] = record.rejected.map((r) => ({
+      key: "import.rejected",
+      params: { token: r.token, reason: r.message },
+    }));
+    if (items.length > 0) {
+      messages.unshift({
+        key: "import.accepted",
+        params: { items: items.join(", ") },
+      });
+    } else if (messages.length === 0) {
+      messages.push({ key: "import.noAddresses" });
+    }
+    return messages;
+  };
+
+  return (
+    <>
+      <span className="field__summary">
+        {t("import.summary", {
+          format: t(`import.format.${result.format}`),
+          records: result.records.length,
+          accepted,
+          ips: result.ips.length,
+          macs: result.macs.length,
+        })}
+      </span>
+      <table className="bulk-import__report">
+        <thead>
+          <tr>
+            <th>{t("import.record")}</th>
+            <th>{t("import.source")}</th>
+            <th>{t("import.result")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.records.map((record) => (
+            <tr
+              key={record.label}
+              className={
+                isRecordAccepted(record)
+                  ? "bulk-import__row--accepted"
+                  : "bulk-import__row--rejected"
+              }
+            >
+              <td>{record.label}</td>
+              <td className="bulk-import__source">{record.source}</td>
+              <td>
+                {describe(record).map((message, i) => (
+                  <div key={i}>{format(message)}</div>
+                ))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  );
+}
+
+/**
+ * Импорт списков адресов: вставленный текст или перетащенный файл
+ * (CSV, по адресу на строку, JSON, вывод arp -a / ip neigh).
+ * Показывает отчёт по записям и заполняет поля принятыми адресами.
+ */
+export default function BulkImport({
+  onApply,
+  ipOptions,
+  macOptions,
+}: BulkImportProps) {
+  const { t, format } = useI18n();
+  const [text, setText] = useState("");
+  const [fileName, setFileName] = useState<string>();
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [readError, setReadError] = useState<ValidationMessage | null>(null);
+
+  const run = useCallback(
+    (value: string, name?: string) => {
+      setResult(
+        importAddresses(value, {
+          fileName: name,
+          ip: ipOptions,
+          mac: macOptions,
+        }),
+      );
+    },
+    [ipOptions, macOptions],
+  );
+
+  const handleChange = useCallback((e: ChangeEvent<HTMLTextAreaElement>) => {
+    setText(e.target.value);
+    setFileName(undefined);
+    setResult(null);
+  }, []);
+
+  /** Файл разбираем сразу: его содержимое показываем в поле. */
+  const readFile = useCallback(
+    async (file: File) => {
+      setReadError(null);
+      try {
+        const content = await readFileText(file);
+        setText(content);
+        setFileName(file.name);
+        run(content, file.name);
+      } catch {
+        setReadError({ key: "import.readError" });
+      }
+    },
+    [run],
+  );
+
+  const handleFile = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) void readFile(file);
+      e.target.value = "";
+    },
+    [readFile],
+  );
+
+  const handleDrop = useCallback(
+    (e: DragEvent<HTMLTextAreaElement>) => {
+      const file = e.dataTransfer.files[0];
+      if (!file) return;
+      e.preventDefault();
+      void readFile(file);
+    },
+    [readFile],
+  );
+
+  const hasEntries = !!result && result.ips.length + result.macs.length > 0;
+
+  return (
+    <details className="bulk-import">
+      <summary>{t("import.title")}</summary>
+      <textarea
+        aria-label={t("import.title")}
+        placeholder={t("import.hint")}
+        value={text}
+        onChange={handleChange}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDrop}
+        rows={6}
+        spellCheck={false}
+      />
+      <div className="bulk-import__actions">
+        <label className="bulk-import__file">
+          {t("import.file")}
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,.json,text/plain,text/csv,application/json"
+            onChange={handleFile}
+          />
+        </label>
+        <button
+          type="button"
+          className="field__action"
+          onClick={() => run(text, fileName)}
+          disabled={!text.trim()}
+        >
+          {t("import.run")}
+        </button>
+        {hasEntries && (
+          <button
+            type="button"
+            className="field__action"
+            onClick={() => onApply({ ips: result.ips, macs: result.macs })}
+          >
+            {t("import.apply")}
+          </button>
+        )}
+      </div>
+      {readError && <span className="field__error">{format(readError)}</span>}
+      {result?.error && (
+        <span className="field__error">{format(result.error)}</span>
+      )}
+      {result && !result.error && <ImportReport result={result} />}
+    </details>
+  );
+}
@@ -0,0 +1,44 @@
+import type { ReactNode } from "react";
+import { useI18n } from "../i18n/I18nContext";
+import type { ValidationDiagnostic } from "../utils/diagnostics";
+
+interface DiagnosticHighlightProps {
+  value: string;
+  diagnostics: ValidationDiagnostic[];
+}
+
+/**
+ * Повторяет значение поля под инпутом и подчёркивает фрагменты,
+ * на которые указывают диагностики (элементы списка, символы).
+ */
+export default function DiagnosticHighlight({
+  value,
+  diagnostics,
+}: DiagnosticHighlightProps) {
+  const { format } = useI18n();
+
+  if (!diagnostics.length) return null;
+
+  const sorted = [...diagnostics].sort((a, b) => a.start - b.start);
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+
+  for (const d of sorted) {
+    // Пересекающиеся фрагменты подчёркиваем один раз.
+    if (d.start < cursor) continue;
+    parts.push(value.slice(cursor, d.start));
+    parts.push(
+      <mark key={d.start} className="field__mark" title={format(d.message)}>
+        {value.slice(d.start, d.end)}
+      </mark>,
+    );
+    cursor = d.end;
+  }
+  parts.push(value.slice(cursor));
+
+  return (
+    <div className="field__highlight" aria-hidden="true">
+      {parts}
+    </div>
+  );
+}
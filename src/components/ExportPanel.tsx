@@ -0,0 +1,102 @@
+import { useMemo, useState, type ChangeEvent } from "react";
+import { useI18n } from "../i18n/I18nContext";
+import {
+  EXPORT_FORMATS,
+  exportNetworkData,
+  getExportFileName,
+  getExportMimeType,
+  type ExportData,
+  type ExportFormat,
+} from "../utils/networkExport";
+import "./Field.css";
+import "./ExportPanel.css";
+
+/** Сохраняет текст файлом через временную ссылку. */
+function downloadText(fileName: string, content: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Некоторые браузеры начинают загрузку асинхронно: ссылку
+  // освобождаем только после текущей задачи.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+interface ExportPanelProps {
+  data: ExportData;
+}
+
+/**
+ * Экспорт отправленных данных: выбор формата, предпросмотр
+ * и скачивание — для систем управления конфигурацией.
+ */
+export default function ExportPanel({ data }: ExportPanelProps) {
+  const { t } = useI18n();
+  const [format, setFormat] = useState<ExportFormat>("json");
+  const [name, setName] = useState("allowed");
+
+  const result = useMemo(
+    () => exportNetworkData(data, format, { name }),
+    [data, format, name],
+  );
+
+  const handleDownload = () =>
+    downloadText(
+      getExportFileName(format, name),
+      result.content,
+      getExportMimeType(format),
+    );
+
+  return (
+    <section className="export-panel" aria-label={t("export.title")}>
+      <h3>{t("export.title")}</h3>
+      <div className="export-panel__controls">
+        <label>
+          {t("export.format")}
+          <select
+            value={format}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+              setFormat(e.target.value as ExportFormat)
+            }
+          >
+            {EXPORT_FORMATS.map((f) => (
+              <option key={f} value={f}>
+                {t(`export.format.${f}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {t("export.name")}
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            spellCheck={false}
+          />
+        </label>
+      </div>
+      {result.content ? (
+        <pre className="export-panel__preview" aria-label={t("export.preview")}>
+          {result.content}
+        </pre>
+      ) : (
+        <span className="field__hint">{t("export.empty")}</span>
+      )}
+      {result.skipped.length > 0 && (
+        <span className="field__warning">
+          {t("export.skipped", { items: result.skipped.join(", ") })}
+        </span>
+      )}
+      <button
+        type="button"
+        className="field__action"
+        onClick={handleDownload}
+        disabled={!result.content}
+      >
+        {t("export.download")}
+      </button>
+    </section>
+  );
+}
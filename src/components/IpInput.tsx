@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useMemo, type ChangeEvent } from "react";
+import { useI18n } from "../i18n/I18nContext";
+import type { ValidationMessage } from "../i18n/translate";
+import type { IpOptions } from "../utils/validators";
+import type { ValidationDiagnostic } from "../utils/diagnostics";
+import type { IpPolicy } from "../utils/ipPolicy";
+import {
+  canonicalizeIpv6,
+  parseIpExpression,
+  parseIpItems,
+} from "../utils/ipExpression";
+import { getIpSetSize } from "../utils/ipSet";
+import { normalizeIpList } from "../utils/ipAggregate";
+import type { IpConstraints } from "../utils/ipConstraints";
+import { createIpValidator } from "../utils/fieldValidators";
+import { calculateSubnet } from "../utils/subnetCalculator";
+import { useValidatedField } from "../hooks/useValidatedField";
+import DiagnosticHighlight from "./DiagnosticHighlight";
+import SubnetCalculator from "./SubnetCalculator";
+import "./Field.css";
+
+export interface IpInputProps extends IpOptions, IpConstraints {
+  value: string;
+  onChange: (value: string) => void;
+  /** Вызывается, когда значение становится допустимым или перестаёт им быть */
+  onValidityChange?: (valid: boolean) => void;
+  id?: string;
+  /** Подпись поля (по умолчанию «IP-адрес») */
+  label?: string;
+  /** Подсказка под полем (по умолчанию — о допустимых форматах) */
+  hint?: string;
+  /** Пустое значение — ошибка (показывается после blur или отправки) */
+  required?: boolean;
+  /**
+   * Счётчик попыток отправки формы: при его изменении поле показывает
+   * ошибки полной проверки — до следующего ввода.
+   */
+  submitCount?: number;
+  /** Ошибка от сервера после отправки — до следующего изменения значения */
+  serverError?: ValidationMessage | null;
+  /** Политика допустимых IP: запрет или предупреждение по категориям */
+  policy?: IpPolicy;
+  /** Повторы и пересечения элементов — ошибка, а не предупреждение */
+  strictOverlaps?: boolean;
+  /**
+   * Когда приводить IPv6 к канонической записи RFC 5952: при уходе
+   * с поля (по умолчанию) или не приводить вовсе — тогда это делает
+   * владелец значения, например при отправке.
+   */
+  ipv6Canonical?: "blur" | "submit";
+}
+
+/**
+ * Поле IP-адреса: проверка при вводе, подсветка ошибочных элементов,
+ * предупреждения, исправления в один клик, число адресов,
+ * нормализация списка и калькулятор подсети для одного CIDR.
+ */
+export default function IpInput({
+  value,
+  onChange,
+  onValidityChange,
+  id = "ip",
+  label,
+  hint,
+  required = false,
+  submitCount = 0,
+  serverError,
+  policy,
+  strictCidr = false,
+  strictOverlaps = false,
+  allowZones = false,
+  allowShortRanges = false,
+  kinds,
+  versions,
+  ipv6Canonical = "blur",
+}: IpInputProps) {
+  const { t, format } = useI18n();
+
+  // Синтаксис значения — общий для проверки, подсчёта и нормализации.
+  const options = useMemo<IpOptions>(
+    () => ({ allowZones, allowShortRanges }),
+    [allowZones, allowShortRanges],
+  );
+  const validator = useMemo(
+    () =>
+      createIpValidator({
+        ...options,
+        policy,
+        strictCidr,
+        strictOverlaps,
+        kinds,
+        versions,
+      }),
+    [options, policy, strictCidr, strictOverlaps, kinds, versions],
+  );
+  const field = useValidatedField(value, validator, {
+    required,
+    submitCount,
+    serverError,
+  });
+  const { error, valid, markEdited, markBlurred } = field;
+
+  useEffect(() => {
+    onValidityChange?.(valid);
+  }, [valid, onValidityChange]);
+
+  // Сколько адресов покрывают уже введённые корректные элементы.
+  const count = useMemo(
+    () => getIpSetSize(parseIpItems(value, options)).total,
+    [value, options],
+  );
+  // Минимальный набор CIDR — если он отличается от введённого.
+  // Разница только в пробелах не в счёт: кнопка ничего бы не изменила.
+  const normalized = useMemo(() => {
+    const result = value.trim() ? normalizeIpList(value, options) : null;
+    const compact = (v: string) => v.replace(/\s+/g, "");
+    return result !== null && compact(result) !== compact(value)
+      ? result
+      : null;
+  }, [value, options]);
+  // Калькулятор подсети — когда в поле ровно один CIDR.
+  const subnet = useMemo(() => {
+    const items = parseIpExpression(value, options);
+    return items?.length === 1 && items[0].kind === "cidr"
+      ? calculateSubnet(items[0])
+      : null;
+  }, [value, options]);
+
+  /** Новое значение от пользователя: снова режим ввода. */
+  const edit = useCallback(
+    (v: string) => {
+      markEdited();
+      onChange(v);
+    },
+    [onChange, markEdited],
+  );
+
+  const handleChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => edit(e.target.value),
+    [edit],
+  );
+
+  const handleBlur = useCallback(() => {
+    markBlurred();
+    if (ipv6Canonical !== "blur") return;
+    const canonical = canonicalizeIpv6(value);
+    if (canonical !== value) onChange(canonical);
+  }, [value, onChange, ipv6Canonical, markBlurred]);
+
+  /** Применяет предложенное исправление к фрагменту значения. */
+  const applyFix = useCallback(
+    (d: ValidationDiagnostic) => {
+      edit(value.slice(0, d.start) + d.fix + value.slice(d.end));
+    },
+    [value, edit],
+  );
+
+  return (
+    <div className={`field ${error ? "field--error" : ""}`}>
+      <label htmlFor={id}>{label ?? t("form.ip.label")}</label>
+      <input
+        id={id}
+        type="text"
+        placeholder="192.168.1.0/24, 10.0.0.1-10.0.0.5, fe80::1"
+        value={value}
+        onChange={handleChange}
+        onBlur={handleBlur}
+        autoComplete="off"
+        spellCheck={false}
+        aria-required={required}
+      />
+      <DiagnosticHighlight value={value} diagnostics={field.diagnostics} />
+      {error && <span className="field__error">{format(error)}</span>}
+      {field.warnings.map((w, i) => (
+        <span key={`${w.code}-${w.itemIndex}-${i}`} className="field__warning">
+          {format(w.message)}
+        </span>
+      ))}
+      {[...field.diagnostics, ...field.warnings]
+        .filter((d) => d.fix)
+        .map((d) => (
+          <button
+            key={`fix-${d.itemIndex}-${d.code}-${d.start}`}
+            type="button"
+            className="field__fix"
+            onClick={() => applyFix(d)}
+          >
+            {t("form.fix", { replacement: d.fix! })}
+          </button>
+        ))}
+      {count > 0n && (
+        <span className="field__summary">
+          {t("form.ip.summary", { count })}
+        </span>
+      )}
+      {subnet && <SubnetCalculator info={subnet} />}
+      {normalized !== null && (
+        <button
+          type="button"
+          className="field__action"
+          onClick={() => edit(normalized)}
+        >
+          {t("form.ip.normalize")}
+        </button>
+      )}
+      <span className="field__hint">
+        {hint ?? `${t("form.ip.hint")} ${t("ip.rangeAllowed")}`}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import type { ChangeEvent } from "react";
+import { useI18n } from "../i18n/I18nContext";
+import { LOCALE_NAMES, type Locale } from "../i18n/translate";
+
+/** Переключатель языка интерфейса (работает внутри I18nProvider). */
+export default function LocaleSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  const handleChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setLocale(e.target.value as Locale);
+  };
+
+  return (
+    <label className="locale-switcher">
+      {t("form.locale")}
+      <select value={locale} onChange={handleChange}>
+        {(Object.keys(LOCALE_NAMES) as Locale[]).map((code) => (
+          <option key={code} value={code}>
+            {LOCALE_NAMES[code]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
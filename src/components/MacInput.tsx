@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useMemo, type ChangeEvent } from "react";
+import { useI18n } from "../i18n/I18nContext";
+import type { ValidationMessage } from "../i18n/translate";
+import {
+  getMacNotationExample,
+  MAC_NOTATIONS,
+  type MacLength,
+  type MacNotation,
+} from "../utils/validators";
+import { createMacValidator } from "../utils/fieldValidators";
+import { getMacMaskSeparator, maskMacEdit } from "../utils/macMask";
+import { useValidatedField } from "../hooks/useValidatedField";
+import DiagnosticHighlight from "./DiagnosticHighlight";
+import "./Field.css";
+
+export interface MacInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Вызывается, когда значение становится допустимым или перестаёт им быть */
+  onValidityChange?: (valid: boolean) => void;
+  id?: string;
+  /** Подпись поля (по умолчанию «MAC-адрес») */
+  label?: string;
+  /** Подсказка под полем (по умолчанию — примеры допустимых нотаций) */
+  hint?: string;
+  /** Пустое значение — ошибка (показывается после blur или отправки) */
+  required?: boolean;
+  /**
+   * Счётчик попыток отправки формы: при его изменении поле показывает
+   * ошибки полной проверки — до следующего ввода.
+   */
+  submitCount?: number;
+  /** Ошибка от сервера после отправки — до следующего изменения значения */
+  serverError?: ValidationMessage | null;
+  /** Нотации MAC, которые принимает поле (по умолчанию — все) */
+  notations?: readonly MacNotation[];
+  /** Длина аппаратного адреса: 6 (EUI-48), 8 (EUI-64), 20 (InfiniBand) */
+  length?: MacLength;
+  /** Разрешить несколько адресов через запятую (по умолчанию — да) */
+  multiple?: boolean;
+  /**
+   * Маска ввода: разделители групп вставляются сами, буквы
+   * становятся заглавными, вставленный MAC любой нотации
+   * переписывается под маску. Работает, если поле принимает
+   * нотацию hyphen или colon.
+   */
+  mask?: boolean;
+}
+
+/**
+ * Поле MAC-адреса: при вводе допускается недописанное значение,
+ * после blur и при отправке — только полные адреса. С маской
+ * значение форматируется прямо при вводе (см. utils/macMask).
+ */
+export default function MacInput({
+  value,
+  onChange,
+  onValidityChange,
+  id = "mac",
+  label,
+  hint,
+  required = false,
+  submitCount = 0,
+  serverError,
+  notations = MAC_NOTATIONS,
+  length = 6,
+  multiple = true,
+  mask = false,
+}: MacInputProps) {
+  const { t, format } = useI18n();
+  const validator = useMemo(
+    () => createMacValidator({ notations, length, multiple }),
+    [notations, length, multiple],
+  );
+  const { error, diagnostics, warnings, valid, markEdited, markBlurred } =
+    useValidatedField(value, validator, {
+      required,
+      submitCount,
+      serverError,
+    });
+
+  useEffect(() => {
+    onValidityChange?.(valid);
+  }, [valid, onValidityChange]);
+
+  const maskOptions = useMemo(() => {
+    const separator = mask ? getMacMaskSeparator(notations) : null;
+    return separator && { separator, length, multiple };
+  }, [mask, notations, length, multiple]);
+
+  const handleChange = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      markEdited();
+      const input = e.target;
+      if (!maskOptions) {
+        onChange(input.value);
+        return;
+      }
+      const { inputType } = e.nativeEvent as InputEvent;
+      const masked = maskMacEdit(
+        value,
+        {
+          value: input.value,
+          caret: input.selectionStart ?? input.value.length,
+        },
+        maskOptions,
+        inputType === "deleteContentForward" ? "forward" : "backward",
+      );
+      // Значение и каретку ставим сразу: иначе React, обновляя
+      // значение поля, отправит каретку в конец.
+      input.value = masked.value;
+      input.setSelectionRange(masked.caret, masked.caret);
+      onChange(masked.value);
+    },
+    [value, onChange, markEdited, maskOptions],
+  );
+
+  return (
+    <div className={`field ${error ? "field--error" : ""}`}>
+      <label htmlFor={id}>{label ?? t("form.mac.label")}</label>
+      <input
+        id={id}
+        type="text"
+        placeholder={length === 6 ? "AA-BB-CC-DD-EE-FF" : undefined}
+        value={value}
+        onChange={handleChange}
+        onBlur={markBlurred}
+        autoComplete="off"
+        spellCheck={false}
+        aria-required={required}
+      />
+      <DiagnosticHighlight value={value} diagnostics={diagnostics} />
+      {error && <span className="field__error">{format(error)}</span>}
+      {warnings.map((w) => (
+        <span key={`${w.code}-${w.itemIndex}`} className="field__warning">
+          {format(w.message)}
+        </span>
+      ))}
+      <span className="field__hint">
+        {hint ??
+          t(multiple ? "form.mac.hint" : "form.mac.hintSingle", {
+            formats: notations
+              .map((n) => getMacNotationExample(n, length))
+              .join(", "),
+          })}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useCallback, useMemo, useState, type KeyboardEvent } from "react";
+import { useI18n } from "../i18n/I18nContext";
+import {
+  getIpFieldKinds,
+  getMacFieldOptions,
+  prepareFormValues,
+  serializeFormValues,
+  type FieldSchema,
+  type FormSchema,
+  type FormValues,
+  type IpFieldSchema,
+  type MacFieldSchema,
+} from "../utils/formSchema";
+import { getHistoryCommand } from "../utils/editHistory";
+import { buildExportData, type ExportData } from "../utils/networkExport";
+import type { SubmitResult } from "../utils/submission";
+import { useNetworkForm, type FieldBinding } from "../hooks/useNetworkForm";
+import { useFormDraft } from "../hooks/useFormDraft";
+import BulkImport, { type BulkImportEntries } from "./BulkImport";
+import ExportPanel from "./ExportPanel";
+import IpInput from "./IpInput";
+import MacInput from "./MacInput";
+import "./SchemaForm.css";
+
+interface SchemaFieldProps {
+  field: FieldSchema;
+  binding: FieldBinding;
+}
+
+/** Поле схемы — IpInput или MacInput с параметрами из описания. */
+function SchemaField({ field, binding }: SchemaFieldProps) {
+  const { t } = useI18n();
+  const kinds = useMemo(
+    () => (field.kind === "ip" ? getIpFieldKinds(field) : undefined),
+    [field],
+  );
+  const common = {
+    ...binding,
+    id: field.name,
+    label: field.label && t(field.label),
+    hint: field.hint && t(field.hint),
+    required: field.required,
+  };
+
+  if (field.kind === "mac") {
+    return (
+      <MacInput
+        {...common}
+        notations={field.notations}
+        length={field.length}
+        multiple={field.multiple}
+        mask={field.mask}
+      />
+    );
+  }
+  return (
+    <IpInput
+      {...common}
+      policy={field.policy}
+      strictCidr={field.strictCidr}
+      strictOverlaps={field.strictOverlaps}
+      ipv6Canonical={field.ipv6Canonical}
+      allowZones={field.allowZones}
+      allowShortRanges={field.allowShortRanges}
+      kinds={kinds}
+      versions={field.versions}
+    />
+  );
+}
+
+interface SchemaFormProps {
+  schema: FormSchema;
+  /**
+   * Валидные значения формы: MAC — в нотации outputNotation поля.
+   * Промис с результатом отправки: пока он не завершился, кнопка
+   * недоступна; ошибки сервера показываются под полями.
+   */
+  onSubmit: (
+    values: FormValues,
+    signal: AbortSignal,
+  ) => void | Promise<SubmitResult | void>;
+}
+
+/**
+ * Форма, построенная по декларативной схеме полей. В полях работают
+ * Ctrl+Z / Ctrl+Shift+Z — отмена и повтор правок всей формы.
+ */
+export default function SchemaForm({ schema, onSubmit }: SchemaFormProps) {
+  const { t, format, locale } = useI18n();
+  const names = useMemo(() => schema.fields.map((f) => f.name), [schema]);
+
+  // Импорт и экспорт работают с первым IP-полем и первым MAC-полем схемы.
+  const ipField = schema.fields.find(
+    (f): f is IpFieldSchema => f.kind === "ip",
+  );
+  const macField = schema.fields.find(
+    (f): f is MacFieldSchema => f.kind === "mac",
+  );
+  const ipOptions = useMemo(
+    () =>
+      ipField && {
+        allowZones: ipField.allowZones,
+        allowShortRanges: ipField.allowShortRanges,
+      },
+    [ipField],
+  );
+  const macOptions = useMemo(
+    () => macField && getMacFieldOptions(macField),
+    [macField],
+  );
+  const [exportData, setExportData] = useState<ExportData | null>(null);
+
+  const prepare = useCallback(
+    (values: FormValues) => prepareFormValues(schema, values),
+    [schema],
+  );
+  const submit = useCallback(
+    (values: FormValues, signal: AbortSignal) => {
+      const serialized = serializeFormValues(schema, values);
+      if (schema.export) {
+        setExportData(
+          buildExportData(
+            ipField ? serialized[ipField.name] : "",
+            macField ? serialized[macField.name] : "",
+            { ipOptions, macLength: macField?.length },
+          ),
+        );
+      }
+      return onSubmit(serialized, signal);
+    },
+    [schema, onSubmit, ipField, macField, ipOptions],
+  );
+
+  const form = useNetworkForm({ fields: names, prepare, onSubmit: submit });
+
+  const { setValues, undo, redo } = form;
+  const {
+    draft,
+    restore: restoreDraft,
+    discard: discardDraft,
+  } = useFormDraft(schema.draft, {
+    fields: names,
+    values: form.values,
+    submitted: form.submitted,
+    apply: setValues,
+  });
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLFormElement>) => {
+      // Только в полях схемы: у текста импорта и имени набора
+      // в экспорте своя отмена ввода.
+      const target = e.target;
+      if (!(target instanceof HTMLInputElement) || !names.includes(target.id)) {
+        return;
+      }
+      const command = getHistoryCommand(e);
+      if (!command) return;
+      e.preventDefault();
+      if (command === "undo") undo();
+      else redo();
+    },
+    [names, undo, redo],
+  );
+  const applyImport = useCallback(
+    ({ ips, macs }: BulkImportEntries) => {
+      const values: FormValues = {};
+      if (ipField && ips.length > 0) values[ipField.name] = ips.join(", ");
+      if (macField && macs.length > 0) values[macField.name] = macs.join(", ");
+      setValues(values);
+    },
+    [ipField, macField, setValues],
+  );
+
+  return (
+    <form
+      className="network-form"
+      onSubmit={form.handleSubmit}
+      onKeyDown={handleKeyDown}
+      noValidate
+    >
+      <h2>{t(schema.title)}</h2>
+
+      {draft && (
+        <div className="draft-prompt" role="status">
+          <span>
+            {t("draft.found", {
+              time: new Date(draft.savedAt).toLocaleString(locale),
+            })}
+          </span>
+          <button
+            type="button"
+            className="field__action"
+            onClick={restoreDraft}
+          >
+            {t("draft.restore")}
+          </button>
+          <button
+            type="button"
+            className="field__action"
+            onClick={discardDraft}
+          >
+            {t("draft.discard")}
+          </button>
+        </div>
+      )}
+
+      {schema.fields.map((field) => (
+        <SchemaField
+          key={field.name}
+          field={field}
+          binding={form.fields[field.name]}
+        />
+      ))}
+
+      {schema.bulkImport && (
+        <BulkImport
+          onApply={applyImport}
+          ipOptions={ipOptions}
+          macOptions={macOptions}
+        />
+      )}
+
+      <button type="submit" disabled={form.status === "pending"}>
+        {form.status === "pending"
+          ? t("submit.pending")
+          : t(schema.submit ?? "form.submit")}
+      </button>
+
+      {form.submitErrors.length > 0 && (
+        <div className="submit-error" role="alert">
+          {form.submitErrors.map((message, i) => (
+            <p key={i}>{format(message)}</p>
+          ))}
+        </div>
+      )}
+
+      {form.submitted && <p className="success">{t("form.success")}</p>}
+
+      {form.submitted && exportData && <ExportPanel data={exportData} />}
+    </form>
+  );
+}
@@ -0,0 +1,36 @@
+import { useI18n } from "../i18n/I18nContext";
+import type { MessageKey } from "../i18n/translate";
+import type { SubnetInfo } from "../utils/subnetCalculator";
+
+interface SubnetCalculatorProps {
+  info: SubnetInfo;
+}
+
+/** Панель с параметрами подсети под IP-полем. */
+export default function SubnetCalculator({ info }: SubnetCalculatorProps) {
+  const { t } = useI18n();
+
+  const rows: [MessageKey, string | null][] = [
+    ["subnet.network", `${info.network}/${info.prefix}`],
+    ["subnet.broadcast", info.broadcast],
+    ["subnet.firstHost", info.firstHost],
+    ["subnet.lastHost", info.lastHost],
+    ["subnet.netmask", info.netmask],
+    ["subnet.wildcard", info.wildcard],
+    ["subnet.hostCount", info.hostCount.toString()],
+    ["subnet.maskBinary", info.maskBinary],
+  ];
+
+  return (
+    <dl className="subnet-calc" aria-label={t("subnet.title")}>
+      {rows
+        .filter(([, value]) => value !== null)
+        .map(([key, value]) => (
+          <div key={key} className="subnet-calc__row">
+            <dt>{t(key)}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+    </dl>
+  );
+}
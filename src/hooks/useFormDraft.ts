@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from "react";
+import type { FormValues } from "../utils/formSchema";
+import {
+  getDraftValues,
+  loadDraft,
+  removeDraft,
+  saveDraft,
+  type FormDraft,
+} from "../utils/formDraft";
+
+export interface FormDraftOptions {
+  /** Имена полей формы; из черновика восстанавливаются только они */
+  fields: readonly string[];
+  /** Текущие значения — сохраняются при каждом изменении */
+  values: FormValues;
+  /** Форма успешно отправлена — черновик больше не нужен */
+  submitted: boolean;
+  /** Подставляет значения черновика в форму */
+  apply: (values: FormValues) => void;
+}
+
+export interface FormDraftState {
+  /**
+   * Черновик, найденный при открытии формы, — пока пользователь
+   * не решил, восстанавливать ли его
+   */
+  draft: FormDraft | null;
+  restore: () => void;
+  discard: () => void;
+}
+
+/**
+ * Черновик формы в localStorage. Значения сохраняются автоматически;
+ * найденный при открытии черновик сам не подставляется — форма
+ * предлагает его восстановить. Пока пользователь не ответил,
+ * сохранённый черновик не перезаписывается. id — ключ черновика;
+ * без него черновики отключены.
+ */
+export function useFormDraft(
+  id: string | undefined,
+  { fields, values, submitted, apply }: FormDraftOptions,
+): FormDraftState {
+  const [draft, setDraft] = useState(() => {
+    const found = id ? loadDraft(id) : null;
+    return found && getDraftValues(found, fields) ? found : null;
+  });
+
+  useEffect(() => {
+    if (id && !draft) saveDraft(id, values);
+  }, [id, draft, values]);
+
+  // Объявлен после автосохранения: при отправке без изменений
+  // значений черновик удаляется последним.
+  useEffect(() => {
+    if (id && submitted) removeDraft(id);
+  }, [id, submitted]);
+
+  const restore = useCallback(() => {
+    const restored = draft && getDraftValues(draft, fields);
+    if (restored) apply(restored);
+    setDraft(null);
+  }, [draft, fields, apply]);
+
+  // Текущие значения сохранятся поверх — или черновик удалится, если форма пуста.
+  const discard = useCallback(() => setDraft(null), []);
+
+  return { draft, restore, discard };
+}
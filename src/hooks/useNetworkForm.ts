@@ -0,0 +1,263 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type FormEvent,
+} from "react";
+import type { ValidationMessage } from "../i18n/translate";
+import {
+  canRedo,
+  canUndo,
+  createEditHistory,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+} from "../utils/editHistory";
+import type {
+  FieldErrors,
+  SubmitFailure,
+  SubmitResult,
+} from "../utils/submission";
+
+/** Значения формы по именам полей */
+export type NetworkFormValues = Record<string, string>;
+
+/** Всё, что нужно управляемому полю (IpInput, MacInput) от формы */
+export interface FieldBinding {
+  value: string;
+  onChange: (value: string) => void;
+  onValidityChange: (valid: boolean) => void;
+  submitCount: number;
+  /** Ошибка сервера для поля — пока значение то же, что было отправлено */
+  serverError: ValidationMessage | null;
+}
+
+/**
+ * idle    — ещё не отправляли
+ * pending — ждём ответа onSubmit
+ * success — отправка прошла
+ * failure — отправка отклонена (submitErrors, ошибки полей)
+ */
+export type SubmitStatus = "idle" | "pending" | "success" | "failure";
+
+export interface NetworkFormOptions {
+  /** Имена полей; массив должен быть стабильным (useMemo или константа) */
+  fields: readonly string[];
+  /**
+   * Приведение значений перед отправкой (например, канонизация IPv6).
+   * Результат записывается и в поля формы.
+   */
+  prepare?: (values: NetworkFormValues) => NetworkFormValues;
+  /**
+   * Вызывается только с валидными значениями. Может вернуть промис
+   * с результатом отправки — тогда форма ждёт его (status: "pending"),
+   * а ошибки сервера раскладывает по полям. signal отменяется, когда
+   * форма размонтируется.
+   */
+  onSubmit: (
+    values: NetworkFormValues,
+    signal: AbortSignal,
+  ) => void | Promise<SubmitResult | void>;
+}
+
+export interface NetworkForm {
+  /** Привязки полей по именам — для передачи в IpInput / MacInput */
+  fields: Record<string, FieldBinding>;
+  values: NetworkFormValues;
+  /** Все поля проходят полную проверку */
+  valid: boolean;
+  status: SubmitStatus;
+  /** Форма отправлена успешно, и значения с тех пор остаются валидными */
+  submitted: boolean;
+  /**
+   * Ошибки последней отправки, не привязанные к полям формы: общая
+   * ошибка и ошибки сервера для полей, которых в форме нет.
+   */
+  submitErrors: ValidationMessage[];
+  /** Заменяет значения перечисленных полей (например, при импорте) */
+  setValues: (values: NetworkFormValues) => void;
+  handleSubmit: (e: FormEvent) => void;
+  /** Отмена и повтор правок (см. utils/editHistory) */
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const keepValues = (values: NetworkFormValues) => values;
+
+const UNEXPECTED_FAILURE: SubmitFailure = {
+  ok: false,
+  error: { key: "submit.unexpected" },
+  fieldErrors: {},
+  retryable: false,
+};
+
+const NO_ERRORS: ValidationMessage[] = [];
+
+/** Ошибки полей, которые сервер вернул, и значения, которые он отклонил */
+interface Rejection {
+  values: NetworkFormValues;
+  errors: FieldErrors;
+}
+
+const NO_REJECTION: Rejection = { values: {}, errors: {} };
+
+/**
+ * Состояние формы из произвольного набора полей: значения, их
+ * валидность (её сообщают сами поля через useValidatedField)
+ * и отправка. Каждая попытка отправки увеличивает submitCount — поля
+ * показывают ошибки полной проверки; в onSubmit значения уходят,
+ * только если валидны все поля. Пока отправка не завершилась,
+ * повторная не начинается. Все изменения значений попадают в историю
+ * правок — их можно отменить и повторить.
+ */
+export function useNetworkForm({
+  fields,
+  prepare = keepValues,
+  onSubmit,
+}: NetworkFormOptions): NetworkForm {
+  const [history, setHistory] = useState(createEditHistory);
+  const [validity, setValidity] = useState<Record<string, boolean>>({});
+  const [submitCount, setSubmitCount] = useState(0);
+  const [status, setStatus] = useState<SubmitStatus>("idle");
+  const [rejection, setRejection] = useState(NO_REJECTION);
+  const [submitErrors, setSubmitErrors] = useState(NO_ERRORS);
+  // Контроллер текущей отправки: есть, пока ждём ответа.
+  const pending = useRef<AbortController | null>(null);
+
+  useEffect(() => () => pending.current?.abort(), []);
+
+  const stored = history.present;
+  const values = useMemo(
+    () => Object.fromEntries(fields.map((name) => [name, stored[name] ?? ""])),
+    [fields, stored],
+  );
+  const valid = fields.every((name) => validity[name] !== false);
+
+  // Обработчики стабильны, пока не меняется набор полей: поля
+  // сообщают о валидности из эффекта, зависящего от обработчика.
+  const handlers = useMemo(
+    () =>
+      Object.fromEntries(
+        fields.map((name) => [
+          name,
+          {
+            onChange: (value: string) => {
+              const edit = { field: name, time: Date.now() };
+              setHistory((prev) =>
+                recordEdit(prev, { ...prev.present, [name]: value }, edit),
+              );
+            },
+            onValidityChange: (fieldValid: boolean) =>
+              setValidity((prev) =>
+                prev[name] === fieldValid
+                  ? prev
+                  : { ...prev, [name]: fieldValid },
+              ),
+          },
+        ]),
+      ),
+    [fields],
+  );
+
+  const setValues = useCallback(
+    (next: NetworkFormValues) =>
+      setHistory((prev) => recordEdit(prev, { ...prev.present, ...next })),
+    [],
+  );
+
+  const undo = useCallback(() => setHistory(undoEdit), []);
+  const redo = useCallback(() => setHistory(redoEdit), []);
+
+  /** Итог отправки: ошибки сервера — полям формы, остальное — в submitErrors. */
+  const finish = useCallback(
+    (result: SubmitResult, sent: NetworkFormValues) => {
+      if (result.ok) {
+        setStatus("success");
+        setRejection(NO_REJECTION);
+        setSubmitErrors(NO_ERRORS);
+        return;
+      }
+      const own: FieldErrors = {};
+      const other: ValidationMessage[] = [result.error];
+      for (const [name, message] of Object.entries(result.fieldErrors)) {
+        if (fields.includes(name)) own[name] = message;
+        else
+          other.push({
+            key: "submit.fieldError",
+            params: { field: name, message },
+          });
+      }
+      setStatus("failure");
+      setRejection({ values: sent, errors: own });
+      setSubmitErrors(other);
+    },
+    [fields],
+  );
+
+  const handleSubmit = useCallback(
+    (e: FormEvent) => {
+      e.preventDefault();
+      if (pending.current) return;
+
+      const prepared = prepare(values);
+      setHistory((prev) => recordEdit(prev, { ...prev.present, ...prepared }));
+      setSubmitCount((n) => n + 1);
+      if (!valid) return;
+
+      const controller = new AbortController();
+      const result = onSubmit(prepared, controller.signal);
+      if (!(result instanceof Promise)) {
+        finish({ ok: true, data: null }, prepared);
+        return;
+      }
+
+      pending.current = controller;
+      setStatus("pending");
+      setSubmitErrors(NO_ERRORS);
+      void result
+        .then(
+          (outcome) => outcome ?? { ok: true as const, data: null },
+          () => UNEXPECTED_FAILURE,
+        )
+        .then((outcome) => {
+          // Форма размонтирована — результат уже никому не нужен.
+          if (controller.signal.aborted) return;
+          pending.current = null;
+          finish(outcome, prepared);
+        });
+    },
+    [values, valid, prepare, onSubmit, finish],
+  );
+
+  return {
+    fields: Object.fromEntries(
+      fields.map((name) => [
+        name,
+        {
+          value: values[name],
+          ...handlers[name],
+          submitCount,
+          serverError:
+            rejection.values[name] === values[name]
+              ? (rejection.errors[name] ?? null)
+              : null,
+        },
+      ]),
+    ),
+    values,
+    valid,
+    status,
+    submitted: status === "success" && valid,
+    submitErrors,
+    setValues,
+    handleSubmit,
+    undo,
+    redo,
+    canUndo: canUndo(history),
+    canRedo: canRedo(history),
+  };
+}
@@ -0,0 +1,102 @@
+import { useCallback, useMemo, useState } from "react";
+import type { ValidationMessage } from "../i18n/translate";
+import {
+  NO_ISSUES,
+  type FieldIssues,
+  type FieldValidator,
+} from "../utils/fieldValidators";
+
+/**
+ * typing    — пользователь вводит значение
+ * blurred   — покинул поле
+ * submitted — форма отправлена с текущим значением
+ */
+type FieldPhase = "typing" | "blurred" | "submitted";
+
+export interface ValidatedFieldOptions {
+  /** Пустое значение — ошибка (показывается после blur или отправки) */
+  required?: boolean;
+  /**
+   * Счётчик попыток отправки формы: при его изменении поле показывает
+   * ошибки полной проверки — до следующего ввода.
+   */
+  submitCount?: number;
+  /**
+   * Ошибка, которую сервер вернул для этого значения. Показывается,
+   * пока у поля нет своей ошибки; на валидность не влияет — значение
+   * можно отправить повторно.
+   */
+  serverError?: ValidationMessage | null;
+}
+
+export interface ValidatedField extends FieldIssues {
+  /** Значение отличается от исходного */
+  dirty: boolean;
+  /** Пользователь покидал поле или форма отправлялась */
+  touched: boolean;
+  /** Полная проверка пройдена — значение можно отправлять */
+  valid: boolean;
+  /** Ввод пользователя: снова действуют правила «при вводе» */
+  markEdited: () => void;
+  /** Уход с поля: действуют правила полной проверки */
+  markBlurred: () => void;
+}
+
+/**
+ * Состояние проверки поля, значением которого владеет вызывающий код.
+ * Правила для всех полей одни: при вводе — частичная проверка,
+ * после blur и при отправке — полная, с конкретным сообщением
+ * об ошибке. Валидность всегда считается по полной проверке.
+ * Валидатор должен быть стабильным (useMemo) — от него зависит кеш.
+ */
+export function useValidatedField(
+  value: string,
+  validator: FieldValidator,
+  {
+    required = false,
+    submitCount = 0,
+    serverError = null,
+  }: ValidatedFieldOptions = {},
+): ValidatedField {
+  const [initial] = useState(value);
+  const [phase, setPhase] = useState<FieldPhase>("typing");
+  const [touched, setTouched] = useState(false);
+  const [seenSubmit, setSeenSubmit] = useState(submitCount);
+
+  // Новая отправка формы: показываем ошибки полной проверки.
+  if (submitCount !== seenSubmit) {
+    setSeenSubmit(submitCount);
+    setPhase("submitted");
+    setTouched(true);
+  }
+
+  const full = useMemo(() => validator.full(value), [validator, value]);
+  const partial = useMemo(
+    () => (phase === "typing" ? validator.partial(value) : NO_ISSUES),
+    [validator, value, phase],
+  );
+
+  const isMissing = required && !value.trim();
+  let issues = phase === "typing" ? partial : full;
+  if (phase !== "typing" && !issues.error && isMissing) {
+    issues = { ...issues, error: { key: "common.required" } };
+  }
+  if (!issues.error && serverError) {
+    issues = { ...issues, error: serverError };
+  }
+
+  const markEdited = useCallback(() => setPhase("typing"), []);
+  const markBlurred = useCallback(() => {
+    setPhase("blurred");
+    setTouched(true);
+  }, []);
+
+  return {
+    ...issues,
+    dirty: value !== initial,
+    touched,
+    valid: full.error === null && !isMissing,
+    markEdited,
+    markBlurred,
+  };
+}
@@ -0,0 +1,31 @@
+import { createContext, useContext } from "react";
+import {
+  DEFAULT_LOCALE,
+  formatMessage,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+  type ValidationMessage,
+} from "./translate";
+
+export interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  /** Текст по ключу каталога в текущей локали */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  /** Текст сообщения валидатора в текущей локали */
+  format: (message: ValidationMessage) => string;
+}
+
+/** Значение по умолчанию: русская локаль без возможности переключения. */
+export const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: (key, params) => translate(DEFAULT_LOCALE, key, params),
+  format: (message) => formatMessage(DEFAULT_LOCALE, message),
+});
+
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
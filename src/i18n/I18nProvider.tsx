@@ -0,0 +1,33 @@
+import { useMemo, useState, type ReactNode } from "react";
+import { I18nContext, type I18nContextValue } from "./I18nContext";
+import {
+  DEFAULT_LOCALE,
+  formatMessage,
+  translate,
+  type Locale,
+} from "./translate";
+
+interface I18nProviderProps {
+  /** Начальная локаль (по умолчанию — русская) */
+  initialLocale?: Locale;
+  children: ReactNode;
+}
+
+export default function I18nProvider({
+  initialLocale = DEFAULT_LOCALE,
+  children,
+}: I18nProviderProps) {
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      format: (message) => formatMessage(locale, message),
+    }),
+    [locale],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,171 @@
+import type { Messages } from "../translate";
+
+/* ------------------------------------------------------------------ */
+/*  English message catalog                                           */
+/* ------------------------------------------------------------------ */
+
+export const en: Messages = {
+  // ---------- IP ----------
+  "ip.invalid": "Invalid IP address",
+  "ip.invalidFormat": "Invalid IP address format",
+  "ip.invalidSubnet": "Invalid subnet",
+  "ip.cidrHostBits": "Host bits are set in the subnet address",
+  "ip.cidrHostBitsFix": "{cidr}: host bits are set — did you mean {network}?",
+  "ip.rangeAllowed": "Allowed: an IPv4 or IPv6 range",
+  "ip.rangeOrder": "Range start must not be greater than range end",
+  "ip.versionMismatch": "IP versions must match",
+  "ip.zoneInvalid": "Invalid zone identifier",
+  "ip.zoneScope":
+    "A zone is only allowed on link-local and multicast IPv6 addresses",
+  "ip.zoneContext": "A zone (%…) is not allowed in ranges or subnets",
+  "ip.maskNonContiguous":
+    "Mask {mask} is not contiguous: its ones and zeros must not interleave",
+  "ip.maskAmbiguous":
+    "Mask {mask} can be either a netmask or a wildcard: use CIDR notation",
+  "ip.shortRangeTooLarge": "The pattern expands to more than {limit} ranges",
+  "ip.kind.single": "a single address",
+  "ip.kind.cidr": "a subnet",
+  "ip.kind.range": "a range",
+  "ip.kind.list": "a list",
+  "ip.kindNotAllowed": "{item}: {kind} is not allowed here",
+  "ip.listNotAllowed": "Only a single value is allowed",
+  "ip.versionNotAllowed": "{item}: IPv{version} is not allowed here",
+  "ip.policy.denied": "{address}: {category} is not allowed",
+  "ip.policy.warn": "{address}: {category}",
+  "ip.policy.notAllowed": "{address}: {category} is not in the allowed list",
+  "ip.overlap.duplicate": "{item} duplicates {other}",
+  "ip.overlap.contained": "{item} is already covered by {other}",
+  "ip.overlap.partial": "{item} overlaps {other}",
+  "ip.category.public": "public address",
+  "ip.category.unspecified": "unspecified address",
+  "ip.category.thisNetwork": '"this network" address',
+  "ip.category.private": "private address (RFC 1918)",
+  "ip.category.sharedAddress": "CGNAT address (RFC 6598)",
+  "ip.category.loopback": "loopback address",
+  "ip.category.linkLocal": "link-local address",
+  "ip.category.ietfProtocol": "IETF protocol address",
+  "ip.category.documentation": "documentation address",
+  "ip.category.benchmarking": "benchmarking address",
+  "ip.category.multicast": "multicast address",
+  "ip.category.broadcast": "broadcast address",
+  "ip.category.reserved": "reserved address",
+  "ip.category.uniqueLocal": "unique local address (ULA)",
+  "ip.category.ipv4Mapped": "IPv4-mapped address",
+  "ip.category.translation": "IPv4/IPv6 translation address",
+  "ip.category.discard": "discard-only address",
+  "ip.category.tunneling": "tunneling address",
+
+  // ---------- MAC ----------
+  "mac.invalid": "Invalid MAC address",
+  "mac.invalidList": "Invalid MAC address list format",
+  "mac.tooManySegments": "Too many MAC segments",
+  "mac.emptySegment": "Empty MAC segment in the middle",
+  "mac.invalidHex": "Invalid hex in MAC",
+  "mac.listNotAllowed": "Only a single MAC address is allowed",
+  "mac.warn.multicast": "{address} is a multicast address",
+  "mac.warn.broadcast": "{address} is the broadcast address",
+  "mac.warn.zero": "{address} is an all-zero address",
+  "mac.warn.local": "{address} is a locally administered address",
+
+  // ---------- Common ----------
+  "common.allowedChars":
+    'Only digits, letters "a-f", "A-F" and the characters .:/,- are allowed',
+  "common.required": "This field is required",
+
+  // ---------- Form ----------
+  "form.title": "Network parameters",
+  "form.ip.label": "IP address",
+  "form.ip.hint": "IPv4 / IPv6, CIDR, range (with «‑»), comma-separated list.",
+  "form.ip.summary": "Addresses covered: {count}",
+  "form.ip.normalize": "Normalize to CIDR",
+  "form.mac.label": "MAC address",
+  "form.mac.hint": "Formats: {formats}; comma-separated list",
+  "form.mac.hintSingle": "Formats: {formats}",
+  "form.fix": "Replace with {replacement}",
+  "form.submit": "Submit",
+  "form.success": "Data submitted successfully ✓",
+  "form.locale": "Language",
+
+  // ---------- Form presets ----------
+  "forms.gateway.title": "Default gateway",
+  "forms.gateway.ip": "Gateway address",
+  "forms.gateway.ipHint": "A single IPv4 or IPv6 address",
+  "forms.dns.title": "DNS servers",
+  "forms.dns.ip": "Server addresses",
+  "forms.dns.ipHint": "Comma-separated IPv4 or IPv6 addresses",
+  "forms.dhcp.title": "DHCP pool",
+  "forms.dhcp.pool": "Address pool",
+  "forms.dhcp.poolHint": "An IPv4 range (with «‑») or a subnet",
+  "forms.dhcp.gateway": "Gateway",
+  "forms.dhcp.dns": "DNS servers",
+  "forms.macs.title": "Allowed MAC addresses",
+  "forms.macs.mac": "MAC addresses",
+  "forms.vlan.title": "VLAN",
+  "forms.vlan.subnet": "Subnet",
+  "forms.vlan.subnetHint": "An IPv4 or IPv6 subnet: CIDR or address with mask",
+  "forms.vlan.gateway": "Gateway",
+
+  // ---------- Import ----------
+  "import.title": "Import a list",
+  "import.hint":
+    "Paste text or drop a file: CSV, one address per line, JSON, arp -a or ip neigh output",
+  "import.file": "File",
+  "import.run": "Parse",
+  "import.apply": "Fill the fields",
+  "import.format.csv": "CSV",
+  "import.format.text": "text",
+  "import.format.json": "JSON",
+  "import.summary":
+    "Format: {format}. Records: {records}, accepted: {accepted}. IP: {ips}, MAC: {macs}",
+  "import.record": "Record",
+  "import.source": "Source",
+  "import.result": "Result",
+  "import.accepted": "Accepted: {items}",
+  "import.rejected": "{token}: {reason}",
+  "import.noAddresses": "No addresses found",
+  "import.invalidJson": "Invalid JSON",
+  "import.readError": "Could not read the file",
+
+  // ---------- Export ----------
+  "export.title": "Export",
+  "export.format": "Format",
+  "export.name": "Set name",
+  "export.preview": "Preview",
+  "export.download": "Download",
+  "export.skipped": "Not included in this format: {items}",
+  "export.empty": "Nothing to export in this format",
+  "export.format.json": "JSON",
+  "export.format.csv": "CSV",
+  "export.format.yaml": "YAML",
+  "export.format.iptables": "ipset + iptables",
+  "export.format.nftables": "nftables",
+  "export.format.cisco": "Cisco ACL",
+  "export.format.dnsmasq": "dnsmasq",
+  "export.format.isc-dhcp": "ISC DHCP",
+
+  // ---------- Submission ----------
+  "submit.pending": "Submitting…",
+  "submit.server": "{message}",
+  "submit.rejected": "The server rejected the data",
+  "submit.httpError": "The server responded with error {status}",
+  "submit.networkError": "Cannot reach the server. Try submitting again",
+  "submit.aborted": "Submission cancelled",
+  "submit.unexpected": "Failed to submit the data",
+  "submit.fieldError": "{field}: {message}",
+
+  // ---------- Drafts ----------
+  "draft.found": "An unsaved draft from {time} was found",
+  "draft.restore": "Restore draft",
+  "draft.discard": "Discard draft",
+
+  // ---------- Subnet calculator ----------
+  "subnet.title": "Subnet calculator",
+  "subnet.network": "Network",
+  "subnet.broadcast": "Broadcast",
+  "subnet.firstHost": "First host",
+  "subnet.lastHost": "Last host",
+  "subnet.netmask": "Netmask",
+  "subnet.wildcard": "Wildcard mask",
+  "subnet.hostCount": "Usable hosts",
+  "subnet.maskBinary": "Mask (binary)",
+};
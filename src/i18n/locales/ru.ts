@@ -0,0 +1,173 @@
+/* ------------------------------------------------------------------ */
+/*  Русский каталог сообщений (локаль по умолчанию)                   */
+/*  Ключи этого каталога задают тип MessageKey: любая другая локаль   */
+/*  обязана перевести их все.                                         */
+/* ------------------------------------------------------------------ */
+
+export const ru = {
+  // ---------- IP ----------
+  "ip.invalid": "Некорректный IP-адрес",
+  "ip.invalidFormat": "Некорректный формат IP-адреса",
+  "ip.invalidSubnet": "Неверно определена подсеть",
+  "ip.cidrHostBits": "В адресе подсети установлены биты хоста",
+  "ip.cidrHostBitsFix":
+    "{cidr}: установлены биты хоста — возможно, имелось в виду {network}",
+  "ip.rangeAllowed": "Допустимый диапазон IPv4 или IPv6",
+  "ip.rangeOrder": "Неверный порядок IP в диапазоне",
+  "ip.versionMismatch": "IP версии должны совпадать",
+  "ip.zoneInvalid": "Некорректный идентификатор зоны",
+  "ip.zoneScope": "Зона допустима только у link-local и multicast IPv6-адресов",
+  "ip.zoneContext": "Зона (%…) не допускается в диапазонах и подсетях",
+  "ip.maskNonContiguous":
+    "Маска {mask} не непрерывна: единицы и нули в ней должны идти подряд",
+  "ip.maskAmbiguous":
+    "Маска {mask} может быть и сетевой, и обратной: запишите элемент в CIDR",
+  "ip.shortRangeTooLarge":
+    "Шаблон разворачивается больше чем в {limit} диапазонов",
+  "ip.kind.single": "одиночный адрес",
+  "ip.kind.cidr": "подсеть",
+  "ip.kind.range": "диапазон",
+  "ip.kind.list": "перечисление",
+  "ip.kindNotAllowed": "{item}: {kind} здесь не допускается",
+  "ip.listNotAllowed": "Допускается только одно значение",
+  "ip.versionNotAllowed": "{item}: IPv{version} здесь не допускается",
+  "ip.policy.denied": "{address}: {category} — такие адреса запрещены",
+  "ip.policy.warn": "{address}: {category}",
+  "ip.policy.notAllowed": "{address}: {category} — нет в списке разрешённых",
+  "ip.overlap.duplicate": "{item}: повторяет {other}",
+  "ip.overlap.contained": "{item}: уже входит в {other}",
+  "ip.overlap.partial": "{item}: пересекается с {other}",
+  "ip.category.public": "публичный адрес",
+  "ip.category.unspecified": "неопределённый адрес",
+  "ip.category.thisNetwork": "адрес «эта сеть»",
+  "ip.category.private": "частный адрес (RFC 1918)",
+  "ip.category.sharedAddress": "адрес CGNAT (RFC 6598)",
+  "ip.category.loopback": "адрес loopback",
+  "ip.category.linkLocal": "link-local адрес",
+  "ip.category.ietfProtocol": "служебный адрес IETF",
+  "ip.category.documentation": "адрес для документации",
+  "ip.category.benchmarking": "адрес для тестирования производительности",
+  "ip.category.multicast": "групповой (multicast) адрес",
+  "ip.category.broadcast": "широковещательный адрес",
+  "ip.category.reserved": "зарезервированный адрес",
+  "ip.category.uniqueLocal": "уникальный локальный адрес (ULA)",
+  "ip.category.ipv4Mapped": "IPv4-mapped адрес",
+  "ip.category.translation": "адрес трансляции IPv4/IPv6",
+  "ip.category.discard": "адрес для отбрасывания трафика",
+  "ip.category.tunneling": "адрес туннелирования",
+
+  // ---------- MAC ----------
+  "mac.invalid": "Некорректный MAC-адрес",
+  "mac.invalidList": "Некорректный формат списка MAC-адресов",
+  "mac.tooManySegments": "Слишком много сегментов MAC",
+  "mac.emptySegment": "Пустой сегмент MAC в середине",
+  "mac.invalidHex": "Неверный hex в MAC",
+  "mac.listNotAllowed": "Допускается только один MAC-адрес",
+  "mac.warn.multicast": "{address} — групповой (multicast) адрес",
+  "mac.warn.broadcast": "{address} — широковещательный адрес",
+  "mac.warn.zero": "{address} — нулевой адрес",
+  "mac.warn.local": "{address} — локально администрируемый адрес",
+
+  // ---------- Общие ----------
+  "common.allowedChars":
+    'Поле может содержать только цифры, буквы "a-f", "A-F" и символы .:/,-',
+  "common.required": "Обязательное поле",
+
+  // ---------- Форма ----------
+  "form.title": "Сетевые параметры",
+  "form.ip.label": "IP-адрес",
+  "form.ip.hint":
+    "IPv4 / IPv6, CIDR, диапазон (через «‑»), перечисление через запятую.",
+  "form.ip.summary": "Адресов в списке: {count}",
+  "form.ip.normalize": "Свести к CIDR",
+  "form.mac.label": "MAC-адрес",
+  "form.mac.hint": "Форматы: {formats}; перечисление через запятую",
+  "form.mac.hintSingle": "Форматы: {formats}",
+  "form.fix": "Заменить на {replacement}",
+  "form.submit": "Отправить",
+  "form.success": "Данные успешно отправлены ✓",
+  "form.locale": "Язык",
+
+  // ---------- Готовые формы ----------
+  "forms.gateway.title": "Шлюз по умолчанию",
+  "forms.gateway.ip": "Адрес шлюза",
+  "forms.gateway.ipHint": "Один адрес IPv4 или IPv6",
+  "forms.dns.title": "DNS-серверы",
+  "forms.dns.ip": "Адреса серверов",
+  "forms.dns.ipHint": "Адреса IPv4 или IPv6 через запятую",
+  "forms.dhcp.title": "Пул DHCP",
+  "forms.dhcp.pool": "Пул адресов",
+  "forms.dhcp.poolHint": "Диапазон IPv4 (через «‑») или подсеть",
+  "forms.dhcp.gateway": "Шлюз",
+  "forms.dhcp.dns": "DNS-серверы",
+  "forms.macs.title": "Разрешённые MAC-адреса",
+  "forms.macs.mac": "MAC-адреса",
+  "forms.vlan.title": "VLAN",
+  "forms.vlan.subnet": "Подсеть",
+  "forms.vlan.subnetHint": "Подсеть IPv4 или IPv6: CIDR или адрес с маской",
+  "forms.vlan.gateway": "Шлюз",
+
+  // ---------- Импорт ----------
+  "import.title": "Импорт списка",
+  "import.hint":
+    "Вставьте текст или перетащите файл: CSV, по адресу на строку, JSON, вывод arp -a или ip neigh",
+  "import.file": "Файл",
+  "import.run": "Разобрать",
+  "import.apply": "Заполнить поля",
+  "import.format.csv": "CSV",
+  "import.format.text": "текст",
+  "import.format.json": "JSON",
+  "import.summary":
+    "Формат: {format}. Записей: {records}, принято: {accepted}. IP: {ips}, MAC: {macs}",
+  "import.record": "Запись",
+  "import.source": "Исходный текст",
+  "import.result": "Результат",
+  "import.accepted": "Принято: {items}",
+  "import.rejected": "{token}: {reason}",
+  "import.noAddresses": "Адресов не найдено",
+  "import.invalidJson": "Некорректный JSON",
+  "import.readError": "Не удалось прочитать файл",
+
+  // ---------- Экспорт ----------
+  "export.title": "Экспорт",
+  "export.format": "Формат",
+  "export.name": "Имя набора",
+  "export.preview": "Предпросмотр",
+  "export.download": "Скачать",
+  "export.skipped": "Не вошло в этот формат: {items}",
+  "export.empty": "Для этого формата нет данных",
+  "export.format.json": "JSON",
+  "export.format.csv": "CSV",
+  "export.format.yaml": "YAML",
+  "export.format.iptables": "ipset + iptables",
+  "export.format.nftables": "nftables",
+  "export.format.cisco": "Cisco ACL",
+  "export.format.dnsmasq": "dnsmasq",
+  "export.format.isc-dhcp": "ISC DHCP",
+
+  // ---------- Отправка ----------
+  "submit.pending": "Отправка…",
+  "submit.server": "{message}",
+  "submit.rejected": "Сервер отклонил данные",
+  "submit.httpError": "Сервер ответил ошибкой {status}",
+  "submit.networkError": "Нет связи с сервером. Попробуйте отправить ещё раз",
+  "submit.aborted": "Отправка отменена",
+  "submit.unexpected": "Не удалось отправить данные",
+  "submit.fieldError": "{field}: {message}",
+
+  // ---------- Черновики ----------
+  "draft.found": "Найден несохранённый черновик от {time}",
+  "draft.restore": "Восстановить черновик",
+  "draft.discard": "Удалить черновик",
+
+  // ---------- Калькулятор подсети ----------
+  "subnet.title": "Калькулятор подсети",
+  "subnet.network": "Сеть",
+  "subnet.broadcast": "Широковещательный адрес",
+  "subnet.firstHost": "Первый узел",
+  "subnet.lastHost": "Последний узел",
+  "subnet.netmask": "Маска",
+  "subnet.wildcard": "Обратная маска",
+  "subnet.hostCount": "Адресов для узлов",
+  "subnet.maskBinary": "Маска (двоичная)",
+};
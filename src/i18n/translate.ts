@@ -0,0 +1,83 @@
+import { en } from "./locales/en";
+import { ru } from "./locales/ru";
+
+/* ------------------------------------------------------------------ */
+/*  Каталог сообщений и подстановка параметров                        */
+/* ------------------------------------------------------------------ */
+
+export type MessageKey = keyof typeof ru;
+export type Messages = Record<MessageKey, string>;
+export type ScalarParam = string | number | bigint;
+/**
+ * Параметр может быть и вложенным сообщением — например, названием
+ * категории адреса, которое тоже нужно перевести в текущую локаль.
+ */
+export type MessageParams = Record<string, ScalarParam | ValidationMessage>;
+
+/**
+ * Сообщение валидатора: ключ каталога и параметры подстановки.
+ * Валидаторы возвращают именно его, а текст получает уже UI
+ * через translate() / useI18n() в нужной локали.
+ */
+export interface ValidationMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export type Locale = "ru" | "en";
+
+export const DEFAULT_LOCALE: Locale = "ru";
+
+export const LOCALES: Record<Locale, Messages> = { ru, en };
+
+/**
+ * Строка — ключ каталога. Нужна для кодов, пришедших извне
+ * (например, от сервера), которым можно доверять только после проверки.
+ */
+export function isMessageKey(key: string): key is MessageKey {
+  return Object.hasOwn(LOCALES[DEFAULT_LOCALE], key);
+}
+
+/** Названия локалей на их собственном языке — для переключателя. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ru: "Русский",
+  en: "English",
+};
+
+/**
+ * Подставляет параметры в шаблон: {name} → params.name.
+ * Неизвестные плейсхолдеры остаются в тексте как есть.
+ */
+export function interpolate(
+  template: string,
+  params?: Record<string, ScalarParam>,
+): string {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
+
+/** Возвращает текст сообщения в заданной локали. */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params?: MessageParams,
+): string {
+  const template = LOCALES[locale][key] ?? LOCALES[DEFAULT_LOCALE][key];
+  if (!params) return template;
+  const resolved: Record<string, ScalarParam> = {};
+  for (const [name, param] of Object.entries(params)) {
+    resolved[name] =
+      typeof param === "object" ? formatMessage(locale, param) : param;
+  }
+  return interpolate(template, resolved);
+}
+
+/** То же, что translate(), но для готового ValidationMessage. */
+export function formatMessage(
+  locale: Locale,
+  message: ValidationMessage,
+): string {
+  return translate(locale, message.key, message.params);
+}
@@ -0,0 +1,60 @@
+/* ------------------------------------------------------------------ */
+/*  Локальный сервер для тестов отправки: реализация fetch, которая   */
+/*  записывает запросы и отвечает по заданному обработчику.           */
+/* ------------------------------------------------------------------ */
+
+export interface MockRequest {
+  method: string;
+  url: string;
+  /** Разобранное JSON-тело запроса */
+  body: unknown;
+}
+
+export interface MockReply {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/** Ответ на запрос; исключение из обработчика — сбой сети */
+export type MockHandler = (
+  request: MockRequest,
+  index: number,
+) => MockReply | Promise<MockReply>;
+
+export interface MockServer {
+  fetch: typeof fetch;
+  requests: MockRequest[];
+}
+
+export function createMockServer(
+  handler: MockHandler = () => ({ body: { ok: true } }),
+): MockServer {
+  const requests: MockRequest[] = [];
+
+  const mockFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request: MockRequest = {
+      method: init?.method ?? "GET",
+      url: String(input),
+      body: typeof init?.body === "string" ? JSON.parse(init.body) : null,
+    };
+    requests.push(request);
+
+    let reply: MockReply;
+    try {
+      reply = await handler(request, requests.length - 1);
+    } catch {
+      throw new TypeError("Failed to fetch");
+    }
+    if (init?.signal?.aborted) {
+      throw new DOMException("The operation was aborted.", "AbortError");
+    }
+    const { status = 200, body, headers } = reply;
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json", ...headers },
+    });
+  };
+
+  return { fetch: mockFetch, requests };
+}
@@ -1 +1,6 @@
 import "@testing-library/jest-dom/vitest";
+
+// Черновики форм сохраняются в localStorage — тесты не должны их видеть.
+afterEach(() => {
+  localStorage.clear();
+});
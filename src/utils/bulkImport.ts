@@ -0,0 +1,265 @@
+import type { ValidationMessage } from "../i18n/translate";
+import {
+  formatMac,
+  getIpFullError,
+  isMacValid,
+  MAC_NOTATIONS,
+  parseMac,
+  type IpOptions,
+  type MacNotation,
+  type MacOptions,
+} from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Импорт списков адресов                                            */
+/*  Операторы вставляют таблицы, выгрузки JSON и вывод `arp -a` /     */
+/*  `ip neigh`. Из каждой строки достаём токены, которые проходят     */
+/*  проверку IP или MAC; остальное считаем шумом. Токены, похожие     */
+/*  на адрес, но некорректные, попадают в отчёт с причиной.           */
+/* ------------------------------------------------------------------ */
+
+/**
+ * - csv:  таблица; ячейки в кавычках, разделители , ; и табуляция
+ * - text: по строке на запись (в том числе вывод arp -a, ip neigh)
+ * - json: строки из любых массивов и объектов
+ */
+export type ImportFormat = "csv" | "text" | "json";
+
+export const IMPORT_FORMATS: readonly ImportFormat[] = ["csv", "text", "json"];
+
+export interface ImportRejectedToken {
+  token: string;
+  message: ValidationMessage;
+}
+
+export interface ImportRecord {
+  /** Номер строки (с 1) или путь к значению в JSON: "hosts[2].mac" */
+  label: string;
+  /** Исходный текст записи */
+  source: string;
+  ips: string[];
+  macs: string[];
+  /** Похожие на адрес токены, не прошедшие проверку */
+  rejected: ImportRejectedToken[];
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  /** Ошибка разбора всего файла (некорректный JSON) */
+  error: ValidationMessage | null;
+  records: ImportRecord[];
+  /** Принятые IP без повторов, в порядке появления */
+  ips: string[];
+  /** Принятые MAC без повторов, в порядке появления */
+  macs: string[];
+}
+
+export interface ImportOptions {
+  /** Формат данных; по умолчанию определяется по имени файла и содержимому */
+  format?: ImportFormat;
+  fileName?: string;
+  /** Параметры IP-поля, которое заполняется импортом */
+  ip?: IpOptions;
+  /**
+   * Параметры MAC-поля, которое заполняется импортом. MAC в нотации,
+   * которую поле не принимает, приводятся к первой из допустимых.
+   */
+  mac?: MacOptions;
+}
+
+/** Запись принята, если в ней нашёлся хотя бы один адрес. */
+export function isRecordAccepted(record: ImportRecord): boolean {
+  return record.ips.length > 0 || record.macs.length > 0;
+}
+
+/** Формат по расширению файла, иначе — по содержимому. */
+export function detectImportFormat(
+  text: string,
+  fileName?: string,
+): ImportFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension === "json") return "json";
+  if (extension === "csv" || extension === "tsv") return "csv";
+  if (extension === "txt") return "text";
+
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed)) return "json";
+  if (/^"|[;\t]/.test(trimmed)) return "csv";
+  return "text";
+}
+
+/* ---------- Записи ---------- */
+
+interface RawRecord {
+  label: string;
+  source: string;
+}
+
+/** Непустые строки текста, кроме комментариев (#). */
+function splitLines(text: string): RawRecord[] {
+  const result: RawRecord[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const source = line.trim();
+    if (source && !source.startsWith("#")) {
+      result.push({ label: String(i + 1), source });
+    }
+  });
+  return result;
+}
+
+/** Строковые значения JSON с путями к ним; числа и прочее пропускаются. */
+function collectJsonStrings(
+  value: unknown,
+  path: string,
+  result: RawRecord[],
+): void {
+  if (typeof value === "string") {
+    if (value.trim()) result.push({ label: path || "$", source: value });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) =>
+      collectJsonStrings(item, `${path}[${i}]`, result),
+    );
+  } else if (value !== null && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      collectJsonStrings(item, path ? `${path}.${key}` : key, result);
+    }
+  }
+}
+
+/* ---------- Токены ---------- */
+
+// Кавычки, скобки и разделители ячеек CSV тоже разделяют токены,
+// поэтому CSV и текст разбираются одинаково.
+const TOKEN_SEPARATOR_RE = /[\s,;|()[\]{}<>"'=]+/;
+
+/** Точка или двоеточие в конце токена — пунктуация: "адрес 10.0.0.1." */
+const TRAILING_PUNCTUATION_RE = /[.:]+$/;
+
+const IPV4_LIKE_RE = /^\d{1,3}(\.\d{1,3}){3}(\/\d+)?(-\d{1,3}(\.\d{1,3}){3})?$/;
+const IPV6_LIKE_RE = /^[0-9a-fA-F:./%-]+$/;
+const MAC_GROUPS_RE = /^[0-9a-fA-F]{1,2}([:-][0-9a-fA-F]{1,2}){5,}$/;
+const MAC_LIKE_RE = /^[0-9a-zA-Z]{1,2}([:-][0-9a-zA-Z]{1,2}){5,}$/;
+const MAC_CISCO_LIKE_RE = /^[0-9a-fA-F]{4}(\.[0-9a-fA-F]{4}){2,}$/;
+
+/**
+ * macOS печатает в `arp -a` группы без ведущих нулей: "0:1b:2c:3d:4e:5".
+ * Дополняем такие группы до двух знаков.
+ */
+function padMacGroups(token: string): string {
+  if (!MAC_GROUPS_RE.test(token)) return token;
+  return token.replace(/[0-9a-fA-F]+/g, (group) => group.padStart(2, "0"));
+}
+
+function looksLikeIpv6(token: string): boolean {
+  return (
+    IPV6_LIKE_RE.test(token) &&
+    (token.includes("::") || token.split(":").length >= 8)
+  );
+}
+
+// Без нотации "bare": двенадцать hex-цифр подряд слишком часто
+// оказываются номером, идентификатором или хешем.
+const IMPORT_MAC_NOTATIONS = MAC_NOTATIONS.filter((n) => n !== "bare");
+
+interface TokenContext {
+  ip?: IpOptions;
+  mac: Required<MacOptions>;
+}
+
+/** MAC в нотации, которую принимает поле. */
+function toFieldMac(token: string, { mac }: TokenContext): string {
+  if (isMacValid(token, mac)) return token;
+  const octets = parseMac(token, { ...mac, notations: MAC_NOTATIONS });
+  const notation: MacNotation = mac.notations[0] ?? "hyphen";
+  return octets ? formatMac(octets, notation) : token;
+}
+
+function analyzeRecord(raw: RawRecord, context: TokenContext): ImportRecord {
+  const record: ImportRecord = { ...raw, ips: [], macs: [], rejected: [] };
+  const macOptions = { length: context.mac.length };
+
+  for (const part of raw.source.split(TOKEN_SEPARATOR_RE)) {
+    const token = part.replace(TRAILING_PUNCTUATION_RE, "");
+    if (!/[0-9a-fA-F]/.test(token) || !/[.:\-/]/.test(token)) continue;
+
+    // В раскладке поля — MAC, даже если это ещё и IPv6: EUI-64
+    // через двоеточие ("00:11:…:77") — тоже восемь групп IPv6.
+    if (isMacValid(token, context.mac)) {
+      record.macs.push(token);
+      continue;
+    }
+
+    const ipError = getIpFullError(token, context.ip);
+    if (ipError === null) {
+      record.ips.push(token);
+      continue;
+    }
+
+    const mac = padMacGroups(token);
+    if (isMacValid(mac, { ...macOptions, notations: IMPORT_MAC_NOTATIONS })) {
+      record.macs.push(toFieldMac(mac, context));
+      continue;
+    }
+
+    if (IPV4_LIKE_RE.test(token) || looksLikeIpv6(token)) {
+      record.rejected.push({ token, message: ipError });
+    } else if (MAC_LIKE_RE.test(token) || MAC_CISCO_LIKE_RE.test(token)) {
+      record.rejected.push({ token, message: { key: "mac.invalid" } });
+    }
+  }
+  return record;
+}
+
+/**
+ * Разбирает вставленный текст или содержимое файла: отчёт по каждой
+ * записи и принятые адреса без повторов.
+ */
+export function importAddresses(
+  text: string,
+  { fileName, ip, mac, ...options }: ImportOptions = {},
+): ImportResult {
+  const format = options.format ?? detectImportFormat(text, fileName);
+  const result: ImportResult = {
+    format,
+    error: null,
+    records: [],
+    ips: [],
+    macs: [],
+  };
+
+  let raws: RawRecord[];
+  if (format === "json") {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return { ...result, error: { key: "import.invalidJson" } };
+    }
+    raws = [];
+    collectJsonStrings(data, "", raws);
+  } else {
+    raws = splitLines(text);
+  }
+
+  const context: TokenContext = {
+    ip,
+    mac: {
+      notations: mac?.notations ?? MAC_NOTATIONS,
+      length: mac?.length ?? 6,
+    },
+  };
+  result.records = raws.map((raw) => analyzeRecord(raw, context));
+  result.ips = [...new Set(result.records.flatMap((r) => r.ips))];
+  // Один MAC в разных нотациях — тоже повтор.
+  const macs = new Map<string, string>();
+  for (const value of result.records.flatMap((r) => r.macs)) {
+    const octets = parseMac(value, {
+      ...context.mac,
+      notations: MAC_NOTATIONS,
+    });
+    const key = octets ? formatMac(octets) : value;
+    if (!macs.has(key)) macs.set(key, value);
+  }
+  result.macs = [...macs.values()];
+  return result;
+}
@@ -0,0 +1,85 @@
+import type { ValidationDiagnostic } from "./diagnostics";
+import {
+  formatIpValue,
+  getItemBounds,
+  parseIpItems,
+  type IpCidrItem,
+} from "./ipExpression";
+import {
+  getShortRangeNetwork,
+  hasShortRangeHostBits,
+  isIpValid,
+  parseIpv4ShortRange,
+  prefixToIpv4Mask,
+  splitList,
+  type IpOptions,
+  type ListItem,
+} from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Биты хоста в CIDR                                                 */
+/*  "192.168.1.77/24" формально корректен, но почти наверняка         */
+/*  пользователь имел в виду сеть "192.168.1.0/24".                    */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Адрес сети для CIDR-элемента: "192.168.1.77/24" → "192.168.1.0/24".
+ * Запись маски сохраняется: "10.0.0.9 0.0.0.255" → "10.0.0.0 0.0.0.255".
+ */
+export function getCidrNetwork(item: IpCidrItem): string {
+  const network = formatIpValue(item.version, getItemBounds(item)[0]);
+  return item.maskNotation
+    ? `${network} ${prefixToIpv4Mask(item.prefix, item.maskNotation)}`
+    : `${network}/${item.prefix}`;
+}
+
+function toDiagnostic(
+  { index, text, start, end }: ListItem,
+  network: string,
+): ValidationDiagnostic {
+  return {
+    code: "CIDR_HOST_BITS",
+    message: {
+      key: "ip.cidrHostBitsFix",
+      params: { cidr: text, network },
+    },
+    start,
+    end,
+    itemIndex: index,
+    fix: network,
+  };
+}
+
+/**
+ * Находит CIDR-элементы (и сокращённые диапазоны с префиксом, если
+ * поле их принимает) с ненулевыми битами хоста и предлагает для
+ * каждого исправление — адрес сети. Ошибка это или предупреждение
+ * (строгий режим), решает потребитель.
+ */
+export function getCidrHostBitsDiagnostics(
+  value: string,
+  options?: IpOptions,
+): ValidationDiagnostic[] {
+  const result: ValidationDiagnostic[] = [];
+
+  for (const item of parseIpItems(value, options)) {
+    if (item.kind !== "cidr") continue;
+    if (getItemBounds(item)[0] === BigInt(item.value)) continue;
+    const { index, source, start, end } = item;
+    result.push(
+      toDiagnostic({ index, text: source, start, end }, getCidrNetwork(item)),
+    );
+  }
+
+  if (options?.allowShortRanges) {
+    for (const item of splitList(value)) {
+      const range = parseIpv4ShortRange(item.text);
+      if (!range || !hasShortRangeHostBits(range)) continue;
+      if (!isIpValid(item.text, options)) continue;
+      result.push(toDiagnostic(item, getShortRangeNetwork(range)));
+    }
+    result.sort((a, b) => a.itemIndex - b.itemIndex);
+  }
+
+  return result;
+}
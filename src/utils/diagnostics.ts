@@ -0,0 +1,194 @@
+import type { ValidationMessage } from "../i18n/translate";
+import {
+  getErrorCode,
+  getIpItemOptions,
+  getIpFullError,
+  getIpPartialError,
+  getMacDisallowedCharRe,
+  getMacFullError,
+  getMacPartialError,
+  isMacValid,
+  splitList,
+  type IpOptions,
+  type ListItem,
+  type MacOptions,
+  type ValidationErrorCode,
+} from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Диагностика ошибок с позициями                                    */
+/*  В отличие от getIpPartialError / getMacPartialError, которые      */
+/*  отдают одно сообщение, здесь возвращается список проблем с точным */
+/*  указанием элемента списка и символов, к которым они относятся.    */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Коды замечаний о *корректном* значении (классификация адресов и т.п.).
+ * Будет ли замечание ошибкой или предупреждением, решает потребитель.
+ */
+export type ValidationNoticeCode =
+  | "MAC_MULTICAST"
+  | "MAC_BROADCAST"
+  | "MAC_ZERO"
+  | "MAC_LOCAL"
+  | "MAC_LIST"
+  | "IP_CATEGORY"
+  | "IP_NOT_ALLOWED"
+  | "IP_DUPLICATE"
+  | "IP_CONTAINED"
+  | "IP_OVERLAP"
+  | "IP_KIND"
+  | "IP_VERSION";
+
+export type DiagnosticCode = ValidationErrorCode | ValidationNoticeCode;
+
+export interface ValidationDiagnostic {
+  code: DiagnosticCode;
+  /** Ключ сообщения и параметры — текст получает UI в нужной локали */
+  message: ValidationMessage;
+  /** Смещение начала проблемного фрагмента в исходной строке */
+  start: number;
+  /** Смещение сразу после конца проблемного фрагмента */
+  end: number;
+  /** Номер элемента списка через запятую (-1 — ошибка всего значения) */
+  itemIndex: number;
+  /** Предлагаемая замена фрагмента start…end («возможно, имелось в виду») */
+  fix?: string;
+}
+
+/**
+ * partial — проверка при вводе (последний элемент может быть недописан),
+ * full — проверка при blur / сабмите.
+ */
+export type DiagnosticsMode = "partial" | "full";
+
+const IP_DISALLOWED_CHAR_RE = /[^0-9a-fA-F:.\s/-]/;
+
+function makeDiagnostic(
+  message: ValidationMessage,
+  item: ListItem,
+  value: string,
+  disallowed: RegExp,
+): ValidationDiagnostic {
+  const code = getErrorCode(message.key);
+  let { start, end } = item;
+
+  if (!item.text) {
+    // Пустой элемент подсвечиваем вместе с предшествующей ему запятой.
+    start = Math.max(value.lastIndexOf(",", start), 0);
+    end = start + 1;
+  } else if (code === "ALLOWED_CHARS") {
+    // Для недопустимых символов указываем на первый такой символ.
+    const match = disallowed.exec(item.text);
+    if (match) {
+      start = item.start + match.index;
+      end = start + 1;
+    }
+  }
+
+  return { code, message, start, end, itemIndex: item.index };
+}
+
+function wholeValueDiagnostic(
+  message: ValidationMessage,
+  value: string,
+): ValidationDiagnostic {
+  const start = value.length - value.trimStart().length;
+  return {
+    code: getErrorCode(message.key),
+    message,
+    start,
+    end: value.trimEnd().length,
+    itemIndex: -1,
+  };
+}
+
+/** Элемент завершённой части списка хотя бы внешне похож на IP. */
+function looksLikeIp(text: string): boolean {
+  return /[.:/-]/.test(text);
+}
+
+/**
+ * Диагностика IP-поля. Пустой массив означает отсутствие ошибок.
+ * Каждая запись указывает на конкретный элемент списка через запятую.
+ */
+export function getIpDiagnostics(
+  value: string,
+  mode: DiagnosticsMode = "partial",
+  options?: IpOptions,
+): ValidationDiagnostic[] {
+  const wholeError =
+    mode === "full"
+      ? getIpFullError(value, options)
+      : getIpPartialError(value, options);
+  if (!wholeError) return [];
+
+  const items = splitList(value);
+  const lastIndex = items.length - 1;
+  const itemOptions = getIpItemOptions(value, options);
+  const result: ValidationDiagnostic[] = [];
+
+  for (const item of items) {
+    const isLast = item.index === lastIndex;
+    let message: ValidationMessage | null = null;
+
+    if (!item.text) {
+      if (mode === "full" || !isLast) message = { key: "ip.invalid" };
+    } else if (mode === "full") {
+      message = getIpFullError(item.text, itemOptions);
+    } else {
+      message = getIpPartialError(item.text, itemOptions);
+      if (!message && !isLast && !looksLikeIp(item.text)) {
+        message = { key: "ip.invalidFormat" };
+      }
+    }
+
+    if (message) {
+      result.push(makeDiagnostic(message, item, value, IP_DISALLOWED_CHAR_RE));
+    }
+  }
+
+  return result.length ? result : [wholeValueDiagnostic(wholeError, value)];
+}
+
+/**
+ * Диагностика MAC-поля. В режиме partial все элементы, кроме последнего,
+ * должны быть полными MAC-адресами; последний может быть недописан.
+ */
+export function getMacDiagnostics(
+  value: string,
+  mode: DiagnosticsMode = "partial",
+  options?: MacOptions,
+): ValidationDiagnostic[] {
+  const wholeError =
+    mode === "full"
+      ? getMacFullError(value, options)
+      : getMacPartialError(value, options);
+  if (!wholeError) return [];
+
+  const disallowed = getMacDisallowedCharRe(options);
+  const items = splitList(value);
+  const lastIndex = items.length - 1;
+  const result: ValidationDiagnostic[] = [];
+
+  for (const item of items) {
+    const isLast = item.index === lastIndex;
+    let message: ValidationMessage | null = null;
+
+    if (!item.text) {
+      if (mode === "full" || !isLast) message = { key: "mac.invalid" };
+    } else {
+      message = getMacPartialError(item.text, options);
+      const mustBeFull = mode === "full" || !isLast;
+      if (!message && mustBeFull && !isMacValid(item.text, options)) {
+        message = { key: "mac.invalid" };
+      }
+    }
+
+    if (message) {
+      result.push(makeDiagnostic(message, item, value, disallowed));
+    }
+  }
+
+  return result.length ? result : [wholeValueDiagnostic(wholeError, value)];
+}
@@ -0,0 +1,150 @@
+import type { FormValues } from "./formSchema";
+
+/* ------------------------------------------------------------------ */
+/*  История правок формы                                              */
+/*  Каждая запись — снимок значений всех полей. Нажатия клавиш в      */
+/*  одном поле склеиваются в одну запись, пока пользователь печатает  */
+/*  без пауз; разделитель списка (запятая, пробел) начинает новую —   */
+/*  так отмена убирает последний введённый адрес, а не один символ.   */
+/* ------------------------------------------------------------------ */
+
+/** Сколько записей хранится для отмены */
+export const HISTORY_LIMIT = 100;
+
+/** Пауза в наборе, после которой начинается новая запись, мс */
+export const GROUP_TIMEOUT = 1000;
+
+type KeystrokeKind = "insert" | "delete";
+
+interface EditGroup {
+  field: string;
+  kind: KeystrokeKind;
+  time: number;
+}
+
+export interface EditHistory {
+  past: FormValues[];
+  present: FormValues;
+  future: FormValues[];
+  /** Запись, в которую ещё можно дописывать нажатия клавиш */
+  group: EditGroup | null;
+}
+
+export interface EditInfo {
+  /** Поле, которое изменил пользователь; без него правка — отдельная запись */
+  field?: string;
+  /** Время правки, мс (по умолчанию — сейчас) */
+  time?: number;
+}
+
+export function createEditHistory(values: FormValues = {}): EditHistory {
+  return { past: [], present: values, future: [], group: null };
+}
+
+export const canUndo = (history: EditHistory) => history.past.length > 0;
+export const canRedo = (history: EditHistory) => history.future.length > 0;
+
+const SEPARATOR_RE = /[\s,;]/;
+
+interface Keystroke {
+  kind: KeystrokeKind;
+  /** Введён разделитель после адреса — начало следующего элемента */
+  separator: boolean;
+}
+
+/** Правка в один символ (ввод или удаление), иначе null. */
+function getKeystroke(before: string, after: string): Keystroke | null {
+  const [longer, shorter] =
+    after.length > before.length ? [after, before] : [before, after];
+  if (longer.length - shorter.length !== 1) return null;
+
+  let i = 0;
+  while (i < shorter.length && longer[i] === shorter[i]) i++;
+  if (longer.slice(i + 1) !== shorter.slice(i)) return null;
+
+  const kind = after.length > before.length ? "insert" : "delete";
+  const separator =
+    kind === "insert" &&
+    SEPARATOR_RE.test(longer[i]) &&
+    i > 0 &&
+    !SEPARATOR_RE.test(longer[i - 1]);
+  return { kind, separator };
+}
+
+function isSameValues(a: FormValues, b: FormValues): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) => (a[key] ?? "") === (b[key] ?? ""));
+}
+
+/** Новые значения формы: продолжение текущей записи или новая запись. */
+export function recordEdit(
+  history: EditHistory,
+  values: FormValues,
+  { field, time = Date.now() }: EditInfo = {},
+): EditHistory {
+  if (isSameValues(history.present, values)) return history;
+
+  const keystroke =
+    field === undefined
+      ? null
+      : getKeystroke(history.present[field] ?? "", values[field] ?? "");
+  const group: EditGroup | null =
+    keystroke && field !== undefined
+      ? { field, kind: keystroke.kind, time }
+      : null;
+
+  const previous = history.group;
+  const continues =
+    group !== null &&
+    previous !== null &&
+    !keystroke?.separator &&
+    previous.field === group.field &&
+    previous.kind === group.kind &&
+    time - previous.time < GROUP_TIMEOUT;
+
+  if (continues) {
+    return { ...history, present: values, future: [], group };
+  }
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: values,
+    future: [],
+    group,
+  };
+}
+
+export function undoEdit(history: EditHistory): EditHistory {
+  if (!canUndo(history)) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    group: null,
+  };
+}
+
+export function redoEdit(history: EditHistory): EditHistory {
+  if (!canRedo(history)) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    group: null,
+  };
+}
+
+export type HistoryCommand = "undo" | "redo";
+
+type ShortcutEvent = Pick<
+  KeyboardEvent,
+  "key" | "ctrlKey" | "metaKey" | "shiftKey" | "altKey"
+>;
+
+/** Ctrl+Z — отменить; Ctrl+Shift+Z и Ctrl+Y — повторить (на macOS — ⌘). */
+export function getHistoryCommand(e: ShortcutEvent): HistoryCommand | null {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return null;
+  const key = e.key.toLowerCase();
+  if (key === "z") return e.shiftKey ? "redo" : "undo";
+  if (key === "y" && !e.shiftKey) return "redo";
+  return null;
+}
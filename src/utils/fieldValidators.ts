@@ -0,0 +1,189 @@
+import type { ValidationMessage } from "../i18n/translate";
+import {
+  getIpDiagnostics,
+  getMacDiagnostics,
+  type DiagnosticsMode,
+  type ValidationDiagnostic,
+} from "./diagnostics";
+import { checkIpPolicy, type IpPolicy } from "./ipPolicy";
+import { getCidrHostBitsDiagnostics } from "./cidrHostBits";
+import { getIpOverlapDiagnostics } from "./ipOverlap";
+import {
+  getIpConstraintDiagnostics,
+  type IpConstraints,
+} from "./ipConstraints";
+import { getMacWarnings } from "./macClassification";
+import {
+  getIpFullError,
+  getIpPartialError,
+  getMacFullError,
+  getMacPartialError,
+  splitList,
+  type IpOptions,
+  type MacOptions,
+} from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Проверки полей формы                                              */
+/*  Валидатор поля отвечает на два вопроса: что показать, пока        */
+/*  пользователь вводит значение (partial), и что — после blur или    */
+/*  при отправке (full). Когда какую проверку звать, решает           */
+/*  useValidatedField.                                                */
+/* ------------------------------------------------------------------ */
+
+export interface FieldIssues {
+  /** Ошибка (null — нет ошибки) */
+  error: ValidationMessage | null;
+  /** Позиции ошибочных фрагментов */
+  diagnostics: ValidationDiagnostic[];
+  /** Предупреждения (не блокируют отправку) */
+  warnings: ValidationDiagnostic[];
+}
+
+export const NO_ISSUES: FieldIssues = {
+  error: null,
+  diagnostics: [],
+  warnings: [],
+};
+
+export interface FieldValidator {
+  /** Проверка при вводе: недописанное значение допустимо */
+  partial: (value: string) => FieldIssues;
+  /** Проверка при blur и отправке: значение должно быть полным */
+  full: (value: string) => FieldIssues;
+}
+
+/* ---------- IP ---------- */
+
+export interface IpCheckOptions extends IpOptions, IpConstraints {
+  policy?: IpPolicy;
+  strictOverlaps?: boolean;
+}
+
+/**
+ * Проверка IP: сначала синтаксис, затем ограничения поля, политика
+ * адресов, биты хоста в CIDR и пересечения элементов. Нарушения
+ * ограничений и политики с действием deny, а также замечания в строгих
+ * режимах идут тем же путём, что и синтаксические ошибки, остальное —
+ * в предупреждения.
+ */
+function analyzeIp(
+  value: string,
+  mode: DiagnosticsMode,
+  {
+    policy,
+    strictCidr,
+    strictOverlaps,
+    allowZones,
+    allowShortRanges,
+    kinds,
+    versions,
+  }: IpCheckOptions,
+): FieldIssues {
+  if (!value) return NO_ISSUES;
+
+  const options: IpOptions = { allowZones, allowShortRanges };
+  const { errors, warnings } = policy
+    ? checkIpPolicy(value, policy, options)
+    : { errors: [], warnings: [] };
+  errors.unshift(
+    ...getIpConstraintDiagnostics(value, { kinds, versions }, options),
+  );
+  // Строгий CIDR — только в полной проверке: при вводе "192.168.1.0/2"
+  // ещё не дописан до "/24", и ошибка про биты хоста была бы ложной.
+  const hostBits = getCidrHostBitsDiagnostics(value, options);
+  (strictCidr && mode === "full" ? errors : warnings).push(...hostBits);
+  const overlaps = getIpOverlapDiagnostics(value, options);
+  (strictOverlaps ? errors : warnings).push(...overlaps);
+
+  // Сообщение частичной проверки конкретнее, поэтому и в полной
+  // проверке оно идёт первым.
+  const partialError = getIpPartialError(value, options);
+  if (partialError) {
+    return {
+      error: partialError,
+      diagnostics: getIpDiagnostics(value, "partial", options),
+      warnings,
+    };
+  }
+  const fullError = mode === "full" ? getIpFullError(value, options) : null;
+  if (fullError) {
+    return {
+      error: fullError,
+      diagnostics: getIpDiagnostics(value, "full", options),
+      warnings,
+    };
+  }
+  if (errors.length > 0) {
+    return { error: errors[0].message, diagnostics: errors, warnings };
+  }
+  return { error: null, diagnostics: [], warnings };
+}
+
+export function createIpValidator(check: IpCheckOptions = {}): FieldValidator {
+  return {
+    partial: (value) => analyzeIp(value, "partial", check),
+    full: (value) => analyzeIp(value, "full", check),
+  };
+}
+
+/* ---------- MAC ---------- */
+
+export interface MacCheckOptions extends MacOptions {
+  /** Разрешить несколько адресов через запятую; по умолчанию — да */
+  multiple?: boolean;
+}
+
+/** Лишние элементы списка, когда поле принимает один адрес. */
+function getMacListDiagnostics(value: string): ValidationDiagnostic[] {
+  return splitList(value)
+    .slice(1)
+    .filter((item) => item.text)
+    .map((item) => ({
+      code: "MAC_LIST",
+      message: { key: "mac.listNotAllowed" },
+      start: item.start,
+      end: item.end,
+      itemIndex: item.index,
+    }));
+}
+
+function analyzeMac(
+  value: string,
+  mode: DiagnosticsMode,
+  { multiple = true, ...options }: MacCheckOptions,
+): FieldIssues {
+  if (!value) return NO_ISSUES;
+
+  const warnings = getMacWarnings(value, options);
+  const partialError = getMacPartialError(value, options);
+  if (partialError) {
+    return {
+      error: partialError,
+      diagnostics: getMacDiagnostics(value, "partial", options),
+      warnings,
+    };
+  }
+  const fullError = mode === "full" ? getMacFullError(value, options) : null;
+  if (fullError) {
+    return {
+      error: fullError,
+      diagnostics: getMacDiagnostics(value, "full", options),
+      warnings,
+    };
+  }
+  const errors = multiple ? [] : getMacListDiagnostics(value);
+  if (errors.length > 0) {
+    return { error: errors[0].message, diagnostics: errors, warnings };
+  }
+  return { error: null, diagnostics: [], warnings };
+}
+
+export function createMacValidator(
+  options: MacCheckOptions = {},
+): FieldValidator {
+  return {
+    partial: (value) => analyzeMac(value, "partial", options),
+    full: (value) => analyzeMac(value, "full", options),
+  };
+}
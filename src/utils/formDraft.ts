@@ -0,0 +1,143 @@
+import { z } from "zod";
+import type { FormValues } from "./formSchema";
+
+/* ------------------------------------------------------------------ */
+/*  Черновики форм в localStorage                                     */
+/*  Черновик хранится в конверте с номером версии. Старые версии      */
+/*  приводятся к текущей цепочкой миграций, а при восстановлении      */
+/*  берутся только поля, которые есть в форме сейчас: удалённое или   */
+/*  переименованное поле не ломает черновик, его значение             */
+/*  просто не восстанавливается.                                      */
+/* ------------------------------------------------------------------ */
+
+/** Текущая версия формата. Меняя формат, добавьте миграцию в MIGRATIONS. */
+export const DRAFT_VERSION = 1;
+
+const DRAFT_KEY_PREFIX = "network-parameters:draft:";
+
+const DraftSchema = z.object({
+  version: z.literal(DRAFT_VERSION),
+  /** Время сохранения, ISO 8601 */
+  savedAt: z.string(),
+  values: z.record(z.string(), z.string()),
+});
+
+export type FormDraft = z.infer<typeof DraftSchema>;
+
+/**
+ * Миграции: MIGRATIONS[n] превращает черновик версии n в версию n + 1.
+ * Пока формат один, цепочка пуста.
+ */
+const MIGRATIONS: Record<number, (draft: Record<string, unknown>) => unknown> =
+  {};
+
+/** Хранилище — интерфейс localStorage; в тестах его можно подменить */
+export type DraftStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export function getDraftStorageKey(id: string): string {
+  return DRAFT_KEY_PREFIX + id;
+}
+
+/** Черновик из сохранённого текста, приведённый к текущей версии. */
+export function parseDraft(text: string | null): FormDraft | null {
+  if (!text) return null;
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  for (;;) {
+    if (data === null || typeof data !== "object") return null;
+    const { version } = data as { version?: unknown };
+    if (typeof version !== "number" || version === DRAFT_VERSION) break;
+    const migrate = MIGRATIONS[version];
+    // Черновик из более новой версии приложения или без миграции.
+    if (!migrate) return null;
+    data = migrate(data as Record<string, unknown>);
+  }
+
+  const result = DraftSchema.safeParse(data);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Значения черновика для полей формы: неизвестные поля отбрасываются,
+ * недостающие остаются пустыми. null — восстанавливать нечего.
+ */
+export function getDraftValues(
+  draft: FormDraft,
+  fields: readonly string[],
+): FormValues | null {
+  const values: FormValues = {};
+  for (const name of fields) {
+    const value = draft.values[name];
+    if (value) values[name] = value;
+  }
+  return Object.keys(values).length > 0 ? values : null;
+}
+
+export function serializeDraft(
+  values: FormValues,
+  savedAt = new Date(),
+): string {
+  const draft: FormDraft = {
+    version: DRAFT_VERSION,
+    savedAt: savedAt.toISOString(),
+    values,
+  };
+  return JSON.stringify(draft);
+}
+
+/* ---------- Хранилище ---------- */
+
+// localStorage может быть недоступен (приватный режим, запрет
+// в настройках) или переполнен — тогда черновики просто не работают.
+
+function getLocalStorage(): DraftStorage | null {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+export function loadDraft(
+  id: string,
+  storage = getLocalStorage(),
+): FormDraft | null {
+  try {
+    return parseDraft(storage?.getItem(getDraftStorageKey(id)) ?? null);
+  } catch {
+    return null;
+  }
+}
+
+/** Сохраняет непустые значения; если все поля пусты — удаляет черновик. */
+export function saveDraft(
+  id: string,
+  values: FormValues,
+  storage = getLocalStorage(),
+): void {
+  const filled = Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value.trim()),
+  );
+  if (Object.keys(filled).length === 0) {
+    removeDraft(id, storage);
+    return;
+  }
+  try {
+    storage?.setItem(getDraftStorageKey(id), serializeDraft(filled));
+  } catch {
+    // Нет места — черновик не сохраняется.
+  }
+}
+
+export function removeDraft(id: string, storage = getLocalStorage()): void {
+  try {
+    storage?.removeItem(getDraftStorageKey(id));
+  } catch {
+    // Хранилище недоступно — удалять нечего.
+  }
+}
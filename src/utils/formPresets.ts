@@ -0,0 +1,192 @@
+import type { FormSchema } from "./formSchema";
+import type { IpPolicy } from "./ipPolicy";
+import { MAC_NOTATIONS, type MacLength, type MacNotation } from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Готовые формы                                                     */
+/* ------------------------------------------------------------------ */
+
+export interface NetworkFormSchemaOptions {
+  /** Нотации MAC, которые принимает поле (по умолчанию — все) */
+  macNotations?: readonly MacNotation[];
+  /** Нотация, к которой приводятся MAC при отправке */
+  macOutputNotation?: MacNotation;
+  /** Длина аппаратного адреса: 6 (EUI-48), 8 (EUI-64), 20 (InfiniBand) */
+  macLength?: MacLength;
+  /** Маска ввода MAC: разделители групп и запятые расставляются сами */
+  macMask?: boolean;
+  /** Политика допустимых IP: запрет или предупреждение по категориям */
+  ipPolicy?: IpPolicy;
+  /** Строгий CIDR: биты хоста ниже префикса — ошибка, а не предупреждение */
+  strictCidr?: boolean;
+  /** Повторы и пересечения элементов IP — ошибка, а не предупреждение */
+  strictOverlaps?: boolean;
+  /**
+   * Когда приводить IPv6 к канонической записи RFC 5952: при уходе
+   * с поля (по умолчанию) или только при отправке. Во время ввода
+   * значение не переписывается, чтобы не сбивать курсор.
+   */
+  ipv6Canonical?: "blur" | "submit";
+  /** Разрешить зоны у link-local и multicast IPv6: "fe80::1%eth0" */
+  allowIpZones?: boolean;
+  /** Разрешить сокращённые диапазоны IPv4: "192.168.1.10-50", "10.0.*.1" */
+  allowShortIpRanges?: boolean;
+}
+
+/** Форма «Сетевые параметры»: список IP и список MAC. */
+export function createNetworkFormSchema({
+  macNotations = MAC_NOTATIONS,
+  macOutputNotation = "hyphen",
+  macLength = 6,
+  macMask = false,
+  ipPolicy,
+  strictCidr = false,
+  strictOverlaps = false,
+  ipv6Canonical = "blur",
+  allowIpZones = false,
+  allowShortIpRanges = false,
+}: NetworkFormSchemaOptions = {}): FormSchema {
+  return {
+    title: "form.title",
+    draft: "network",
+    bulkImport: true,
+    export: true,
+    fields: [
+      {
+        kind: "ip",
+        name: "ip",
+        policy: ipPolicy,
+        strictCidr,
+        strictOverlaps,
+        ipv6Canonical,
+        allowZones: allowIpZones,
+        allowShortRanges: allowShortIpRanges,
+      },
+      {
+        kind: "mac",
+        name: "mac",
+        notations: macNotations,
+        length: macLength,
+        outputNotation: macOutputNotation,
+        mask: macMask,
+      },
+    ],
+  };
+}
+
+/** Шлюз по умолчанию: один адрес. */
+export const GATEWAY_FORM: FormSchema = {
+  title: "forms.gateway.title",
+  draft: "gateway",
+  fields: [
+    {
+      kind: "ip",
+      name: "gateway",
+      label: "forms.gateway.ip",
+      hint: "forms.gateway.ipHint",
+      required: true,
+      multiple: false,
+      kinds: ["single"],
+    },
+  ],
+};
+
+/** DNS-серверы: список одиночных адресов. */
+export const DNS_FORM: FormSchema = {
+  title: "forms.dns.title",
+  draft: "dns",
+  bulkImport: true,
+  export: true,
+  fields: [
+    {
+      kind: "ip",
+      name: "servers",
+      label: "forms.dns.ip",
+      hint: "forms.dns.ipHint",
+      required: true,
+      kinds: ["single", "list"],
+      strictOverlaps: true,
+    },
+  ],
+};
+
+/** Пул DHCP: диапазон или подсеть IPv4, шлюз и DNS-серверы. */
+export const DHCP_POOL_FORM: FormSchema = {
+  title: "forms.dhcp.title",
+  draft: "dhcp-pool",
+  fields: [
+    {
+      kind: "ip",
+      name: "pool",
+      label: "forms.dhcp.pool",
+      hint: "forms.dhcp.poolHint",
+      required: true,
+      multiple: false,
+      kinds: ["range", "cidr"],
+      versions: [4],
+      allowShortRanges: true,
+    },
+    {
+      kind: "ip",
+      name: "gateway",
+      label: "forms.dhcp.gateway",
+      hint: "forms.gateway.ipHint",
+      multiple: false,
+      kinds: ["single"],
+      versions: [4],
+    },
+    {
+      kind: "ip",
+      name: "dns",
+      label: "forms.dhcp.dns",
+      hint: "forms.dns.ipHint",
+      kinds: ["single", "list"],
+      versions: [4],
+      strictOverlaps: true,
+    },
+  ],
+};
+
+/** Разрешённые MAC-адреса: список в любой нотации. */
+export const ALLOWED_MACS_FORM: FormSchema = {
+  title: "forms.macs.title",
+  draft: "allowed-macs",
+  bulkImport: true,
+  export: true,
+  fields: [
+    {
+      kind: "mac",
+      name: "macs",
+      label: "forms.macs.mac",
+      required: true,
+      notations: MAC_NOTATIONS,
+      mask: true,
+    },
+  ],
+};
+
+/** VLAN: подсеть и шлюз в ней. */
+export const VLAN_FORM: FormSchema = {
+  title: "forms.vlan.title",
+  draft: "vlan",
+  fields: [
+    {
+      kind: "ip",
+      name: "subnet",
+      label: "forms.vlan.subnet",
+      hint: "forms.vlan.subnetHint",
+      required: true,
+      multiple: false,
+      kinds: ["cidr"],
+      strictCidr: true,
+    },
+    {
+      kind: "ip",
+      name: "gateway",
+      label: "forms.vlan.gateway",
+      hint: "forms.gateway.ipHint",
+      multiple: false,
+      kinds: ["single"],
+    },
+  ],
+};
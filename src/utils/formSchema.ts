@@ -0,0 +1,141 @@
+import type { MessageKey } from "../i18n/translate";
+import type { IpPolicy } from "./ipPolicy";
+import { IP_KINDS, type IpConstraints, type IpKind } from "./ipConstraints";
+import { canonicalizeIpv6 } from "./ipExpression";
+import {
+  MAC_NOTATIONS,
+  normalizeMac,
+  type IpOptions,
+  type MacNotation,
+  type MacOptions,
+} from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Декларативная схема формы                                         */
+/*  Форма описывается списком полей (вид, подпись, обязательность,    */
+/*  кратность, ограничения), а SchemaForm строит по нему разметку     */
+/*  на IpInput и MacInput. Проверки — те же, что у отдельных полей.   */
+/* ------------------------------------------------------------------ */
+
+interface FieldSchemaBase {
+  /** Имя поля: ключ в отправляемых значениях и id элемента */
+  name: string;
+  /** Подпись поля (по умолчанию — «IP-адрес» / «MAC-адрес») */
+  label?: MessageKey;
+  /** Подсказка под полем (по умолчанию — о допустимых форматах) */
+  hint?: MessageKey;
+  /** Пустое значение — ошибка (показывается после blur или отправки) */
+  required?: boolean;
+  /** Несколько значений через запятую; по умолчанию — да */
+  multiple?: boolean;
+}
+
+export interface IpFieldSchema
+  extends FieldSchemaBase, IpOptions, IpConstraints {
+  kind: "ip";
+  /** Политика допустимых IP: запрет или предупреждение по категориям */
+  policy?: IpPolicy;
+  /** Повторы и пересечения элементов — ошибка, а не предупреждение */
+  strictOverlaps?: boolean;
+  /** Когда приводить IPv6 к канонической записи RFC 5952 */
+  ipv6Canonical?: "blur" | "submit";
+}
+
+export interface MacFieldSchema extends FieldSchemaBase, MacOptions {
+  kind: "mac";
+  /** Нотация, к которой приводятся MAC при отправке (по умолчанию hyphen) */
+  outputNotation?: MacNotation;
+  /** Маска ввода: разделители групп и запятые расставляются сами */
+  mask?: boolean;
+}
+
+export type FieldSchema = IpFieldSchema | MacFieldSchema;
+
+export type FieldKind = FieldSchema["kind"];
+
+export interface FormSchema {
+  /** Заголовок формы */
+  title: MessageKey;
+  /** Текст кнопки отправки (по умолчанию «Отправить») */
+  submit?: MessageKey;
+  fields: readonly FieldSchema[];
+  /**
+   * Показывать импорт списков: найденные IP попадают в первое
+   * IP-поле, MAC — в первое MAC-поле.
+   */
+  bulkImport?: boolean;
+  /**
+   * После успешной отправки показывать экспорт данных первого
+   * IP-поля и первого MAC-поля (JSON, CSV, YAML, фрагменты
+   * конфигураций).
+   */
+  export?: boolean;
+  /**
+   * Ключ черновика: значения сохраняются в localStorage, и при
+   * следующем открытии форма предлагает их восстановить.
+   */
+  draft?: string;
+}
+
+/** Значения формы по именам полей */
+export type FormValues = Record<string, string>;
+
+/**
+ * Допустимые виды IP с учётом кратности: поле на одно значение
+ * не принимает списки, даже если вид "list" указан явно.
+ */
+export function getIpFieldKinds({
+  kinds = IP_KINDS,
+  multiple = true,
+}: IpFieldSchema): readonly IpKind[] {
+  return multiple ? kinds : kinds.filter((kind) => kind !== "list");
+}
+
+/**
+ * Приведение значений перед отправкой: IPv6 — к канонической записи
+ * в любом режиме ipv6Canonical (по Enter форма уходит без blur).
+ * Результат показывается в полях.
+ */
+export function prepareFormValues(
+  schema: FormSchema,
+  values: FormValues,
+): FormValues {
+  const result = { ...values };
+  for (const field of schema.fields) {
+    if (field.kind === "ip" && result[field.name]) {
+      result[field.name] = canonicalizeIpv6(result[field.name]);
+    }
+  }
+  return result;
+}
+
+/** Параметры MAC-поля — с теми же умолчаниями, что у MacInput. */
+export function getMacFieldOptions({
+  notations = MAC_NOTATIONS,
+  length,
+}: MacFieldSchema): MacOptions {
+  return { notations, length };
+}
+
+/**
+ * Значения для отправки: MAC приводятся к единой нотации,
+ * как бы пользователь их ни ввёл.
+ */
+export function serializeFormValues(
+  schema: FormSchema,
+  values: FormValues,
+): FormValues {
+  const result: FormValues = {};
+  for (const field of schema.fields) {
+    const value = values[field.name] ?? "";
+    result[field.name] =
+      field.kind === "mac"
+        ? (normalizeMac(
+            value,
+            field.outputNotation,
+            getMacFieldOptions(field),
+          ) ?? value)
+        : value;
+  }
+  return result;
+}
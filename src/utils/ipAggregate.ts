@@ -0,0 +1,104 @@
+import {
+  formatIpValue,
+  IP_BITS,
+  parseIpExpression,
+  type IpExpressionItem,
+  type IpVersion,
+} from "./ipExpression";
+import { toIntervals } from "./ipSet";
+import type { IpOptions } from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Агрегация IP-списков в минимальный набор CIDR                     */
+/*  Смежные и пересекающиеся элементы сливаются, произвольные         */
+/*  диапазоны раскладываются на минимальное число префиксов.          */
+/* ------------------------------------------------------------------ */
+
+export interface CidrBlock {
+  version: IpVersion;
+  /** Адрес сети */
+  value: bigint;
+  prefix: number;
+  /** Зона IPv6 — только у блоков из одного адреса */
+  zone?: string;
+}
+
+/** Запись блока: "10.0.0.0/24", "2001:db8::/64". */
+export function formatCidrBlock(block: CidrBlock): string {
+  return `${formatIpValue(block.version, block.value)}/${block.prefix}`;
+}
+
+/**
+ * Раскладывает диапазон first…last (включительно) на минимальный
+ * набор CIDR-блоков: на каждом шаге берётся самый большой блок,
+ * выровненный по текущему началу и не выходящий за конец диапазона.
+ */
+export function rangeToCidrs(
+  version: IpVersion,
+  first: bigint,
+  last: bigint,
+): CidrBlock[] {
+  const bits = IP_BITS[version];
+  const blocks: CidrBlock[] = [];
+
+  let start = first;
+  while (start <= last) {
+    let hostBits = 0n;
+    while (
+      hostBits < bits &&
+      (start & ((1n << (hostBits + 1n)) - 1n)) === 0n &&
+      start + (1n << (hostBits + 1n)) - 1n <= last
+    ) {
+      hostBits++;
+    }
+    blocks.push({ version, value: start, prefix: Number(bits - hostBits) });
+    start += 1n << hostBits;
+  }
+
+  return blocks;
+}
+
+/**
+ * Минимальный эквивалентный набор CIDR-блоков для списка элементов:
+ * сначала IPv4, затем IPv6, по возрастанию адресов. Адреса с зоной
+ * агрегируются только в пределах своей зоны и остаются одиночными:
+ * подсеть с зоной не записать.
+ */
+export function aggregateIpItems(
+  items: readonly IpExpressionItem[],
+): CidrBlock[] {
+  return toIntervals(items).flatMap(({ version, zone, first, last }) => {
+    if (zone === undefined) return rangeToCidrs(version, first, last);
+    const blocks: CidrBlock[] = [];
+    for (let value = first; value <= last; value++) {
+      blocks.push({ version, value, prefix: Number(IP_BITS[version]), zone });
+    }
+    return blocks;
+  });
+}
+
+/** Адрес блока из одного адреса — с зоной, если она есть. */
+function formatBlockAddress(block: CidrBlock): string {
+  const address = formatIpValue(block.version, block.value);
+  return block.zone === undefined ? address : `${address}%${block.zone}`;
+}
+
+/**
+ * Нормализует значение IP-поля в список CIDR через запятую.
+ * Блоки из одного адреса записываются без префикса: "10.0.2.1".
+ * Возвращает null, если значение не проходит полную валидацию.
+ */
+export function normalizeIpList(
+  value: string,
+  options?: IpOptions,
+): string | null {
+  const items = parseIpExpression(value, options);
+  if (!items) return null;
+  return aggregateIpItems(items)
+    .map((block) =>
+      BigInt(block.prefix) === IP_BITS[block.version]
+        ? formatBlockAddress(block)
+        : formatCidrBlock(block),
+    )
+    .join(", ");
+}
@@ -0,0 +1,200 @@
+import {
+  getItemBounds,
+  IP_BITS,
+  type IpExpressionItem,
+  type IpVersion,
+} from "./ipExpression";
+import { ipv4ToNumber, ipv6ToBigInt } from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Классификация IP-адресов по реестрам IANA                         */
+/*  (IPv4 / IPv6 Special-Purpose Address Registry, RFC 6890 и далее,  */
+/*  плюс блоки multicast).                                            */
+/* ------------------------------------------------------------------ */
+
+export type IpCategory =
+  | "public"
+  | "unspecified"
+  | "thisNetwork"
+  | "private"
+  | "sharedAddress"
+  | "loopback"
+  | "linkLocal"
+  | "ietfProtocol"
+  | "documentation"
+  | "benchmarking"
+  | "multicast"
+  | "broadcast"
+  | "reserved"
+  | "uniqueLocal"
+  | "ipv4Mapped"
+  | "translation"
+  | "discard"
+  | "tunneling";
+
+export interface SpecialPurposeBlock {
+  version: IpVersion;
+  /** Блок в нотации CIDR */
+  cidr: string;
+  category: IpCategory;
+  /** Название блока в реестре IANA */
+  name: string;
+}
+
+type RegistryRow = readonly [cidr: string, category: IpCategory, name: string];
+
+function toBlocks(
+  version: IpVersion,
+  rows: readonly RegistryRow[],
+): SpecialPurposeBlock[] {
+  return rows.map(([cidr, category, name]) => ({
+    version,
+    cidr,
+    category,
+    name,
+  }));
+}
+
+export const IPV4_SPECIAL_PURPOSE = toBlocks(4, [
+  ["0.0.0.0/8", "thisNetwork", "This network"],
+  ["0.0.0.0/32", "unspecified", "This host on this network"],
+  ["10.0.0.0/8", "private", "Private-Use (RFC 1918)"],
+  ["100.64.0.0/10", "sharedAddress", "Shared Address Space"],
+  ["127.0.0.0/8", "loopback", "Loopback"],
+  ["169.254.0.0/16", "linkLocal", "Link Local"],
+  ["172.16.0.0/12", "private", "Private-Use (RFC 1918)"],
+  ["192.0.0.0/24", "ietfProtocol", "IETF Protocol Assignments"],
+  ["192.0.2.0/24", "documentation", "Documentation (TEST-NET-1)"],
+  ["192.31.196.0/24", "reserved", "AS112-v4"],
+  ["192.52.193.0/24", "tunneling", "AMT"],
+  ["192.88.99.0/24", "tunneling", "6to4 Relay Anycast (deprecated)"],
+  ["192.168.0.0/16", "private", "Private-Use (RFC 1918)"],
+  ["192.175.48.0/24", "reserved", "Direct Delegation AS112 Service"],
+  ["198.18.0.0/15", "benchmarking", "Benchmarking"],
+  ["198.51.100.0/24", "documentation", "Documentation (TEST-NET-2)"],
+  ["203.0.113.0/24", "documentation", "Documentation (TEST-NET-3)"],
+  ["224.0.0.0/4", "multicast", "Multicast"],
+  ["240.0.0.0/4", "reserved", "Reserved"],
+  ["255.255.255.255/32", "broadcast", "Limited Broadcast"],
+]);
+
+export const IPV6_SPECIAL_PURPOSE = toBlocks(6, [
+  ["::/128", "unspecified", "Unspecified Address"],
+  ["::1/128", "loopback", "Loopback Address"],
+  ["::ffff:0:0/96", "ipv4Mapped", "IPv4-mapped Address"],
+  ["64:ff9b::/96", "translation", "IPv4-IPv6 Translat."],
+  ["64:ff9b:1::/48", "translation", "IPv4-IPv6 Translat. (local)"],
+  ["100::/64", "discard", "Discard-Only Address Block"],
+  ["2001::/23", "ietfProtocol", "IETF Protocol Assignments"],
+  ["2001::/32", "tunneling", "TEREDO"],
+  ["2001:2::/48", "benchmarking", "Benchmarking"],
+  ["2001:db8::/32", "documentation", "Documentation"],
+  ["2002::/16", "tunneling", "6to4"],
+  ["3fff::/20", "documentation", "Documentation"],
+  ["fc00::/7", "uniqueLocal", "Unique-Local"],
+  ["fe80::/10", "linkLocal", "Link-Local Unicast"],
+  ["ff00::/8", "multicast", "Multicast"],
+]);
+
+/* ---------- Плоская таблица интервалов ---------- */
+
+interface Segment {
+  first: bigint;
+  last: bigint;
+  category: IpCategory;
+  block: SpecialPurposeBlock | null;
+}
+
+function blockBounds(block: SpecialPurposeBlock): [bigint, bigint, number] {
+  const [address, prefixText] = block.cidr.split("/");
+  const prefix = Number.parseInt(prefixText, 10);
+  const value =
+    block.version === 4 ? BigInt(ipv4ToNumber(address)) : ipv6ToBigInt(address);
+  const size = 1n << (IP_BITS[block.version] - BigInt(prefix));
+  return [value, value + size - 1n, prefix];
+}
+
+/**
+ * Раскладывает вложенные блоки реестра в непересекающиеся интервалы:
+ * каждому интервалу достаётся самый специфичный (длинный префикс) блок,
+ * промежутки между блоками считаются публичными адресами.
+ */
+function buildSegments(
+  version: IpVersion,
+  blocks: readonly SpecialPurposeBlock[],
+): Segment[] {
+  const bounds = blocks.map((b) => ({ block: b, range: blockBounds(b) }));
+  const max = (1n << IP_BITS[version]) - 1n;
+
+  const points = new Set<bigint>([0n]);
+  for (const { range } of bounds) {
+    points.add(range[0]);
+    if (range[1] < max) points.add(range[1] + 1n);
+  }
+  const starts = [...points].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const segments: Segment[] = [];
+  starts.forEach((first, i) => {
+    const last = i + 1 < starts.length ? starts[i + 1] - 1n : max;
+    let best: (typeof bounds)[number] | null = null;
+    for (const entry of bounds) {
+      const [lo, hi, prefix] = entry.range;
+      if (lo <= first && last <= hi && (!best || prefix > best.range[2])) {
+        best = entry;
+      }
+    }
+    const category = best ? best.block.category : "public";
+    const block = best ? best.block : null;
+    const prev = segments[segments.length - 1];
+    if (prev && prev.block === block) {
+      prev.last = last;
+    } else {
+      segments.push({ first, last, category, block });
+    }
+  });
+  return segments;
+}
+
+const SEGMENTS: Record<IpVersion, Segment[]> = {
+  4: buildSegments(4, IPV4_SPECIAL_PURPOSE),
+  6: buildSegments(6, IPV6_SPECIAL_PURPOSE),
+};
+
+/* ---------- Public API ---------- */
+
+export interface IpClassification {
+  version: IpVersion;
+  category: IpCategory;
+  /** Самый специфичный блок реестра (null для публичных адресов) */
+  block: SpecialPurposeBlock | null;
+}
+
+/** Классифицирует адрес по его версии и числовому значению. */
+export function classifyIpValue(
+  version: IpVersion,
+  value: number | bigint,
+): IpClassification {
+  const v = BigInt(value);
+  const segment = SEGMENTS[version].find((s) => s.first <= v && v <= s.last)!;
+  return { version, category: segment.category, block: segment.block };
+}
+
+/** Классифицирует *полный* одиночный адрес: "127.0.0.1", "fe80::1". */
+export function classifyIp(address: string): IpClassification {
+  return address.includes(":")
+    ? classifyIpValue(6, ipv6ToBigInt(address))
+    : classifyIpValue(4, ipv4ToNumber(address));
+}
+
+/**
+ * Все категории адресов, которые встречаются внутри элемента
+ * (одиночного адреса, CIDR или диапазона), без повторов.
+ */
+export function getItemCategories(item: IpExpressionItem): IpCategory[] {
+  const [lo, hi] = getItemBounds(item);
+  const categories = new Set<IpCategory>();
+  for (const s of SEGMENTS[item.version]) {
+    if (s.first <= hi && lo <= s.last) categories.add(s.category);
+  }
+  return [...categories];
+}
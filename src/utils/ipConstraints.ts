@@ -0,0 +1,89 @@
+import type { ValidationMessage } from "../i18n/translate";
+import type { ValidationDiagnostic } from "./diagnostics";
+import { parseIpItems, type IpVersion } from "./ipExpression";
+import { splitList, type IpOptions } from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Ограничения IP-поля                                               */
+/*  Синтаксис допускает любые элементы и списки; конкретный экран     */
+/*  может сузить набор: только одиночный IPv4, только подсети и т.п.  */
+/* ------------------------------------------------------------------ */
+
+/**
+ * - single: одиночный адрес
+ * - cidr:   подсеть (в том числе записанная маской)
+ * - range:  диапазон (в том числе сокращённый)
+ * - list:   несколько значений через запятую
+ */
+export type IpKind = "single" | "cidr" | "range" | "list";
+
+export const IP_KINDS: readonly IpKind[] = ["single", "cidr", "range", "list"];
+
+export interface IpConstraints {
+  /** Допустимые виды значений; по умолчанию все */
+  kinds?: readonly IpKind[];
+  /** Допустимые версии IP; по умолчанию обе */
+  versions?: readonly IpVersion[];
+}
+
+/** Локализуемое название вида элемента — для подстановки в сообщения. */
+export function getKindMessage(kind: IpKind): ValidationMessage {
+  return { key: `ip.kind.${kind}` };
+}
+
+/**
+ * Элементы, которые нарушают ограничения поля. Незавершённые
+ * и некорректные элементы пропускаются — это забота валидатора.
+ * На каждый элемент списка — не больше одного замечания.
+ */
+export function getIpConstraintDiagnostics(
+  value: string,
+  { kinds = IP_KINDS, versions = [4, 6] }: IpConstraints,
+  options?: IpOptions,
+): ValidationDiagnostic[] {
+  const result: ValidationDiagnostic[] = [];
+  const reported = new Set<number>();
+
+  if (!kinds.includes("list")) {
+    for (const item of splitList(value).slice(1)) {
+      if (!item.text) continue;
+      reported.add(item.index);
+      result.push({
+        code: "IP_KIND",
+        message: { key: "ip.listNotAllowed" },
+        start: item.start,
+        end: item.end,
+        itemIndex: item.index,
+      });
+    }
+  }
+
+  for (const item of parseIpItems(value, options)) {
+    if (reported.has(item.index)) continue;
+
+    const at = { start: item.start, end: item.end, itemIndex: item.index };
+    if (!versions.includes(item.version)) {
+      reported.add(item.index);
+      result.push({
+        code: "IP_VERSION",
+        message: {
+          key: "ip.versionNotAllowed",
+          params: { item: item.source, version: item.version },
+        },
+        ...at,
+      });
+    } else if (!kinds.includes(item.kind)) {
+      reported.add(item.index);
+      result.push({
+        code: "IP_KIND",
+        message: {
+          key: "ip.kindNotAllowed",
+          params: { item: item.source, kind: getKindMessage(item.kind) },
+        },
+        ...at,
+      });
+    }
+  }
+
+  return result.sort((a, b) => a.itemIndex - b.itemIndex);
+}
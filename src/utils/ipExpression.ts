@@ -0,0 +1,347 @@
+import {
+  expandIpv4ShortRange,
+  getIpItemOptions,
+  ipv4ToNumber,
+  ipv6ToBigInt,
+  isFullIpv6Token,
+  isIpValid,
+  numberToIpv4,
+  parseIpv4Mask,
+  parseIpv4ShortRange,
+  splitIpv4Mask,
+  splitList,
+  type IpOptions,
+  type Ipv4MaskNotation,
+} from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Структурированный разбор IP-выражений                             */
+/*  Превращает значение IP-поля в типизированный список элементов     */
+/*  (одиночный адрес, CIDR, диапазон) вместо простого «да/нет».       */
+/* ------------------------------------------------------------------ */
+
+export type IpVersion = 4 | 6;
+
+/** Разрядность адреса каждой версии */
+export const IP_BITS: Record<IpVersion, bigint> = { 4: 32n, 6: 128n };
+
+export interface Ipv4Address {
+  version: 4;
+  /** Нормализованная запись адреса */
+  address: string;
+  /** Числовое значение адреса (32 бита) */
+  value: number;
+}
+
+export interface Ipv6Address {
+  version: 6;
+  /** Нормализованная запись адреса */
+  address: string;
+  /** Числовое значение адреса (128 бит) */
+  value: bigint;
+}
+
+export type IpAddress = Ipv4Address | Ipv6Address;
+
+interface IpItemBase {
+  /** Порядковый номер элемента в списке через запятую */
+  index: number;
+  /** Исходный текст элемента (без пробелов по краям) */
+  source: string;
+  /** Смещение начала элемента в исходной строке */
+  start: number;
+  /** Смещение сразу после конца элемента в исходной строке */
+  end: number;
+}
+
+/** Одиночный адрес: "192.168.1.1", "fe80::1", "fe80::1%eth0" */
+export type IpSingleItem = IpItemBase &
+  IpAddress & {
+    kind: "single";
+    /** Идентификатор зоны IPv6 без "%" (только при allowZones) */
+    zone?: string;
+  };
+
+/**
+ * Подсеть: "10.0.0.0/8", "2001:db8::/32", а также IPv4 с маской:
+ * "192.168.1.0 255.255.255.0", "10.0.0.0 0.0.0.255"
+ */
+export type IpCidrItem = IpItemBase &
+  IpAddress & {
+    kind: "cidr";
+    prefix: number;
+    /** Как была записана маска, если не длиной префикса */
+    maskNotation?: Ipv4MaskNotation;
+  };
+
+/**
+ * Диапазон через дефис: "10.0.0.1-10.0.0.5". Сокращённый диапазон
+ * ("192.168.1.10-50", "10.0.*.1") разворачивается в один или несколько
+ * таких элементов с общими index, source, start и end.
+ */
+export type IpRangeItem = IpItemBase &
+  (
+    | { kind: "range"; version: 4; first: Ipv4Address; last: Ipv4Address }
+    | { kind: "range"; version: 6; first: Ipv6Address; last: Ipv6Address }
+  );
+
+export type IpExpressionItem = IpSingleItem | IpCidrItem | IpRangeItem;
+
+/** Сжимает самую длинную (при равенстве — первую) серию нулевых групп. */
+function compressGroups(groups: readonly number[]): string {
+  let bestStart = -1;
+  let bestLength = 1; // одиночную нулевую группу не сжимаем
+  for (let i = 0; i < groups.length;) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < groups.length && groups[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map((g) => g.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  const left = hex.slice(0, bestStart).join(":");
+  const right = hex.slice(bestStart + bestLength).join(":");
+  return `${left}::${right}`;
+}
+
+/**
+ * Префиксы /96, по которым видно, что в младших 32 битах лежит IPv4:
+ * для них RFC 5952 (раздел 5) рекомендует смешанную запись.
+ */
+const EMBEDDED_IPV4_PREFIXES = [
+  { kind: "mapped", prefix: 0xffffn << 32n }, // ::ffff:0:0/96
+  { kind: "translated", prefix: 0xffff0000n << 32n }, // ::ffff:0:0:0/96
+  { kind: "nat64", prefix: 0x64ff9bn << 96n }, // 64:ff9b::/96
+] as const;
+
+/**
+ * - mapped:     IPv4-mapped, "::ffff:192.0.2.1" (RFC 4291)
+ * - translated: IPv4-translated, "::ffff:0:192.0.2.1" (RFC 2765)
+ * - nat64:      well-known префикс NAT64, "64:ff9b::192.0.2.1" (RFC 6052)
+ * - 6to4:       адрес 6to4, IPv4 в битах 16–47: "2002:c000:201::" (RFC 3056)
+ */
+export type EmbeddedIpv4Kind =
+  (typeof EMBEDDED_IPV4_PREFIXES)[number]["kind"] | "6to4";
+
+export interface EmbeddedIpv4 {
+  kind: EmbeddedIpv4Kind;
+  ipv4: Ipv4Address;
+}
+
+function embeddedIpv4FromValue(value: bigint): EmbeddedIpv4 | null {
+  const low32 = (v: bigint): Ipv4Address => {
+    const n = Number(v & 0xffffffffn);
+    return { version: 4, address: numberToIpv4(n), value: n };
+  };
+
+  for (const { kind, prefix } of EMBEDDED_IPV4_PREFIXES) {
+    if (value >> 32n === prefix >> 32n) return { kind, ipv4: low32(value) };
+  }
+  if (value >> 112n === 0x2002n) {
+    return { kind: "6to4", ipv4: low32(value >> 80n) };
+  }
+  return null;
+}
+
+/**
+ * IPv4-адрес, встроенный в *полный* IPv6-адрес, или null, если адрес
+ * не относится к известным схемам встраивания:
+ * "::ffff:192.168.1.1" → 192.168.1.1, "64:ff9b::a00:1" → 10.0.0.1.
+ */
+export function getEmbeddedIpv4(address: string): EmbeddedIpv4 | null {
+  return embeddedIpv4FromValue(ipv6ToBigInt(address));
+}
+
+/**
+ * Обратное к ipv6ToBigInt преобразование: 128-битное число → адрес
+ * в канонической записи RFC 5952: нижний регистр, без ведущих нулей,
+ * самая длинная серия из двух и более нулевых групп заменена на "::".
+ * Адреса со встроенным IPv4 (кроме 6to4) записываются смешанно:
+ * "::ffff:192.0.2.1", "64:ff9b::10.0.0.1". Маска — не адрес, для неё
+ * mixed = false: "::ffff:ffff:ffff", а не "::ffff:255.255.255.255".
+ */
+export function bigIntToIpv6(value: bigint, mixed = true): string {
+  const groups = Array.from({ length: 8 }, (_, i) =>
+    Number((value >> BigInt((7 - i) * 16)) & 0xffffn),
+  );
+
+  const embedded = mixed ? embeddedIpv4FromValue(value) : null;
+  if (embedded && embedded.kind !== "6to4") {
+    const head = compressGroups(groups.slice(0, 6));
+    const separator = head.endsWith("::") ? "" : ":";
+    return `${head}${separator}${embedded.ipv4.address}`;
+  }
+  return compressGroups(groups);
+}
+
+/**
+ * Каноническая запись (RFC 5952) полного IPv6-адреса:
+ * "2001:0DB8:0:0::1" → "2001:db8::1".
+ */
+export function formatIpv6(address: string): string {
+  return bigIntToIpv6(ipv6ToBigInt(address));
+}
+
+/**
+ * Приводит к канонической записи каждый полный IPv6-адрес в значении
+ * поля — в одиночных адресах, CIDR и диапазонах. Всё остальное
+ * (IPv4, префиксы, разделители, пробелы, недописанные адреса)
+ * остаётся без изменений.
+ */
+export function canonicalizeIpv6(value: string): string {
+  return value.replace(/[0-9a-fA-F:.]*:[0-9a-fA-F:.]*/g, (token) =>
+    isFullIpv6Token(token) ? formatIpv6(token) : token,
+  );
+}
+
+/** Запись адреса по версии и числовому значению. */
+export function formatIpValue(version: IpVersion, value: bigint): string {
+  return version === 4 ? numberToIpv4(Number(value)) : bigIntToIpv6(value);
+}
+
+/** Разбирает *полный* адрес (без маски и диапазона). */
+export function parseIpAddress(text: string): IpAddress {
+  if (text.includes(":")) {
+    return { version: 6, address: formatIpv6(text), value: ipv6ToBigInt(text) };
+  }
+  const value = ipv4ToNumber(text);
+  return { version: 4, address: numberToIpv4(value), value };
+}
+
+function parseItem(
+  text: string,
+  base: IpItemBase,
+  maskNotation?: Ipv4MaskNotation,
+): IpExpressionItem {
+  const masked = splitIpv4Mask(text);
+  if (masked) {
+    // Прерывистые и неоднозначные маски отсекаются isIpValid ещё до разбора.
+    const { notation, prefix } = parseIpv4Mask(masked[1], maskNotation)!;
+    const address = parseIpAddress(masked[0]);
+    return {
+      ...base,
+      ...address,
+      kind: "cidr",
+      prefix,
+      maskNotation: notation,
+    };
+  }
+
+  const dashIndex = text.indexOf("-");
+  if (dashIndex !== -1) {
+    const first = parseIpAddress(text.slice(0, dashIndex).trim());
+    const last = parseIpAddress(text.slice(dashIndex + 1).trim());
+    // Смешение версий в диапазоне отсекается isIpValid ещё до разбора.
+    const bounds =
+      first.version === 4
+        ? { version: 4 as const, first, last: last as Ipv4Address }
+        : { version: 6 as const, first, last: last as Ipv6Address };
+    return { ...base, kind: "range", ...bounds };
+  }
+
+  const slashIndex = text.indexOf("/");
+  if (slashIndex !== -1) {
+    const address = parseIpAddress(text.slice(0, slashIndex));
+    const prefix = Number.parseInt(text.slice(slashIndex + 1), 10);
+    return { ...base, ...address, kind: "cidr", prefix };
+  }
+
+  const zoneIndex = text.indexOf("%");
+  if (zoneIndex !== -1) {
+    const address = parseIpAddress(text.slice(0, zoneIndex));
+    const zone = text.slice(zoneIndex + 1);
+    return { ...base, ...address, kind: "single", zone };
+  }
+
+  return { ...base, ...parseIpAddress(text), kind: "single" };
+}
+
+function toIpv4Address(value: number): Ipv4Address {
+  return { version: 4, address: numberToIpv4(value), value };
+}
+
+/** Элементы для одной записи списка: сокращённый диапазон даёт несколько. */
+function parseListItem(
+  text: string,
+  base: IpItemBase,
+  maskNotation?: Ipv4MaskNotation,
+): IpExpressionItem[] {
+  const shortRange = parseIpv4ShortRange(text);
+  if (!shortRange) return [parseItem(text, base, maskNotation)];
+
+  // Слишком крупные шаблоны отсекаются isIpValid ещё до разбора.
+  return expandIpv4ShortRange(shortRange)!.map(([first, last]) => ({
+    ...base,
+    kind: "range",
+    version: 4,
+    first: toIpv4Address(first),
+    last: toIpv4Address(last),
+  }));
+}
+
+/**
+ * Разбирает значение IP-поля (список через запятую) в массив элементов.
+ * Возвращает null, если значение не проходит полную валидацию isIpValid —
+ * так парсер и валидатор никогда не расходятся во мнениях.
+ * Пустое значение даёт пустой массив.
+ */
+export function parseIpExpression(
+  value: string,
+  options?: IpOptions,
+): IpExpressionItem[] | null {
+  if (!isIpValid(value, options)) return null;
+  if (!value.trim()) return [];
+
+  const { maskNotation } = getIpItemOptions(value, options);
+  return splitList(value).flatMap(({ index, text, start, end }) =>
+    parseListItem(text, { index, source: text, start, end }, maskNotation),
+  );
+}
+
+/**
+ * Мягкий вариант parseIpExpression для ввода «на лету»: разбирает
+ * только те элементы списка, которые сами по себе валидны, и пропускает
+ * остальные (например, недописанный последний элемент).
+ */
+export function parseIpItems(
+  value: string,
+  options?: IpOptions,
+): IpExpressionItem[] {
+  const itemOptions = getIpItemOptions(value, options);
+  return splitList(value)
+    .filter(({ text }) => text && isIpValid(text, itemOptions))
+    .flatMap(({ index, text, start, end }) =>
+      parseListItem(
+        text,
+        { index, source: text, start, end },
+        itemOptions.maskNotation,
+      ),
+    );
+}
+
+/**
+ * Первый и последний адрес элемента в виде bigint (для IPv4 тоже),
+ * чтобы одиночные адреса, CIDR и диапазоны сравнивались единообразно.
+ */
+export function getItemBounds(item: IpExpressionItem): [bigint, bigint] {
+  switch (item.kind) {
+    case "single":
+      return [BigInt(item.value), BigInt(item.value)];
+    case "range":
+      return [BigInt(item.first.value), BigInt(item.last.value)];
+    case "cidr": {
+      const hostBits = IP_BITS[item.version] - BigInt(item.prefix);
+      const mask = (1n << hostBits) - 1n;
+      const first = BigInt(item.value) & ~mask;
+      return [first, first | mask];
+    }
+  }
+}
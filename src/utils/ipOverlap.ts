@@ -0,0 +1,124 @@
+import type { ValidationDiagnostic } from "./diagnostics";
+import {
+  getItemBounds,
+  parseIpItems,
+  type IpExpressionItem,
+} from "./ipExpression";
+import type { IpOptions } from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Пересечения элементов IP-списка                                   */
+/*  hasRangeOrderViolation проверяет каждый диапазон сам по себе,     */
+/*  здесь же элементы списка сравниваются друг с другом.              */
+/* ------------------------------------------------------------------ */
+
+/**
+ * - duplicate: элемент покрывает ровно те же адреса, что и другой
+ * - contained: элемент целиком входит в другой
+ * - partial:   элементы пересекаются частично
+ */
+export type IpOverlapKind = "duplicate" | "contained" | "partial";
+
+export interface IpOverlap {
+  kind: IpOverlapKind;
+  /** Избыточный элемент — к нему относится замечание */
+  item: IpExpressionItem;
+  /** Элемент, с которым он пересекается */
+  other: IpExpressionItem;
+}
+
+interface Bounded {
+  item: IpExpressionItem;
+  /** Адресное пространство: версия и зона ("fe80::1%eth0" и "%eth1" — разные) */
+  space: string;
+  first: bigint;
+  last: bigint;
+}
+
+function getSpace(item: IpExpressionItem): string {
+  const zone = item.kind === "single" ? item.zone : undefined;
+  return zone === undefined ? `${item.version}` : `${item.version}%${zone}`;
+}
+
+function compareBounded(a: Bounded, b: Bounded): number {
+  if (a.space !== b.space) return a.space < b.space ? -1 : 1;
+  if (a.first !== b.first) return a.first < b.first ? -1 : 1;
+  // При общем начале первым идёт более широкий элемент,
+  // при полном совпадении — тот, что раньше в списке.
+  if (a.last !== b.last) return a.last > b.last ? -1 : 1;
+  return a.item.index - b.item.index;
+}
+
+/** Вид пересечения; current начинается не раньше cover. */
+function getOverlapKind(cover: Bounded, current: Bounded): IpOverlapKind {
+  if (cover.first === current.first && cover.last === current.last) {
+    return "duplicate";
+  }
+  return current.last <= cover.last ? "contained" : "partial";
+}
+
+/**
+ * Находит пересечения элементов (CIDR, диапазонов и одиночных адресов)
+ * проходом по отсортированным интервалам. Каждый элемент попадает
+ * в результат не более одного раза — в паре с тем элементом,
+ * который покрывает его дальше всех.
+ */
+export function findIpOverlaps(
+  items: readonly IpExpressionItem[],
+): IpOverlap[] {
+  const sorted = items
+    .map((item): Bounded => {
+      const [first, last] = getItemBounds(item);
+      return { item, space: getSpace(item), first, last };
+    })
+    .sort(compareBounded);
+
+  const result: IpOverlap[] = [];
+  let cover: Bounded | null = null;
+
+  for (const current of sorted) {
+    if (cover && cover.space === current.space && current.first <= cover.last) {
+      result.push({
+        kind: getOverlapKind(cover, current),
+        item: current.item,
+        other: cover.item,
+      });
+    }
+    if (!cover || cover.space !== current.space || current.last > cover.last) {
+      cover = current;
+    }
+  }
+
+  return result.sort((a, b) => a.item.index - b.item.index);
+}
+
+const OVERLAP_CODES = {
+  duplicate: "IP_DUPLICATE",
+  contained: "IP_CONTAINED",
+  partial: "IP_OVERLAP",
+} as const;
+
+/**
+ * Замечания о пересечениях для значения IP-поля. Незавершённые
+ * и некорректные элементы пропускаются, у сокращённого диапазона
+ * из нескольких частей остаётся одно замечание. Ошибка это или
+ * предупреждение, решает потребитель.
+ */
+export function getIpOverlapDiagnostics(
+  value: string,
+  options?: IpOptions,
+): ValidationDiagnostic[] {
+  const items = parseIpItems(value, options);
+  return findIpOverlaps(items)
+    .filter((o, i, all) => i === 0 || all[i - 1].item.index !== o.item.index)
+    .map(({ kind, item, other }) => ({
+      code: OVERLAP_CODES[kind],
+      message: {
+        key: `ip.overlap.${kind}`,
+        params: { item: item.source, other: other.source },
+      },
+      start: item.start,
+      end: item.end,
+      itemIndex: item.index,
+    }));
+}
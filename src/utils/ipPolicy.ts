@@ -0,0 +1,87 @@
+import type { ValidationMessage } from "../i18n/translate";
+import type { ValidationDiagnostic } from "./diagnostics";
+import { getItemCategories, type IpCategory } from "./ipClassification";
+import { parseIpItems } from "./ipExpression";
+import type { IpOptions } from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Политика допустимых IP-адресов                                    */
+/*  Поверх классификации решает, какие категории адресов запрещены,   */
+/*  о каких нужно предупредить и какие вообще разрешены.              */
+/* ------------------------------------------------------------------ */
+
+/** deny — ошибка (блокирует отправку), warn — предупреждение */
+export type IpPolicyAction = "deny" | "warn";
+
+export interface IpPolicy {
+  /** Действие для отдельных категорий: { loopback: "deny", linkLocal: "warn" } */
+  rules?: Partial<Record<IpCategory, IpPolicyAction>>;
+  /** Белый список: адреса остальных категорий нарушают политику */
+  allowOnly?: readonly IpCategory[];
+  /** Что делать с адресами вне allowOnly (по умолчанию deny) */
+  allowOnlyAction?: IpPolicyAction;
+}
+
+/** Только частные сети RFC 1918 */
+export const RFC1918_ONLY: IpPolicy = { allowOnly: ["private"] };
+
+export interface IpPolicyResult {
+  errors: ValidationDiagnostic[];
+  warnings: ValidationDiagnostic[];
+}
+
+/** Локализуемое название категории — для подстановки в сообщения. */
+export function getCategoryMessage(category: IpCategory): ValidationMessage {
+  return { key: `ip.category.${category}` };
+}
+
+/**
+ * Проверяет каждый элемент списка на соответствие политике.
+ * Явное правило для категории важнее белого списка allowOnly.
+ * Незавершённые и некорректные элементы пропускаются — это
+ * забота валидатора, поэтому проверку можно звать прямо при вводе.
+ * Сокращённый диапазон, развёрнутый в несколько элементов, даёт
+ * не больше одного замечания на категорию.
+ */
+export function checkIpPolicy(
+  value: string,
+  policy: IpPolicy,
+  options?: IpOptions,
+): IpPolicyResult {
+  const result: IpPolicyResult = { errors: [], warnings: [] };
+  const seen = new Set<string>();
+
+  for (const item of parseIpItems(value, options)) {
+    const at = { start: item.start, end: item.end, itemIndex: item.index };
+
+    for (const category of getItemCategories(item)) {
+      if (seen.has(`${item.index}:${category}`)) continue;
+      seen.add(`${item.index}:${category}`);
+      const params = {
+        address: item.source,
+        category: getCategoryMessage(category),
+      };
+      const rule = policy.rules?.[category];
+
+      if (rule) {
+        (rule === "deny" ? result.errors : result.warnings).push({
+          code: "IP_CATEGORY",
+          message: {
+            key: rule === "deny" ? "ip.policy.denied" : "ip.policy.warn",
+            params,
+          },
+          ...at,
+        });
+      } else if (policy.allowOnly && !policy.allowOnly.includes(category)) {
+        const action = policy.allowOnlyAction ?? "deny";
+        (action === "deny" ? result.errors : result.warnings).push({
+          code: "IP_NOT_ALLOWED",
+          message: { key: "ip.policy.notAllowed", params },
+          ...at,
+        });
+      }
+    }
+  }
+
+  return result;
+}
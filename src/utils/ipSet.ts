@@ -0,0 +1,150 @@
+import {
+  formatIpValue,
+  getItemBounds,
+  type IpAddress,
+  type IpExpressionItem,
+  type IpVersion,
+} from "./ipExpression";
+
+/* ------------------------------------------------------------------ */
+/*  Множества IP-адресов                                              */
+/*  Разворачивает разобранное выражение (адреса, CIDR, диапазоны)     */
+/*  в множество адресов: точный размер, ленивый перебор, развёртка    */
+/*  с ограничением.                                                   */
+/* ------------------------------------------------------------------ */
+
+/** Непрерывный интервал адресов одной версии (границы включительно). */
+export interface IpInterval {
+  version: IpVersion;
+  /**
+   * Зона IPv6 без "%": fe80::1%eth0 и fe80::1%eth1 — адреса разных
+   * каналов, их интервалы не сливаются.
+   */
+  zone?: string;
+  first: bigint;
+  last: bigint;
+}
+
+function compareIntervals(a: IpInterval, b: IpInterval): number {
+  if (a.version !== b.version) return a.version - b.version;
+  const [zoneA, zoneB] = [a.zone ?? "", b.zone ?? ""];
+  if (zoneA !== zoneB) return zoneA < zoneB ? -1 : 1;
+  return a.first < b.first ? -1 : a.first > b.first ? 1 : 0;
+}
+
+/**
+ * Сортирует интервалы и сливает пересекающиеся и смежные:
+ * сначала IPv4, затем IPv6 (адреса без зоны, потом по зонам),
+ * каждый адрес — ровно в одном интервале.
+ */
+export function mergeIntervals(intervals: readonly IpInterval[]): IpInterval[] {
+  const sorted = [...intervals].sort(compareIntervals);
+
+  const result: IpInterval[] = [];
+  for (const interval of sorted) {
+    const prev = result[result.length - 1];
+    if (
+      prev &&
+      prev.version === interval.version &&
+      prev.zone === interval.zone &&
+      interval.first <= prev.last + 1n
+    ) {
+      if (interval.last > prev.last) prev.last = interval.last;
+    } else {
+      result.push({ ...interval });
+    }
+  }
+  return result;
+}
+
+/**
+ * Приводит элементы к отсортированному списку непересекающихся
+ * интервалов: сначала IPv4, затем IPv6. Пересекающиеся и смежные
+ * элементы сливаются, поэтому каждый адрес учитывается один раз.
+ */
+export function toIntervals(items: readonly IpExpressionItem[]): IpInterval[] {
+  return mergeIntervals(
+    items.map((item): IpInterval => {
+      const [first, last] = getItemBounds(item);
+      const zone = item.kind === "single" ? item.zone : undefined;
+      return zone === undefined
+        ? { version: item.version, first, last }
+        : { version: item.version, zone, first, last };
+    }),
+  );
+}
+
+export interface IpSetSize {
+  /** Число различных IPv4-адресов */
+  v4: bigint;
+  /** Число различных IPv6-адресов */
+  v6: bigint;
+  total: bigint;
+}
+
+/** Точный размер множества (повторы и пересечения не удваиваются). */
+export function getIpSetSize(items: readonly IpExpressionItem[]): IpSetSize {
+  const size: IpSetSize = { v4: 0n, v6: 0n, total: 0n };
+  for (const { version, first, last } of toIntervals(items)) {
+    const count = last - first + 1n;
+    if (version === 4) size.v4 += count;
+    else size.v6 += count;
+    size.total += count;
+  }
+  return size;
+}
+
+function toAddress(version: IpVersion, value: bigint): IpAddress {
+  const address = formatIpValue(version, value);
+  return version === 4
+    ? { version, address, value: Number(value) }
+    : { version, address, value };
+}
+
+/**
+ * Лениво перебирает адреса множества по возрастанию (IPv4, затем IPv6),
+ * без повторов. Подходит и для огромных подсетей — при условии,
+ * что потребитель вовремя остановится.
+ */
+export function* iterateIpSet(
+  items: readonly IpExpressionItem[],
+): Generator<IpAddress, void, undefined> {
+  for (const { version, first, last } of toIntervals(items)) {
+    for (let v = first; v <= last; v++) {
+      yield toAddress(version, v);
+    }
+  }
+}
+
+/** Лимит развёртки по умолчанию */
+export const DEFAULT_EXPAND_LIMIT = 65_536;
+
+export interface ExpandOptions {
+  /** Максимальное число адресов в результате */
+  limit?: number;
+  /**
+   * Что делать, если множество больше лимита:
+   * refuse — вернуть null, cap — вернуть первые limit адресов
+   */
+  overflow?: "refuse" | "cap";
+}
+
+/**
+ * Разворачивает множество в массив адресов. Возвращает null, если
+ * адресов больше лимита и overflow = "refuse" (по умолчанию).
+ */
+export function expandIpSet(
+  items: readonly IpExpressionItem[],
+  { limit = DEFAULT_EXPAND_LIMIT, overflow = "refuse" }: ExpandOptions = {},
+): IpAddress[] | null {
+  if (overflow === "refuse" && getIpSetSize(items).total > BigInt(limit)) {
+    return null;
+  }
+
+  const result: IpAddress[] = [];
+  for (const address of iterateIpSet(items)) {
+    if (result.length >= limit) break;
+    result.push(address);
+  }
+  return result;
+}
@@ -0,0 +1,116 @@
+import type { ValidationDiagnostic } from "./diagnostics";
+import { formatMac, parseMac, splitList, type MacOptions } from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Классификация MAC-адресов                                         */
+/*  Читает биты I/G (индивидуальный/групповой) и U/L (глобальный/     */
+/*  локально администрируемый) первого октета адреса.                 */
+/* ------------------------------------------------------------------ */
+
+/** Бит I/G: 1 — групповой (multicast) адрес */
+const IG_BIT = 0x01;
+/** Бит U/L: 1 — локально администрируемый адрес */
+const UL_BIT = 0x02;
+
+/**
+ * В 20-байтовом адресе InfiniBand первые 4 октета — флаги и QPN,
+ * за ними идёт GID; групповой GID начинается с 0xff.
+ */
+const IB_GID_OFFSET = 4;
+
+export interface MacClassification {
+  octets: number[];
+  /** Групповой адрес (multicast, включая broadcast) */
+  multicast: boolean;
+  /** Широковещательный адрес FF-FF-…-FF */
+  broadcast: boolean;
+  /** Адрес из одних нулей */
+  zero: boolean;
+  /** Локально администрируемый адрес (бит U/L) */
+  locallyAdministered: boolean;
+}
+
+/**
+ * Классифицирует *одиночный* MAC-адрес в любой допустимой нотации.
+ * Возвращает null, если токен не является полным MAC.
+ */
+export function classifyMac(
+  token: string,
+  options?: MacOptions,
+): MacClassification | null {
+  const octets = parseMac(token, options);
+  if (!octets) return null;
+
+  const broadcast = octets.every((o) => o === 0xff);
+  const zero = octets.every((o) => o === 0);
+
+  if (octets.length === 20) {
+    // Для InfiniBand биты I/G и U/L не применимы — смотрим на GID.
+    return {
+      octets,
+      multicast: octets[IB_GID_OFFSET] === 0xff,
+      broadcast,
+      zero,
+      locallyAdministered: false,
+    };
+  }
+
+  return {
+    octets,
+    multicast: (octets[0] & IG_BIT) !== 0,
+    broadcast,
+    zero,
+    locallyAdministered: (octets[0] & UL_BIT) !== 0,
+  };
+}
+
+/**
+ * Предупреждения по списку MAC через запятую: broadcast, нулевые,
+ * групповые и локально администрируемые адреса. Незавершённые
+ * и некорректные элементы пропускаются — это забота валидатора.
+ */
+export function getMacWarnings(
+  value: string,
+  options?: MacOptions,
+): ValidationDiagnostic[] {
+  const warnings: ValidationDiagnostic[] = [];
+
+  for (const item of splitList(value)) {
+    const info = classifyMac(item.text, options);
+    if (!info) continue;
+
+    const params = { address: formatMac(info.octets) };
+    const at = { start: item.start, end: item.end, itemIndex: item.index };
+
+    if (info.zero) {
+      warnings.push({
+        code: "MAC_ZERO",
+        message: { key: "mac.warn.zero", params },
+        ...at,
+      });
+    } else if (info.broadcast) {
+      warnings.push({
+        code: "MAC_BROADCAST",
+        message: { key: "mac.warn.broadcast", params },
+        ...at,
+      });
+    } else {
+      if (info.multicast) {
+        warnings.push({
+          code: "MAC_MULTICAST",
+          message: { key: "mac.warn.multicast", params },
+          ...at,
+        });
+      }
+      if (info.locallyAdministered) {
+        warnings.push({
+          code: "MAC_LOCAL",
+          message: { key: "mac.warn.local", params },
+          ...at,
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
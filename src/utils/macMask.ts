@@ -0,0 +1,153 @@
+import type { MacLength, MacNotation } from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Маска ввода MAC                                                   */
+/*  Значение поля раскладывается на значимые символы — hex-цифры      */
+/*  и границы адресов — и собирается заново: цифры по две через       */
+/*  разделитель, адреса через ", ". Каретка запоминается как число    */
+/*  значимых символов перед ней и после сборки встаёт за тот же       */
+/*  символ: вставленные и удалённые разделители её не сдвигают.       */
+/* ------------------------------------------------------------------ */
+
+/** Значение поля и позиция каретки в нём */
+export interface MaskedValue {
+  value: string;
+  caret: number;
+}
+
+export type MacMaskSeparator = "-" | ":";
+
+export interface MacMaskOptions {
+  /** Разделитель групп (по умолчанию "-") */
+  separator?: MacMaskSeparator;
+  /** Длина адреса в октетах: лишние цифры отбрасываются (по умолчанию 6) */
+  length?: MacLength;
+  /** Несколько адресов через запятую (по умолчанию — да) */
+  multiple?: boolean;
+}
+
+/** Направление удаления: Backspace или Delete */
+export type DeleteDirection = "backward" | "forward";
+
+/** Граница адресов в значимых символах */
+const BREAK = ",";
+
+/** Запятая, точка с запятой и пробельные символы разделяют адреса. */
+const BREAK_RE = /[,;\s]/;
+const HEX_RE = /[0-9a-fA-F]/;
+
+/**
+ * Разделитель маски для поля: дефис, если поле принимает нотацию
+ * hyphen, иначе двоеточие; null — маску в этом поле не применить.
+ */
+export function getMacMaskSeparator(
+  notations: readonly MacNotation[],
+): MacMaskSeparator | null {
+  if (notations.includes("hyphen")) return "-";
+  if (notations.includes("colon")) return ":";
+  return null;
+}
+
+interface Significant {
+  /** Hex-цифры в верхнем регистре и BREAK между адресами */
+  chars: string;
+  /** Сколько значимых символов перед кареткой */
+  caret: number;
+}
+
+/**
+ * Значимые символы значения; остальное (разделители групп,
+ * опечатки) отбрасывается.
+ */
+function getSignificant(value: string, caret: number): Significant {
+  let chars = "";
+  let before = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    let significant = "";
+    if (HEX_RE.test(char)) significant = char.toUpperCase();
+    // ", " и другие серии разделителей — одна граница адресов.
+    else if (BREAK_RE.test(char) && !chars.endsWith(BREAK)) {
+      significant = BREAK;
+    }
+    chars += significant;
+    if (i < caret) before += significant.length;
+  }
+  return { chars, caret: before };
+}
+
+/** Собирает значение из значимых символов и переносит каретку. */
+function render(
+  { chars, caret }: Significant,
+  { separator = "-", length = 6, multiple = true }: MacMaskOptions,
+): MaskedValue {
+  const maxDigits = length * 2;
+  let value = "";
+  let position = -1;
+  // Цифр в текущем адресе
+  let digits = 0;
+
+  for (let i = 0; i < chars.length; i++) {
+    if (i === caret) position = value.length;
+    const char = chars[i];
+
+    if (char === BREAK) {
+      // Пустые адреса и повторные разделители не нужны.
+      if (!multiple || digits === 0) continue;
+      value += ", ";
+      digits = 0;
+    } else if (digits < maxDigits) {
+      if (digits > 0 && digits % 2 === 0) value += separator;
+      value += char;
+      digits++;
+    }
+  }
+  return { value, caret: position === -1 ? value.length : position };
+}
+
+/** Приводит значение к маске (например, вставленный текст). */
+export function formatMacInput(
+  value: string,
+  caret: number = value.length,
+  options: MacMaskOptions = {},
+): MaskedValue {
+  return render(getSignificant(value, caret), options);
+}
+
+/**
+ * Правка значения под маской. Если пользователь стёр только
+ * разделитель, стираем и цифру за ним — иначе маска тут же
+ * вернула бы разделитель на место и Backspace «застревал» бы на нём.
+ */
+export function maskMacEdit(
+  previous: string,
+  next: MaskedValue,
+  options: MacMaskOptions = {},
+  direction: DeleteDirection = "backward",
+): MaskedValue {
+  const significant = getSignificant(next.value, next.caret);
+  const { chars, caret } = significant;
+
+  const onlySeparatorsRemoved =
+    next.value.length < previous.length &&
+    chars === getSignificant(previous, previous.length).chars;
+
+  if (onlySeparatorsRemoved) {
+    if (direction === "backward" && caret > 0) {
+      return render(
+        {
+          chars: chars.slice(0, caret - 1) + chars.slice(caret),
+          caret: caret - 1,
+        },
+        options,
+      );
+    }
+    if (direction === "forward") {
+      return render(
+        { chars: chars.slice(0, caret) + chars.slice(caret + 1), caret },
+        options,
+      );
+    }
+  }
+  return render(significant, options);
+}
@@ -0,0 +1,459 @@
+import { rangeToCidrs } from "./ipAggregate";
+import {
+  formatIpValue,
+  getItemBounds,
+  IP_BITS,
+  parseIpItems,
+  type IpVersion,
+} from "./ipExpression";
+import { mergeIntervals } from "./ipSet";
+import {
+  formatMac,
+  MAC_NOTATIONS,
+  parseMac,
+  prefixToIpv4Mask,
+  splitList,
+  type IpOptions,
+  type MacLength,
+} from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Экспорт сетевых параметров                                        */
+/*  Проверенные значения формы раскладываются в модель (элементы IP   */
+/*  с границами, MAC в октетах), а из неё — в форматы данных и        */
+/*  готовые фрагменты конфигураций. То, что формат выразить не может, */
+/*  не теряется молча, а попадает в skipped.                          */
+/* ------------------------------------------------------------------ */
+
+export type ExportFormat =
+  | "json"
+  | "csv"
+  | "yaml"
+  | "iptables"
+  | "nftables"
+  | "cisco"
+  | "dnsmasq"
+  | "isc-dhcp";
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = [
+  "json",
+  "csv",
+  "yaml",
+  "iptables",
+  "nftables",
+  "cisco",
+  "dnsmasq",
+  "isc-dhcp",
+];
+
+const EXPORT_FILES: Record<ExportFormat, { extension: string; mime: string }> =
+  {
+    json: { extension: "json", mime: "application/json" },
+    csv: { extension: "csv", mime: "text/csv" },
+    yaml: { extension: "yaml", mime: "application/yaml" },
+    iptables: { extension: "sh", mime: "text/x-shellscript" },
+    nftables: { extension: "nft", mime: "text/plain" },
+    cisco: { extension: "cfg", mime: "text/plain" },
+    dnsmasq: { extension: "conf", mime: "text/plain" },
+    "isc-dhcp": { extension: "conf", mime: "text/plain" },
+  };
+
+export interface ExportIpEntry {
+  version: IpVersion;
+  kind: "single" | "cidr" | "range";
+  /** Запись элемента: "10.0.0.1", "10.0.0.0/24", "10.0.0.1-10.0.0.9" */
+  value: string;
+  /** Первый адрес элемента */
+  first: string;
+  /** Последний адрес элемента */
+  last: string;
+  /** Границы элемента — для раскладки на CIDR и слияния */
+  bounds: [bigint, bigint];
+}
+
+export interface ExportMacEntry {
+  /** Запись адреса в нотации, в которой он был отправлен */
+  value: string;
+  octets: number[];
+}
+
+export interface ExportData {
+  ips: ExportIpEntry[];
+  macs: ExportMacEntry[];
+}
+
+export interface ExportOptions {
+  /** Имя набора, ACL или префикс имён хостов; по умолчанию "allowed" */
+  name?: string;
+}
+
+export interface ExportResult {
+  content: string;
+  /** Элементы, которые в этом формате выразить нельзя */
+  skipped: string[];
+}
+
+/** Имя файла для скачивания: "allowed.nft", "allowed-dnsmasq.conf". */
+export function getExportFileName(format: ExportFormat, name?: string): string {
+  const base = sanitizeName(name);
+  const { extension } = EXPORT_FILES[format];
+  return format === "dnsmasq" || format === "isc-dhcp"
+    ? `${base}-${format}.${extension}`
+    : `${base}.${extension}`;
+}
+
+export function getExportMimeType(format: ExportFormat): string {
+  return EXPORT_FILES[format].mime;
+}
+
+/* ---------- Модель ---------- */
+
+/**
+ * Модель экспорта из проверенных значений полей. Сокращённые
+ * диапазоны уже развёрнуты парсером, зоны IPv6 сохраняются в записи.
+ */
+export function buildExportData(
+  ip: string,
+  mac: string,
+  {
+    ipOptions,
+    macLength,
+  }: { ipOptions?: IpOptions; macLength?: MacLength } = {},
+): ExportData {
+  const ips = parseIpItems(ip, ipOptions).map((item): ExportIpEntry => {
+    const bounds = getItemBounds(item);
+    const [first, last] = bounds.map((v) => formatIpValue(item.version, v));
+    let value: string;
+    if (item.kind === "single") {
+      value = item.zone ? `${item.address}%${item.zone}` : item.address;
+    } else if (item.kind === "cidr") {
+      value = `${first}/${item.prefix}`;
+    } else {
+      value = `${first}-${last}`;
+    }
+    return {
+      version: item.version,
+      kind: item.kind,
+      value,
+      first,
+      last,
+      bounds,
+    };
+  });
+
+  // Значение уже прошло проверку поля; нотации не ограничиваем —
+  // при отправке MAC могли быть приведены к любой из них.
+  const macOptions = { notations: MAC_NOTATIONS, length: macLength };
+  const macs = splitList(mac).flatMap(({ text }): ExportMacEntry[] => {
+    const octets = text ? parseMac(text, macOptions) : null;
+    return octets ? [{ value: text, octets }] : [];
+  });
+
+  return { ips, macs };
+}
+
+/* ---------- Общие помощники ---------- */
+
+function sanitizeName(name = ""): string {
+  return name.trim().replace(/[^\w-]+/g, "_") || "allowed";
+}
+
+const toColonMac = (mac: ExportMacEntry) =>
+  formatMac(mac.octets, "colon", "lower");
+
+/** Адреса Ethernet (EUI-48) — другие длины наборы и ACL не принимают. */
+const isEthernet = (mac: ExportMacEntry) => mac.octets.length === 6;
+
+/** Элементы одной версии, разложенные на CIDR-блоки. */
+function toCidrBlocks(ips: readonly ExportIpEntry[], version: IpVersion) {
+  return ips
+    .filter((entry) => entry.version === version)
+    .flatMap(({ bounds: [first, last] }) => rangeToCidrs(version, first, last));
+}
+
+/** Запись блока: адрес без префикса, если блок из одного адреса. */
+function formatBlock(version: IpVersion, value: bigint, prefix: number) {
+  const address = formatIpValue(version, value);
+  return BigInt(prefix) === IP_BITS[version] ? address : `${address}/${prefix}`;
+}
+
+/* ---------- Форматы данных ---------- */
+
+function toPlainEntry({ version, kind, value, first, last }: ExportIpEntry) {
+  return { value, version, kind, first, last };
+}
+
+function exportJson(data: ExportData): ExportResult {
+  const content = JSON.stringify(
+    { ip: data.ips.map(toPlainEntry), mac: data.macs.map((m) => m.value) },
+    null,
+    2,
+  );
+  return { content: `${content}\n`, skipped: [] };
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function exportCsv(data: ExportData): ExportResult {
+  const rows: (string | number)[][] = [
+    ["type", "value", "version", "kind", "first", "last"],
+    ...data.ips.map((e) => ["ip", e.value, e.version, e.kind, e.first, e.last]),
+    ...data.macs.map((m) => ["mac", m.value, "", "", "", ""]),
+  ];
+  const content = rows.map((row) => row.map(csvCell).join(",")).join("\n");
+  return { content: `${content}\n`, skipped: [] };
+}
+
+/** Строки YAML — в двойных кавычках: двоеточия в IPv6 и MAC. */
+const yamlString = (value: string) => JSON.stringify(value);
+
+function exportYaml(data: ExportData): ExportResult {
+  const lines = [data.ips.length > 0 ? "ip:" : "ip: []"];
+  for (const e of data.ips) {
+    lines.push(
+      `  - value: ${yamlString(e.value)}`,
+      `    version: ${e.version}`,
+      `    kind: ${e.kind}`,
+      `    first: ${yamlString(e.first)}`,
+      `    last: ${yamlString(e.last)}`,
+    );
+  }
+
+  lines.push(data.macs.length > 0 ? "mac:" : "mac: []");
+  for (const m of data.macs) lines.push(`  - ${yamlString(m.value)}`);
+
+  return { content: `${lines.join("\n")}\n`, skipped: [] };
+}
+
+/* ---------- Межсетевые экраны ---------- */
+
+/**
+ * Наборы ipset и правила iptables/ip6tables, пропускающие их.
+ * Диапазоны раскладываются на CIDR: hash:net для IPv6 их не принимает.
+ */
+function exportIptables(data: ExportData, name: string): ExportResult {
+  const lines: string[] = [];
+  const rules: string[] = [];
+
+  for (const version of [4, 6] as const) {
+    const blocks = toCidrBlocks(data.ips, version);
+    if (blocks.length === 0) continue;
+    const set = `${name}_v${version}`;
+    const family = version === 4 ? "inet" : "inet6";
+    lines.push(`ipset create ${set} hash:net family ${family} -exist`);
+    for (const b of blocks) {
+      lines.push(
+        `ipset add ${set} ${formatBlock(version, b.value, b.prefix)} -exist`,
+      );
+    }
+    const iptables = version === 4 ? "iptables" : "ip6tables";
+    rules.push(`${iptables} -A INPUT -m set --match-set ${set} src -j ACCEPT`);
+  }
+
+  const macs = data.macs.filter(isEthernet);
+  if (macs.length > 0) {
+    const set = `${name}_mac`;
+    lines.push(`ipset create ${set} hash:mac -exist`);
+    for (const m of macs)
+      lines.push(`ipset add ${set} ${toColonMac(m)} -exist`);
+    rules.push(`iptables -A INPUT -m set --match-set ${set} src -j ACCEPT`);
+  }
+
+  return {
+    content: [...lines, ...rules].map((line) => `${line}\n`).join(""),
+    skipped: data.macs.filter((m) => !isEthernet(m)).map((m) => m.value),
+  };
+}
+
+/**
+ * Именованные наборы nftables. В наборе с flags interval элементы
+ * не должны пересекаться, поэтому пересечения сливаются заранее.
+ */
+function exportNftables(data: ExportData, name: string): ExportResult {
+  const sets: string[] = [];
+  const addSet = (
+    set: string,
+    type: string,
+    elements: string[],
+    interval: boolean,
+  ) => {
+    if (elements.length === 0) return;
+    sets.push(
+      [
+        `\tset ${set} {`,
+        `\t\ttype ${type}`,
+        ...(interval ? ["\t\tflags interval"] : []),
+        `\t\telements = { ${elements.join(", ")} }`,
+        "\t}",
+      ].join("\n"),
+    );
+  };
+
+  const intervals = mergeIntervals(
+    data.ips.map(({ version, bounds: [first, last] }) => ({
+      version,
+      first,
+      last,
+    })),
+  );
+  for (const version of [4, 6] as const) {
+    const elements = intervals
+      .filter((i) => i.version === version)
+      .map(({ first, last }) => {
+        const blocks = rangeToCidrs(version, first, last);
+        return blocks.length === 1
+          ? formatBlock(version, blocks[0].value, blocks[0].prefix)
+          : `${formatIpValue(version, first)}-${formatIpValue(version, last)}`;
+      });
+    addSet(`${name}_v${version}`, `ipv${version}_addr`, elements, true);
+  }
+  addSet(
+    `${name}_mac`,
+    "ether_addr",
+    data.macs.filter(isEthernet).map(toColonMac),
+    false,
+  );
+
+  const body = sets.join("\n\n");
+  return {
+    content: `table inet filter {\n${body}${body ? "\n" : ""}}\n`,
+    skipped: data.macs.filter((m) => !isEthernet(m)).map((m) => m.value),
+  };
+}
+
+/** Списки доступа Cisco IOS: IPv4 — с обратными масками, IPv6 — префиксами. */
+function exportCisco(data: ExportData, name: string): ExportResult {
+  const acl = name.toUpperCase();
+  const sections: string[][] = [];
+
+  const v4 = toCidrBlocks(data.ips, 4);
+  if (v4.length > 0) {
+    sections.push([
+      `ip access-list extended ${acl}_V4`,
+      ...v4.map(({ value, prefix }) => {
+        const address = formatIpValue(4, value);
+        return prefix === 32
+          ? ` permit ip host ${address} any`
+          : ` permit ip ${address} ${prefixToIpv4Mask(prefix, "wildcard")} any`;
+      }),
+    ]);
+  }
+
+  const v6 = toCidrBlocks(data.ips, 6);
+  if (v6.length > 0) {
+    sections.push([
+      `ipv6 access-list ${acl}_V6`,
+      ...v6.map(({ value, prefix }) =>
+        prefix === 128
+          ? ` permit ipv6 host ${formatIpValue(6, value)} any`
+          : ` permit ipv6 ${formatBlock(6, value, prefix)} any`,
+      ),
+    ]);
+  }
+
+  const macs = data.macs.filter(isEthernet);
+  if (macs.length > 0) {
+    sections.push([
+      `mac access-list extended ${acl}_MAC`,
+      ...macs.map(
+        (m) => ` permit host ${formatMac(m.octets, "cisco", "lower")} any`,
+      ),
+    ]);
+  }
+
+  return {
+    content: sections.map((s) => `${s.join("\n")}\n`).join("!\n"),
+    skipped: data.macs.filter((m) => !isEthernet(m)).map((m) => m.value),
+  };
+}
+
+/* ---------- DHCP ---------- */
+
+interface DhcpHost {
+  mac: ExportMacEntry;
+  ip?: ExportIpEntry;
+}
+
+/**
+ * Пары «MAC — адрес» для резервирования: i-й MAC получает i-й
+ * одиночный адрес подходящей версии. Подсети, диапазоны и адреса
+ * без пары зарезервировать нельзя — они уходят в skipped.
+ */
+function pairHosts(
+  data: ExportData,
+  versions: readonly IpVersion[],
+): { hosts: DhcpHost[]; skipped: string[] } {
+  const macs = data.macs.filter(isEthernet);
+  const addresses = data.ips.filter(
+    (e) => e.kind === "single" && versions.includes(e.version),
+  );
+  const hosts = macs.map((mac, i) => ({ mac, ip: addresses[i] }));
+  const used = new Set(hosts.map((h) => h.ip));
+  return {
+    hosts,
+    skipped: [
+      ...data.ips.filter((e) => !used.has(e)).map((e) => e.value),
+      ...data.macs.filter((m) => !isEthernet(m)).map((m) => m.value),
+    ],
+  };
+}
+
+function exportDnsmasq(data: ExportData): ExportResult {
+  const { hosts, skipped } = pairHosts(data, [4, 6]);
+  const lines = hosts.map(({ mac, ip }) => {
+    const address = !ip
+      ? ""
+      : ip.version === 6
+        ? `,[${ip.value}]`
+        : `,${ip.value}`;
+    return `dhcp-host=${toColonMac(mac)}${address}\n`;
+  });
+  return { content: lines.join(""), skipped };
+}
+
+/** Хосты ISC DHCP (dhcpd.conf для IPv4). */
+function exportIscDhcp(data: ExportData, name: string): ExportResult {
+  const { hosts, skipped } = pairHosts(data, [4]);
+  const blocks = hosts.map(({ mac, ip }, i) =>
+    [
+      `host ${name}-${i + 1} {`,
+      `  hardware ethernet ${toColonMac(mac)};`,
+      ...(ip ? [`  fixed-address ${ip.value};`] : []),
+      "}",
+    ].join("\n"),
+  );
+  return {
+    content: blocks.map((b) => `${b}\n`).join("\n"),
+    skipped,
+  };
+}
+
+/** Текст экспорта в выбранном формате. */
+export function exportNetworkData(
+  data: ExportData,
+  format: ExportFormat,
+  options: ExportOptions = {},
+): ExportResult {
+  const name = sanitizeName(options.name);
+  switch (format) {
+    case "json":
+      return exportJson(data);
+    case "csv":
+      return exportCsv(data);
+    case "yaml":
+      return exportYaml(data);
+    case "iptables":
+      return exportIptables(data, name);
+    case "nftables":
+      return exportNftables(data, name);
+    case "cisco":
+      return exportCisco(data, name);
+    case "dnsmasq":
+      return exportDnsmasq(data);
+    case "isc-dhcp":
+      return exportIscDhcp(data, name);
+  }
+}
@@ -0,0 +1,244 @@
+import {
+  isMessageKey,
+  type MessageParams,
+  type ValidationMessage,
+} from "../i18n/translate";
+import type { FormValues } from "./formSchema";
+
+/* ------------------------------------------------------------------ */
+/*  Отправка формы                                                    */
+/*  Транспорт отправляет значения и возвращает результат — успех или  */
+/*  отказ с общей ошибкой и ошибками по полям. Исключений наружу не   */
+/*  бросает: сбой сети — такой же отказ, только с retryable: true.    */
+/*  Повторы с нарастающей паузой добавляет обёртка withRetry.         */
+/* ------------------------------------------------------------------ */
+
+/** Ошибки сервера по именам полей формы */
+export type FieldErrors = Record<string, ValidationMessage>;
+
+export interface SubmitSuccess {
+  ok: true;
+  /** Тело ответа сервера (разобранный JSON или null) */
+  data: unknown;
+}
+
+export interface SubmitFailure {
+  ok: false;
+  /** Общая ошибка отправки */
+  error: ValidationMessage;
+  /** Ошибки по полям — показываются под полями формы */
+  fieldErrors: FieldErrors;
+  /** Повтор может помочь: сбой сети, 408, 429, 5xx */
+  retryable: boolean;
+  /** Пауза перед повтором, которую просит сервер (Retry-After), мс */
+  retryAfter?: number;
+}
+
+export type SubmitResult = SubmitSuccess | SubmitFailure;
+
+/** Отправка значений формы; signal отменяет её (например, при уходе со страницы) */
+export type SubmitTransport = (
+  values: FormValues,
+  signal: AbortSignal,
+) => Promise<SubmitResult>;
+
+function failure(
+  error: ValidationMessage,
+  retryable = false,
+  fieldErrors: FieldErrors = {},
+): SubmitFailure {
+  return { ok: false, error, fieldErrors, retryable };
+}
+
+export const SUBMIT_ABORTED = failure({ key: "submit.aborted" });
+
+/* ---------- Ответ сервера ---------- */
+
+/**
+ * Ошибка в ответе сервера: текст или объект с кодом сообщения
+ * из каталога (тогда текст берётся из каталога в текущей локали).
+ */
+function toServerMessage(value: unknown): ValidationMessage | null {
+  if (Array.isArray(value)) return toServerMessage(value[0]);
+  if (typeof value === "string") {
+    return value ? { key: "submit.server", params: { message: value } } : null;
+  }
+  if (value === null || typeof value !== "object") return null;
+
+  const { code, message, params } = value as Record<string, unknown>;
+  if (typeof code === "string" && isMessageKey(code)) {
+    return { key: code, params: toScalarParams(params) };
+  }
+  return toServerMessage(message);
+}
+
+/** Из параметров сервера берём только строки и числа. */
+function toScalarParams(params: unknown): MessageParams | undefined {
+  if (params === null || typeof params !== "object") return undefined;
+  return Object.fromEntries(
+    Object.entries(params).filter(
+      ([, v]) => typeof v === "string" || typeof v === "number",
+    ),
+  );
+}
+
+function toFieldErrors(errors: unknown): FieldErrors {
+  const result: FieldErrors = {};
+  if (errors === null || typeof errors !== "object") return result;
+  for (const [name, value] of Object.entries(errors)) {
+    const message = toServerMessage(value);
+    if (message) result[name] = message;
+  }
+  return result;
+}
+
+/** Retry-After: секунды или HTTP-дата. */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function readJson(response: Response): Promise<unknown> {
+  try {
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Отказ по ответу сервера. Тело ответа (необязательное):
+ *   { "message": "...", "errors": { "ip": "...", "mac": ["..."] } }
+ * Вместо текста можно передать { "code": "<ключ каталога>", "params": {} }.
+ */
+function toFailure(response: Response, body: unknown): SubmitFailure {
+  const { status } = response;
+  const data = (
+    body !== null && typeof body === "object" ? body : {}
+  ) as Record<string, unknown>;
+  const fieldErrors = toFieldErrors(data.errors);
+  const error =
+    toServerMessage(data) ??
+    (status === 400 || status === 422
+      ? { key: "submit.rejected" }
+      : { key: "submit.httpError", params: { status } });
+
+  const retryable = status === 408 || status === 429 || status >= 500;
+  const result = failure(error, retryable, fieldErrors);
+  const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+  return retryAfter === undefined ? result : { ...result, retryAfter };
+}
+
+/* ---------- Транспорт fetch ---------- */
+
+export interface FetchTransportOptions {
+  url: string;
+  /** По умолчанию POST */
+  method?: "POST" | "PUT" | "PATCH";
+  headers?: Record<string, string>;
+  /** Реализация fetch (по умолчанию глобальная) — для тестов и обёрток */
+  fetch?: typeof fetch;
+}
+
+/** Транспорт по умолчанию: значения уходят JSON-объектом в теле запроса. */
+export function createFetchTransport({
+  url,
+  method = "POST",
+  headers,
+  fetch: fetchImpl,
+}: FetchTransportOptions): SubmitTransport {
+  return async (values, signal) => {
+    let response: Response;
+    try {
+      // Глобальный fetch берём в момент отправки, а не создания транспорта.
+      response = await (fetchImpl ?? fetch)(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+          ...headers,
+        },
+        body: JSON.stringify(values),
+        signal,
+      });
+    } catch {
+      return signal.aborted
+        ? SUBMIT_ABORTED
+        : failure({ key: "submit.networkError" }, true);
+    }
+
+    const body = await readJson(response);
+    return response.ok ? { ok: true, data: body } : toFailure(response, body);
+  };
+}
+
+/* ---------- Повторы ---------- */
+
+export interface RetryOptions {
+  /** Сколько раз повторить после первой попытки (по умолчанию 2) */
+  retries?: number;
+  /** Пауза перед первым повтором, мс; дальше она удваивается (по умолчанию 500) */
+  baseDelay?: number;
+  /** Наибольшая пауза, мс (по умолчанию 8000) */
+  maxDelay?: number;
+}
+
+/**
+ * Пауза перед повтором номер attempt (с 1): удвоение от baseDelay
+ * с потолком maxDelay. Retry-After сервера важнее, но тоже
+ * не длиннее maxDelay.
+ */
+export function getRetryDelay(
+  attempt: number,
+  { baseDelay = 500, maxDelay = 8000 }: RetryOptions = {},
+  retryAfter?: number,
+): number {
+  return Math.min(maxDelay, retryAfter ?? baseDelay * 2 ** (attempt - 1));
+}
+
+/** Пауза, которая заканчивается досрочно при отмене. */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done);
+  });
+}
+
+/**
+ * Транспорт с повторами: отказ с retryable: true повторяется
+ * с нарастающей паузой. Ошибки данных (400, 422) не повторяются.
+ * Исключение из транспорта превращается в отказ без повтора.
+ */
+export function withRetry(
+  transport: SubmitTransport,
+  options: RetryOptions = {},
+): SubmitTransport {
+  const { retries = 2 } = options;
+  return async (values, signal) => {
+    for (let attempt = 0; ; attempt++) {
+      let result: SubmitResult;
+      try {
+        result = await transport(values, signal);
+      } catch {
+        return failure({ key: "submit.unexpected" });
+      }
+      if (signal.aborted) return SUBMIT_ABORTED;
+      if (result.ok || !result.retryable || attempt >= retries) return result;
+
+      await wait(
+        getRetryDelay(attempt + 1, options, result.retryAfter),
+        signal,
+      );
+      if (signal.aborted) return SUBMIT_ABORTED;
+    }
+  };
+}
@@ -0,0 +1,92 @@
+import {
+  bigIntToIpv6,
+  formatIpValue,
+  getItemBounds,
+  IP_BITS,
+  type IpCidrItem,
+  type IpVersion,
+} from "./ipExpression";
+import { prefixToIpv4Mask } from "./validators";
+
+/* ------------------------------------------------------------------ */
+/*  Калькулятор подсети                                               */
+/*  Всё, что обычно смотрят во внешнем калькуляторе: границы сети,    */
+/*  диапазон узлов, маска в разных записях, число адресов.            */
+/* ------------------------------------------------------------------ */
+
+export interface SubnetInfo {
+  version: IpVersion;
+  prefix: number;
+  /** Адрес сети: "192.168.1.0" */
+  network: string;
+  /**
+   * Широковещательный адрес. У IPv6 широковещания нет, у /31 и /32
+   * (RFC 3021) оба адреса отданы узлам — там null.
+   */
+  broadcast: string | null;
+  /** Первый адрес для узлов */
+  firstHost: string;
+  /** Последний адрес для узлов */
+  lastHost: string;
+  /** Маска: "255.255.255.0", "ffff:ffff:ffff:ffff::" */
+  netmask: string;
+  /** Обратная маска: "0.0.0.255", "::ffff:ffff:ffff:ffff" */
+  wildcard: string;
+  /** Всего адресов в подсети */
+  addressCount: bigint;
+  /** Адресов, которые можно назначить узлам */
+  hostCount: bigint;
+  /**
+   * Маска в двоичном виде по октетам (IPv4) или группам (IPv6):
+   * "11111111.11111111.11111111.00000000"
+   */
+  maskBinary: string;
+}
+
+/** Маска префикса в двоичном виде: 8 бит на октет IPv4, 16 на группу IPv6. */
+function formatMaskBinary(version: IpVersion, prefix: number): string {
+  const bits = "1".repeat(prefix).padEnd(Number(IP_BITS[version]), "0");
+  const width = version === 4 ? 8 : 16;
+  const chunks = bits.match(new RegExp(`.{${width}}`, "g"))!;
+  return chunks.join(version === 4 ? "." : ":");
+}
+
+/**
+ * Параметры подсети для CIDR-элемента (в том числе записанного
+ * маской). Биты хоста в адресе не мешают: считается сеть,
+ * в которую адрес входит.
+ */
+export function calculateSubnet(item: IpCidrItem): SubnetInfo {
+  const { version, prefix } = item;
+  const [first, last] = getItemBounds(item);
+  const addressCount = last - first + 1n;
+  const hostMask = addressCount - 1n;
+  const format = (value: bigint) => formatIpValue(version, value);
+
+  // В IPv4 адрес сети и широковещательный не назначаются узлам,
+  // кроме point-to-point /31 и одиночного /32.
+  const hasBroadcast = version === 4 && prefix < 31;
+  const firstHost = hasBroadcast ? first + 1n : first;
+  const lastHost = hasBroadcast ? last - 1n : last;
+
+  return {
+    version,
+    prefix,
+    network: format(first),
+    broadcast: hasBroadcast ? format(last) : null,
+    firstHost: format(firstHost),
+    lastHost: format(lastHost),
+    // Маски IPv6 — без смешанной записи встроенного IPv4.
+    netmask:
+      version === 4
+        ? prefixToIpv4Mask(prefix)
+        : bigIntToIpv6(((1n << IP_BITS[6]) - 1n) ^ hostMask, false),
+    wildcard:
+      version === 4
+        ? prefixToIpv4Mask(prefix, "wildcard")
+        : bigIntToIpv6(hostMask, false),
+    addressCount,
+    hostCount: lastHost - firstHost + 1n,
+    maskBinary: formatMaskBinary(version, prefix),
+  };
+}
@@ -1,4 +1,11 @@
 import { z } from "zod";
+import {
+  DEFAULT_LOCALE,
+  formatMessage,
+  translate,
+  type MessageKey,
+  type ValidationMessage,
+} from "../i18n/translate";
 
 type ZodWithIpHelpers = typeof z & {
   ipv4?: () => z.ZodString;
@@ -11,16 +18,139 @@ const zIp = z as ZodWithIpHelpers;
 
 /* ------------------------------------------------------------------ */
 /*  Общие текстовые сообщения валидации                               */
+/*  Валидаторы оперируют ключами каталога (src/i18n), а TEXT_*        */
+/*  сохранены как тексты локали по умолчанию для строковых API.       */
 /* ------------------------------------------------------------------ */
 
-export const TEXT_INVALID_SUBNET = "Неверно определена подсеть";
-export const TEXT_INVALID_IP = "Некорректный IP-адрес";
-export const TEXT_RANGE_ALLOWED = "Допустимый диапазон IPv4 или IPv6";
-export const TEXT_RANGE_ORDER = "Неверный порядок IP в диапазоне";
-export const TEXT_IP_VERSION_MISMATCH = "IP версии должны совпадать";
-export const TEXT_ALLOWED_CHARS =
-  'Поле может содержать только цифры, буквы "a-f", "A-F" и символы .:/,-';
-export const TEXT_INVALID_MAC = "Некорректный MAC-адрес";
+export const TEXT_INVALID_SUBNET = translate(
+  DEFAULT_LOCALE,
+  "ip.invalidSubnet",
+);
+export const TEXT_INVALID_IP = translate(DEFAULT_LOCALE, "ip.invalid");
+export const TEXT_RANGE_ALLOWED = translate(DEFAULT_LOCALE, "ip.rangeAllowed");
+export const TEXT_RANGE_ORDER = translate(DEFAULT_LOCALE, "ip.rangeOrder");
+export const TEXT_IP_VERSION_MISMATCH = translate(
+  DEFAULT_LOCALE,
+  "ip.versionMismatch",
+);
+export const TEXT_ALLOWED_CHARS = translate(
+  DEFAULT_LOCALE,
+  "common.allowedChars",
+);
+export const TEXT_INVALID_MAC = translate(DEFAULT_LOCALE, "mac.invalid");
+export const TEXT_INVALID_IP_FORMAT = translate(
+  DEFAULT_LOCALE,
+  "ip.invalidFormat",
+);
+export const TEXT_INVALID_MAC_LIST = translate(
+  DEFAULT_LOCALE,
+  "mac.invalidList",
+);
+
+/* ------------------------------------------------------------------ */
+/*  Стабильные коды ошибок                                            */
+/*  Тексты сообщений могут меняться, коды — нет: по ним потребители   */
+/*  (форма, тесты, внешние экраны) различают вид ошибки.              */
+/* ------------------------------------------------------------------ */
+
+export type ValidationErrorCode =
+  | "INVALID_IP"
+  | "IP_FORMAT"
+  | "CIDR_PREFIX"
+  | "CIDR_HOST_BITS"
+  | "ZONE_FORMAT"
+  | "ZONE_SCOPE"
+  | "ZONE_CONTEXT"
+  | "MASK_NON_CONTIGUOUS"
+  | "MASK_AMBIGUOUS"
+  | "SHORT_RANGE_SIZE"
+  | "RANGE_FORMAT"
+  | "RANGE_ORDER"
+  | "VERSION_MISMATCH"
+  | "ALLOWED_CHARS"
+  | "REQUIRED"
+  | "INVALID_MAC"
+  | "MAC_LIST_FORMAT"
+  | "MAC_SEGMENT_COUNT"
+  | "MAC_EMPTY_SEGMENT"
+  | "MAC_HEX";
+
+const ERROR_CODES: Partial<Record<MessageKey, ValidationErrorCode>> = {
+  "ip.invalid": "INVALID_IP",
+  "ip.invalidFormat": "IP_FORMAT",
+  "ip.invalidSubnet": "CIDR_PREFIX",
+  "ip.cidrHostBits": "CIDR_HOST_BITS",
+  "ip.cidrHostBitsFix": "CIDR_HOST_BITS",
+  "ip.zoneInvalid": "ZONE_FORMAT",
+  "ip.zoneScope": "ZONE_SCOPE",
+  "ip.zoneContext": "ZONE_CONTEXT",
+  "ip.maskNonContiguous": "MASK_NON_CONTIGUOUS",
+  "ip.maskAmbiguous": "MASK_AMBIGUOUS",
+  "ip.shortRangeTooLarge": "SHORT_RANGE_SIZE",
+  "ip.rangeAllowed": "RANGE_FORMAT",
+  "ip.rangeOrder": "RANGE_ORDER",
+  "ip.versionMismatch": "VERSION_MISMATCH",
+  "common.allowedChars": "ALLOWED_CHARS",
+  "common.required": "REQUIRED",
+  "mac.invalid": "INVALID_MAC",
+  "mac.invalidList": "MAC_LIST_FORMAT",
+  "mac.tooManySegments": "MAC_SEGMENT_COUNT",
+  "mac.emptySegment": "MAC_EMPTY_SEGMENT",
+  "mac.invalidHex": "MAC_HEX",
+};
+
+/** Возвращает стабильный код для ключа сообщения валидатора. */
+export function getErrorCode(key: MessageKey): ValidationErrorCode {
+  return ERROR_CODES[key] ?? "INVALID_IP";
+}
+
+/** Сообщение валидатора без параметров. */
+function msg(key: MessageKey): ValidationMessage {
+  return { key };
+}
+
+/** Достаёт сообщение из первой ошибки Zod (там хранится ключ каталога). */
+function issueMessage(error: z.ZodError): ValidationMessage {
+  return msg(error.issues[0].message as MessageKey);
+}
+
+/** Текст сообщения в локали по умолчанию ("" — нет ошибки). */
+function toDefaultText(message: ValidationMessage | null): string {
+  return message ? formatMessage(DEFAULT_LOCALE, message) : "";
+}
+
+/* ------------------------------------------------------------------ */
+/*  Разбор списка через запятую                                       */
+/* ------------------------------------------------------------------ */
+
+/** Элемент списка через запятую с позициями в исходной строке. */
+export interface ListItem {
+  /** Порядковый номер элемента в списке (с нуля) */
+  index: number;
+  /** Текст элемента без пробелов по краям */
+  text: string;
+  /** Позиция первого символа `text` в исходной строке */
+  start: number;
+  /** Позиция сразу после последнего символа `text` */
+  end: number;
+}
+
+/**
+ * Делит значение поля на элементы по запятым, сохраняя смещения.
+ * Для пустого элемента start === end и указывает на место, где он стоял.
+ */
+export function splitList(value: string): ListItem[] {
+  const items: ListItem[] = [];
+  let offset = 0;
+  value.split(",").forEach((raw, index) => {
+    const lead = raw.length - raw.trimStart().length;
+    const text = raw.trim();
+    const start = offset + lead;
+    items.push({ index, text, start, end: start + text.length });
+    offset += raw.length + 1;
+  });
+  return items;
+}
 
 /* ------------------------------------------------------------------ */
 /*  IP / MAC  validation helpers (на базе Zod)                        */
@@ -44,10 +174,24 @@ const IPV4_PARTIAL = `${OCTET}(\\.${OCTET}){0,2}(\\.${OCTET}?\\.?)?`;
 
 const H16 = `[0-9a-fA-F]{1,4}`;
 
+/**
+ * IPv6 со встроенным IPv4 в младших 32 битах (RFC 4291, 2.2.3):
+ * "::ffff:192.168.1.1", "64:ff9b::10.0.0.1", "1:2:3:4:5:6:1.2.3.4".
+ */
+const IPV6_V4_EMBEDDED =
+  `(${H16}:){6}${IPV4_FULL}` +
+  `|::(${H16}:){0,5}${IPV4_FULL}` +
+  `|(${H16}:){1,5}:${IPV4_FULL}` +
+  `|(${H16}:){1,4}(:${H16}){1}:${IPV4_FULL}` +
+  `|(${H16}:){1,3}(:${H16}){1,2}:${IPV4_FULL}` +
+  `|(${H16}:){1,2}(:${H16}){1,3}:${IPV4_FULL}` +
+  `|${H16}:(:${H16}){1,4}:${IPV4_FULL}`;
+
 /** Упрощённая проверка полного IPv6 (стандартная + сжатая формы) */
 const IPV6_FULL =
   `(` +
-  `(${H16}:){7}${H16}` + // 1:2:3:4:5:6:7:8
+  `${IPV6_V4_EMBEDDED}` +
+  `|(${H16}:){7}${H16}` + // 1:2:3:4:5:6:7:8
   `|(${H16}:){1,7}:` + // 1::  …  1:2:3:4:5:6:7::
   `|(${H16}:){1,6}:${H16}` + // 1::8  …  1:2:3:4:5:6::8
   `|(${H16}:){1,5}(:${H16}){1,2}` +
@@ -61,8 +205,9 @@ const IPV6_FULL =
 
 /** Частичный IPv6: разрешаем набираемые сегменты вроде "2001:", "fe80::1",
  *  но требуем наличие хотя бы одного двоеточия, чтобы отсечь строки вида "abc".
+ *  Допускаем и набираемый IPv4-хвост: "::ffff:192.168.".
  */
-const IPV6_PARTIAL = `(?=.*:)[0-9a-fA-F:]{1,39}`;
+const IPV6_PARTIAL = `(?=.*:)[0-9a-fA-F:]{1,39}(\\.${OCTET}?){0,3}`;
 
 // ==================== CIDR ====================
 
@@ -76,6 +221,8 @@ const IPV6_CIDR_FULL = `${IPV6_FULL}${CIDR_SUFFIX_V6}`;
  *  Например, разрешаем "10.0.0.0/", "10.0.0.0/2", но не "192.168.1/24".
  */
 const IPV4_CIDR_PARTIAL = `${IPV4_FULL}(/[0-9]{0,2})?`;
+/** Набираемая маска через пробел: "192.168.1.0 255.255." */
+const IPV4_MASK_PARTIAL = `${IPV4_FULL}\\s+${IPV4_PARTIAL}`;
 const IPV6_CIDR_PARTIAL = `${IPV6_PARTIAL}(/[0-9]{0,3})?`;
 
 // ==================== Range (через дефис) ====================
@@ -100,7 +247,7 @@ const SINGLE_FULL =
 
 const SINGLE_PARTIAL =
   `(` +
-  `${IPV4_CIDR_PARTIAL}|${IPV4_RANGE_PARTIAL}` +
+  `${IPV4_MASK_PARTIAL}|${IPV4_CIDR_PARTIAL}|${IPV4_RANGE_PARTIAL}` +
   `|${IPV6_CIDR_PARTIAL}|${IPV6_RANGE_PARTIAL}` +
   `)`;
 
@@ -116,6 +263,28 @@ const PARTIAL_LIST = `^\\s*${SINGLE_PARTIAL}(\\s*,\\s*${SINGLE_PARTIAL})*(\\s*,\
 
 const reIpFull = new RegExp(FULL_LIST);
 const reIpPartial = new RegExp(PARTIAL_LIST);
+const reIpv4Partial = new RegExp(`^${IPV4_PARTIAL}$`);
+
+/**
+ * Группы IPv6-адреса по двоеточиям. IPv4-хвост ("…:192.168.1.1")
+ * отделяется: он занимает две 16-битные группы.
+ */
+function splitIpv6Groups(address: string): {
+  hex: string[];
+  v4: string | null;
+} {
+  const groups = address.split(":");
+  const last = groups[groups.length - 1];
+  return last.includes(".")
+    ? { hex: groups.slice(0, -1), v4: last }
+    : { hex: groups, v4: null };
+}
+
+/** Число непустых 16-битных групп (IPv4-хвост считается за две). */
+function countIpv6Groups(address: string): number {
+  const { hex, v4 } = splitIpv6Groups(address);
+  return hex.filter((g) => g.length > 0).length + (v4 ? 2 : 0);
+}
 
 // Атомарные Zod-схемы для *полных* IPv4/IPv6-токенов.
 // Используем ip-хелперы zod, если они доступны в текущей версии, иначе
@@ -140,27 +309,72 @@ const Cidrv6TokenSchema =
     ? zIp.cidrv6()
     : z.string().regex(new RegExp(`^${IPV6_CIDR_FULL}$`));
 
-function isFullIpv4Token(value: string): boolean {
+export function isFullIpv4Token(value: string): boolean {
   return Ipv4TokenSchema.safeParse(value).success;
 }
 
-function isFullIpv6Token(value: string): boolean {
+export function isFullIpv6Token(value: string): boolean {
   return Ipv6TokenSchema.safeParse(value).success;
 }
 
-function isValidCidrV4Token(value: string): boolean {
-  return Cidrv4TokenSchema.safeParse(value).success;
+export interface IpOptions {
+  /**
+   * Строгий CIDR: биты хоста ниже префикса ("192.168.1.77/24")
+   * считаются ошибкой, а не просто подозрительным вводом.
+   * Проверяется только полной валидацией.
+   */
+  strictCidr?: boolean;
+  /**
+   * Разрешить идентификатор зоны у IPv6: "fe80::1%eth0", "ff02::1%3".
+   * Только для link-local и multicast, не в диапазонах и подсетях.
+   */
+  allowZones?: boolean;
+  /**
+   * Разрешить сокращённые диапазоны IPv4: "192.168.1.10-50",
+   * "10.0.*.1", "10.0.1-3.0/24".
+   */
+  allowShortRanges?: boolean;
+  /**
+   * Запись масок 0.0.0.0 и 255.255.255.255, если её не задают другие
+   * маски значения. Нужна, когда элемент списка проверяют отдельно
+   * (см. getIpItemOptions).
+   */
+  maskNotation?: Ipv4MaskNotation;
 }
 
-function isValidCidrV6Token(value: string): boolean {
-  return Cidrv6TokenSchema.safeParse(value).success;
+/**
+ * Есть ли в *корректном* CIDR-токене ненулевые биты хоста ниже
+ * префикса: "192.168.1.77/24" — да, "192.168.1.0/24" — нет.
+ */
+export function hasCidrHostBits(token: string): boolean {
+  const [address, prefixText] = token.split("/");
+  const isV6 = address.includes(":");
+  const value = isV6 ? ipv6ToBigInt(address) : BigInt(ipv4ToNumber(address));
+  const hostBits = BigInt((isV6 ? 128 : 32) - Number.parseInt(prefixText, 10));
+  return (value & ((1n << hostBits) - 1n)) !== 0n;
+}
+
+function isValidCidrV4Token(value: string, options: IpOptions = {}): boolean {
+  if (!Cidrv4TokenSchema.safeParse(value).success) return false;
+  return !options.strictCidr || !hasCidrHostBits(value);
 }
 
-function ipv4ToNumber(ip: string): number {
+function isValidCidrV6Token(value: string, options: IpOptions = {}): boolean {
+  if (!Cidrv6TokenSchema.safeParse(value).success) return false;
+  return !options.strictCidr || !hasCidrHostBits(value);
+}
+
+/** Переводит полный IPv4-адрес в 32-битное число (без знака). */
+export function ipv4ToNumber(ip: string): number {
   const parts = ip.split(".").map((p) => Number.parseInt(p, 10));
   return ((parts[0] * 256 + parts[1]) * 256 + parts[2]) * 256 + parts[3];
 }
 
+/** Обратное к ipv4ToNumber преобразование: число → "a.b.c.d". */
+export function numberToIpv4(value: number): string {
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff).join(".");
+}
+
 function hasIpVersionMismatchInRange(value: string): boolean {
   const items = value.split(",");
   for (const item of items) {
@@ -180,7 +394,19 @@ function hasIpVersionMismatchInRange(value: string): boolean {
   return false;
 }
 
-function ipv6ToBigInt(ip: string): bigint {
+/**
+ * Переводит полный IPv6-адрес (в т.ч. сжатый через "::" и со встроенным
+ * IPv4: "::ffff:192.168.1.1") в 128-битное число.
+ */
+export function ipv6ToBigInt(ip: string): bigint {
+  // IPv4-хвост заменяем двумя 16-битными группами.
+  const { hex, v4 } = splitIpv6Groups(ip);
+  if (v4 !== null) {
+    const n = ipv4ToNumber(v4);
+    hex.push((n >>> 16).toString(16), (n & 0xffff).toString(16));
+    ip = hex.join(":");
+  }
+
   const hasDoubleColon = ip.includes("::");
 
   if (!hasDoubleColon) {
@@ -367,9 +593,12 @@ function isIpPartialAllowed(value: string): boolean {
           continue;
         }
 
-        // Разбор на группы.
-        const groups = t.split(":");
-        const nonEmpty = groups.filter((g) => g.length > 0).length;
+        // Разбор на группы; IPv4-хвост проверяем как частичный IPv4.
+        const { hex: groups, v4 } = splitIpv6Groups(t);
+        const nonEmpty = countIpv6Groups(t);
+        if (v4 !== null && !reIpv4Partial.test(v4)) {
+          return false;
+        }
 
         // Не допускаем адреса, которые начинаются с одиночного двоеточия
         // и далее содержат хотя бы одну непустую группу (" :2001:db8:... "),
@@ -478,6 +707,443 @@ function isIpPartialAllowed(value: string): boolean {
   return false;
 }
 
+// ==================== Маски IPv4 ====================
+
+/**
+ * Запись маски IPv4:
+ * - netmask:  сетевая маска, "255.255.255.0" (конфигурации интерфейсов)
+ * - wildcard: обратная маска, "0.0.0.255" (ACL Cisco)
+ */
+export type Ipv4MaskNotation = "netmask" | "wildcard";
+
+export interface Ipv4Mask {
+  notation: Ipv4MaskNotation;
+  prefix: number;
+}
+
+/** Длина префикса, если маска непрерывна в этой записи, иначе null. */
+function getIpv4MaskPrefix(
+  value: number,
+  notation: Ipv4MaskNotation,
+): number | null {
+  // Единицы хостовой части — непрерывный хвост: x & (x + 1) === 0.
+  const host = notation === "netmask" ? ~value >>> 0 : value;
+  return (host & (host + 1)) === 0 ? Math.clz32(host) : null;
+}
+
+/**
+ * Длина префикса по маске в любой записи или null, если единицы
+ * и нули в маске чередуются. Маски 0.0.0.0 и 255.255.255.255
+ * непрерывны в обеих записях (/0 и /32 или наоборот): их читаем
+ * в записи notation, а без неё возвращаем null.
+ */
+export function parseIpv4Mask(
+  mask: string,
+  notation?: Ipv4MaskNotation,
+): Ipv4Mask | null {
+  const value = ipv4ToNumber(mask);
+  const netmask = getIpv4MaskPrefix(value, "netmask");
+  const wildcard = getIpv4MaskPrefix(value, "wildcard");
+  if (netmask !== null && wildcard !== null) {
+    if (!notation) return null;
+    return { notation, prefix: notation === "netmask" ? netmask : wildcard };
+  }
+  if (netmask !== null) return { notation: "netmask", prefix: netmask };
+  if (wildcard !== null) return { notation: "wildcard", prefix: wildcard };
+  return null;
+}
+
+/** 0.0.0.0 или 255.255.255.255: запись маски не понять без контекста. */
+function isAmbiguousIpv4Mask(mask: string): boolean {
+  const value = ipv4ToNumber(mask);
+  return value === 0 || value === 0xffffffff;
+}
+
+/** Маска для длины префикса: 24 → "255.255.255.0" или "0.0.0.255". */
+export function prefixToIpv4Mask(
+  prefix: number,
+  notation: Ipv4MaskNotation = "netmask",
+): string {
+  const netmask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+  return numberToIpv4(notation === "netmask" ? netmask : ~netmask >>> 0);
+}
+
+/**
+ * Делит элемент вида "192.168.1.0 255.255.255.0" или
+ * "192.168.1.0/255.255.255.0" на адрес и маску; null — это не такой элемент.
+ */
+export function splitIpv4Mask(text: string): [string, string] | null {
+  const parts = text.trim().split(/\s+|\//);
+  if (parts.length !== 2) return null;
+  const [address, mask] = parts;
+  return isFullIpv4Token(address) && isFullIpv4Token(mask)
+    ? [address, mask]
+    : null;
+}
+
+/**
+ * Запись масок в значении: общая запись однозначных масок или
+ * undefined, если их нет или записи смешаны. По ней читаются маски
+ * 0.0.0.0 и 255.255.255.255: в "10.0.0.0 0.0.0.255, 10.0.1.1 0.0.0.0"
+ * вторая маска обратная — это один адрес 10.0.1.1.
+ */
+export function getIpv4MaskNotation(
+  value: string,
+): Ipv4MaskNotation | undefined {
+  const notations = new Set<Ipv4MaskNotation>();
+  for (const { text } of splitList(value)) {
+    const masked = splitIpv4Mask(text);
+    const parsed = masked && parseIpv4Mask(masked[1]);
+    if (parsed) notations.add(parsed.notation);
+  }
+  return notations.size === 1 ? [...notations][0] : undefined;
+}
+
+/**
+ * Настройки для проверки одного элемента списка: запись неоднозначных
+ * масок берётся из всего значения.
+ */
+export function getIpItemOptions(
+  value: string,
+  options?: IpOptions,
+): IpOptions {
+  const maskNotation = getIpv4MaskNotation(value) ?? options?.maskNotation;
+  return { ...options, maskNotation };
+}
+
+/** Октеты непрерывных масок: сетевой и обратной */
+const NETMASK_OCTETS = [0, 128, 192, 224, 240, 248, 252, 254, 255];
+const WILDCARD_OCTETS = NETMASK_OCTETS.map((octet) => 255 - octet);
+
+/**
+ * Маска, которую ещё набирают: последний октет можно дописать так,
+ * что маска станет непрерывной ("0.0.0.25" → "0.0.0.255",
+ * "255.255.255.24" → "255.255.255.240").
+ */
+function canCompleteIpv4Mask(mask: string): boolean {
+  const octets = mask.split(".");
+  const last = octets.pop()!;
+  if (last.length >= 3) return false;
+  for (let octet = 0; octet <= 255; octet++) {
+    const digits = String(octet);
+    if (digits.length <= last.length || !digits.startsWith(last)) continue;
+    // Запись неважна: годится и 255.255.255.255.
+    if (parseIpv4Mask([...octets, digits].join("."), "netmask")) return true;
+  }
+  return false;
+}
+
+/**
+ * Второй адрес элемента похож на маску: все октеты — из сетевых масок
+ * ("255.0.255.0") или все — из обратных, либо это недописанная маска
+ * ("0.0.0.25"). "10.0.0.1 10.0.0.2" — два адреса без запятой, а не
+ * адрес с маской.
+ */
+function looksLikeIpv4Mask(mask: string): boolean {
+  const octets = mask.split(".").map(Number);
+  return (
+    [NETMASK_OCTETS, WILDCARD_OCTETS].some((allowed) =>
+      octets.every((octet) => allowed.includes(octet)),
+    ) || canCompleteIpv4Mask(mask)
+  );
+}
+
+/**
+ * Переписывает элементы с маской в CIDR ("10.0.0.0 0.0.0.255" →
+ * "10.0.0.0/24"), чтобы дальше их проверяли обычные валидаторы.
+ * При вводе (partial) маску в последнем элементе, которую ещё можно
+ * дописать до непрерывной, не проверяем — остаётся только адрес.
+ */
+function convertIpv4Masks(
+  value: string,
+  mode: "partial" | "full",
+  options: IpOptions = {},
+): {
+  converted: string;
+  error: ValidationMessage | null;
+} {
+  const items = splitList(value);
+  const notation = getIpv4MaskNotation(value) ?? options.maskNotation;
+  let converted = "";
+  let offset = 0;
+
+  for (const { index, text, start, end } of items) {
+    const masked = splitIpv4Mask(text);
+    if (!masked) continue;
+
+    const [address, mask] = masked;
+    const isTyping = mode === "partial" && index === items.length - 1;
+    if (isAmbiguousIpv4Mask(mask) && !notation) {
+      // При вводе запись ещё может задать следующий элемент.
+      if (mode === "full") {
+        return {
+          converted: value,
+          error: { key: "ip.maskAmbiguous", params: { mask } },
+        };
+      }
+      converted += value.slice(offset, start) + address;
+      offset = end;
+      continue;
+    }
+    const parsed = parseIpv4Mask(mask, notation);
+    if (!parsed && isTyping && canCompleteIpv4Mask(mask)) {
+      converted += value.slice(offset, start) + address;
+      offset = end;
+      continue;
+    }
+    // Не маска, а два адреса без запятой: при вводе — обычная ошибка
+    // формата, в полной проверке элемент отклонят обычные валидаторы.
+    if (!parsed && !looksLikeIpv4Mask(mask)) {
+      if (mode === "full") continue;
+      return { converted: value, error: msg("ip.invalidFormat") };
+    }
+    if (!parsed) {
+      return {
+        converted: value,
+        error: { key: "ip.maskNonContiguous", params: { mask } },
+      };
+    }
+
+    converted += `${value.slice(offset, start)}${address}/${parsed.prefix}`;
+    offset = end;
+  }
+
+  return { converted: converted + value.slice(offset), error: null };
+}
+
+// ==================== Сокращённые диапазоны IPv4 ====================
+
+/** Октет шаблона: число, "*" или диапазон значений "1-3" */
+const OCTET_PATTERN = `(\\*|${OCTET}(-${OCTET})?)`;
+/** Набираемый октет шаблона: допускаем висящий дефис "10-" */
+const OCTET_PATTERN_PARTIAL = `(\\*|${OCTET}(-${OCTET}?)?)`;
+
+const reShortRange = new RegExp(
+  `^${OCTET_PATTERN}(\\.${OCTET_PATTERN}){3}(${CIDR_SUFFIX_V4})?$`,
+);
+const reShortRangePartial = new RegExp(
+  `^${OCTET_PATTERN_PARTIAL}(\\.${OCTET_PATTERN_PARTIAL}?){0,3}(/[0-9]{0,2})?$`,
+);
+/** Признак шаблона: звёздочка или дефис внутри октета */
+const reShortRangeMark = /\*|\d-/;
+
+/** Больше интервалов шаблон дать не может ("10.0.*.1" — 256 адресов) */
+export const SHORT_RANGE_MAX_PARTS = 256;
+
+export interface Ipv4ShortRange {
+  /** Границы каждого октета: "*" → [0, 255], "1-3" → [1, 3], "7" → [7, 7] */
+  octets: [number, number][];
+  /** Длина префикса, если указана: "10.0.1-3.0/24" → 24 */
+  prefix: number | null;
+}
+
+/**
+ * Разбирает сокращённый диапазон IPv4. Возвращает null для всего,
+ * что не является шаблоном, в том числе для обычных адресов,
+ * CIDR и диапазонов из двух полных адресов.
+ */
+export function parseIpv4ShortRange(text: string): Ipv4ShortRange | null {
+  const t = text.trim();
+  if (!reShortRange.test(t) || !reShortRangeMark.test(t)) return null;
+
+  const [address, prefixText] = t.split("/");
+  const octets = address.split(".").map((octet): [number, number] => {
+    if (octet === "*") return [0, 255];
+    const [lo, hi = lo] = octet.split("-").map((n) => Number.parseInt(n, 10));
+    return [lo, hi];
+  });
+  const prefix = prefixText === undefined ? null : Number(prefixText);
+  return { octets, prefix };
+}
+
+/** Маски битов хоста в каждом октете: для "/20" — [0, 0, 0x0f, 0xff]. */
+function getOctetHostMasks(prefix: number | null): number[] {
+  return [0, 1, 2, 3].map((i) => {
+    const bits = prefix === null ? 8 : Math.min(Math.max(prefix - i * 8, 0), 8);
+    return 0xff >> bits;
+  });
+}
+
+/** Границы октетов с учётом префикса: биты хоста пробегают все значения. */
+function getShortRangeOctets({
+  octets,
+  prefix,
+}: Ipv4ShortRange): [number, number][] {
+  const hostMasks = getOctetHostMasks(prefix);
+  return octets.map(([lo, hi], i) => [lo & ~hostMasks[i], hi | hostMasks[i]]);
+}
+
+/** Строгий CIDR: каждый адрес шаблона должен быть адресом сети. */
+export function hasShortRangeHostBits({
+  octets,
+  prefix,
+}: Ipv4ShortRange): boolean {
+  const hostMasks = getOctetHostMasks(prefix);
+  return octets.some(
+    ([lo, hi], i) =>
+      hostMasks[i] !== 0 && (lo !== hi || (lo & hostMasks[i]) !== 0),
+  );
+}
+
+/** Шаблон с обнулёнными битами хоста: "10.0.1-2.77/24" → "10.0.1-2.0/24". */
+export function getShortRangeNetwork({
+  octets,
+  prefix,
+}: Ipv4ShortRange): string {
+  const hostMasks = getOctetHostMasks(prefix);
+  const address = octets
+    .map(([lo, hi], i) => {
+      const [first, last] = [lo & ~hostMasks[i], hi & ~hostMasks[i]];
+      if (first === last) return String(first);
+      return first === 0 && last === 255 ? "*" : `${first}-${last}`;
+    })
+    .join(".");
+  return prefix === null ? address : `${address}/${prefix}`;
+}
+
+/**
+ * Разворачивает шаблон в отсортированные непересекающиеся интервалы
+ * адресов [first, last]. Октеты правее последнего «неполного» сливаются
+ * в один интервал: "10.0.1-3.*" — это один диапазон, а "10.0.*.1" —
+ * 256 одиночных адресов. Возвращает null, если интервалов больше limit.
+ */
+export function expandIpv4ShortRange(
+  range: Ipv4ShortRange,
+  limit = SHORT_RANGE_MAX_PARTS,
+): [number, number][] | null {
+  const octets = getShortRangeOctets(range);
+
+  let split = octets.length - 1;
+  while (split >= 0 && octets[split][0] === 0 && octets[split][1] === 255) {
+    split--;
+  }
+  if (split < 0) return [[0, 0xffffffff]];
+
+  const head = octets.slice(0, split);
+  const parts = head.reduce((n, [lo, hi]) => n * (hi - lo + 1), 1);
+  if (parts > limit) return null;
+
+  let prefixes = [0];
+  for (const [lo, hi] of head) {
+    prefixes = prefixes.flatMap((p) =>
+      Array.from({ length: hi - lo + 1 }, (_, k) => p * 256 + lo + k),
+    );
+  }
+
+  const [lo, hi] = octets[split];
+  const tail = 256 ** (octets.length - 1 - split);
+  return prefixes.map((p) => [
+    (p * 256 + lo) * tail,
+    (p * 256 + hi + 1) * tail - 1,
+  ]);
+}
+
+/**
+ * Переписывает шаблоны в обычные диапазоны "первый-последний адрес",
+ * чтобы дальше значение проверяли обычные валидаторы. При вводе
+ * (partial) недописанный шаблон сводится к своему началу
+ * ("10.0.*." → "10.0.0."), а порядок границ в последнем элементе
+ * не проверяется: "10-5" ещё может стать "10-50".
+ */
+function convertShortRanges(
+  value: string,
+  mode: "partial" | "full",
+  options: IpOptions = {},
+): { converted: string; error: ValidationMessage | null } {
+  const items = splitList(value);
+  let converted = "";
+  let offset = 0;
+
+  for (const { index, text, start, end } of items) {
+    const isTyping = mode === "partial" && index === items.length - 1;
+    let replacement: string | null = null;
+
+    const range = parseIpv4ShortRange(text);
+    const isOrdered = range?.octets.every(([lo, hi]) => lo <= hi);
+
+    if (range && isOrdered) {
+      const parts = expandIpv4ShortRange(range);
+      if (!parts) {
+        return {
+          converted: value,
+          error: {
+            key: "ip.shortRangeTooLarge",
+            params: { limit: SHORT_RANGE_MAX_PARTS },
+          },
+        };
+      }
+      if (
+        mode === "full" &&
+        options.strictCidr &&
+        hasShortRangeHostBits(range)
+      ) {
+        return { converted: value, error: msg("ip.cidrHostBits") };
+      }
+      replacement = `${numberToIpv4(parts[0][0])}-${numberToIpv4(parts[parts.length - 1][1])}`;
+    } else if (range && !isTyping) {
+      return { converted: value, error: msg("ip.rangeOrder") };
+    } else if (
+      mode === "partial" &&
+      reShortRangePartial.test(text) &&
+      reShortRangeMark.test(text)
+    ) {
+      replacement = text.replace(/\*/g, "0").replace(/-\d*/g, "");
+    }
+
+    if (replacement === null) continue;
+    converted += value.slice(offset, start) + replacement;
+    offset = end;
+  }
+
+  return { converted: converted + value.slice(offset), error: null };
+}
+
+// ==================== Зоны IPv6 ====================
+
+/** Идентификатор зоны: имя интерфейса ("eth0", "en0.100") или номер ("3") */
+const ZONE_ID_RE = /^[0-9A-Za-z_.]+$/;
+
+/** fe80::/10 — link-local, ff00::/8 — multicast */
+function isZoneScopeAddress(address: string): boolean {
+  const value = ipv6ToBigInt(address);
+  return value >> 118n === 0x3fan || value >> 120n === 0xffn;
+}
+
+/**
+ * Проверяет зоны ("%eth0") во всех элементах списка и возвращает
+ * значение без них — его дальше проверяют обычные валидаторы.
+ * При вводе (partial) допускается пустая, ещё не набранная зона.
+ */
+function stripIpZones(
+  value: string,
+  mode: "partial" | "full",
+): { bare: string; error: ValidationMessage | null } {
+  let bare = "";
+  let offset = 0;
+
+  for (const { text, start, end } of splitList(value)) {
+    const zoneIndex = text.indexOf("%");
+    if (zoneIndex === -1) continue;
+
+    if (/[-/]/.test(text)) {
+      return { bare: value, error: msg("ip.zoneContext") };
+    }
+    const address = text.slice(0, zoneIndex);
+    const zone = text.slice(zoneIndex + 1);
+    if (!isFullIpv6Token(address) || !isZoneScopeAddress(address)) {
+      return { bare: value, error: msg("ip.zoneScope") };
+    }
+    if (!(ZONE_ID_RE.test(zone) || (mode === "partial" && !zone))) {
+      return { bare: value, error: msg("ip.zoneInvalid") };
+    }
+
+    bare += value.slice(offset, start + zoneIndex);
+    offset = end;
+  }
+
+  return { bare: bare + value.slice(offset), error: null };
+}
+
 // Полный IP (IPv4/IPv6, CIDR, диапазон, список через запятую)
 const IpFullSchema = z
   .string()
@@ -491,7 +1157,7 @@ const IpFullSchema = z
     if (!hasFullMatch || hasTripleColon) {
       ctx.addIssue({
         code: "custom",
-        message: TEXT_INVALID_IP,
+        message: "ip.invalid",
       });
       return;
     }
@@ -511,7 +1177,7 @@ const IpFullSchema = z
         if (!ok) {
           ctx.addIssue({
             code: "custom",
-            message: TEXT_INVALID_SUBNET,
+            message: "ip.invalidSubnet",
           });
           return;
         }
@@ -530,14 +1196,13 @@ const IpFullSchema = z
           const t = part.trim();
           if (!t || !t.includes(":")) continue;
 
-          const groups = t.split(":");
-          const nonEmpty = groups.filter((g) => g.length > 0).length;
+          const nonEmpty = countIpv6Groups(t);
           const matches = t.match(/::/g);
 
           if (matches && matches.length > 1) {
             ctx.addIssue({
               code: "custom",
-              message: TEXT_INVALID_IP,
+              message: "ip.invalid",
             });
             return;
           }
@@ -545,7 +1210,7 @@ const IpFullSchema = z
           if (matches && nonEmpty >= 7) {
             ctx.addIssue({
               code: "custom",
-              message: TEXT_INVALID_IP,
+              message: "ip.invalid",
             });
             return;
           }
@@ -558,7 +1223,7 @@ const IpFullSchema = z
     if (hasRangeOrderViolation(value)) {
       ctx.addIssue({
         code: "custom",
-        message: TEXT_RANGE_ORDER,
+        message: "ip.rangeOrder",
       });
       return;
     }
@@ -567,176 +1232,378 @@ const IpFullSchema = z
     if (hasIpVersionMismatchInRange(value)) {
       ctx.addIssue({
         code: "custom",
-        message: TEXT_IP_VERSION_MISMATCH,
+        message: "ip.versionMismatch",
       });
       return;
     }
   });
 
+// Строгий вариант: дополнительно запрещает биты хоста ниже префикса CIDR.
+const IpFullStrictSchema = IpFullSchema.superRefine((value, ctx) => {
+  for (const raw of value.split(",")) {
+    for (const rangePart of raw.split("-")) {
+      const t = rangePart.trim();
+      if (!t.includes("/")) continue;
+
+      const isValidCidr = t.includes(":")
+        ? isValidCidrV6Token
+        : isValidCidrV4Token;
+      // Некорректный префикс уже отмечен базовой схемой.
+      if (!isValidCidr(t)) continue;
+
+      if (!isValidCidr(t, { strictCidr: true })) {
+        ctx.addIssue({
+          code: "custom",
+          message: "ip.cidrHostBits",
+        });
+        return;
+      }
+    }
+  }
+});
+
+function getIpFullSchema(options: IpOptions = {}) {
+  return options.strictCidr ? IpFullStrictSchema : IpFullSchema;
+}
+
 /**
  * Проверяет, является ли строка корректным *полным* IP-значением
  * (IPv4/IPv6, CIDR, диапазон, список через запятую).
  */
-export function isIpValid(value: string): boolean {
+export function isIpValid(value: string, options?: IpOptions): boolean {
   if (!value.trim()) return true; // пустое поле — ок
-  return IpFullSchema.safeParse(value).success;
+  return getIpFullError(value, options) === null;
 }
 
 /**
- * Проверяет, допустим ли *промежуточный* ввод IP-поля
- * (пока пользователь печатает).
- * Возвращает пустую строку при успехе и текст ошибки при неудаче.
+ * Ошибка *полной* валидации IP в виде ключа каталога сообщений.
+ * Возвращает null, если значение валидно.
+ */
+export function getIpFullError(
+  value: string,
+  options?: IpOptions,
+): ValidationMessage | null {
+  if (!value.trim()) return null;
+  if (options?.allowZones) {
+    const { bare, error } = stripIpZones(value, "full");
+    return error ?? getIpFullError(bare, { ...options, allowZones: false });
+  }
+  if (options?.allowShortRanges) {
+    const { converted, error } = convertShortRanges(value, "full", options);
+    return (
+      error ??
+      getIpFullError(converted, { ...options, allowShortRanges: false })
+    );
+  }
+  const { converted, error } = convertIpv4Masks(value, "full", options);
+  if (error) return error;
+  const result = getIpFullSchema(options).safeParse(converted);
+  return result.success ? null : issueMessage(result.error);
+}
+
+/**
+ * Ошибка *промежуточного* ввода IP-поля (пока пользователь печатает)
+ * в виде ключа каталога сообщений. Возвращает null, если ввод допустим.
  */
-export function isIpPartiallyValid(value: string): string {
+export function getIpPartialError(
+  value: string,
+  options?: IpOptions,
+): ValidationMessage | null {
   const trimmed = value.trim();
-  if (!trimmed) return "";
+  if (!trimmed) return null;
+
+  if (options?.allowZones) {
+    const { bare, error } = stripIpZones(value, "partial");
+    return error ?? getIpPartialError(bare, { ...options, allowZones: false });
+  }
+  if (options?.allowShortRanges) {
+    const { converted, error } = convertShortRanges(value, "partial");
+    return (
+      error ??
+      getIpPartialError(converted, { ...options, allowShortRanges: false })
+    );
+  }
+
+  // Маски проверяем сразу, дальше работаем с CIDR-записью.
+  const masks = convertIpv4Masks(value, "partial", options);
+  if (masks.error) return masks.error;
+  value = masks.converted;
 
   // Любое полностью валидное значение автоматически считается
   // допустимым и для частичной валидации.
-  if (isIpValid(value)) return "";
+  if (isIpValid(value)) return null;
 
   // Сохраняем старую логику допуска через isIpPartialAllowed.
-  if (isIpPartialAllowed(value)) return "";
+  if (isIpPartialAllowed(value)) return null;
 
   // ---- Формирование более конкретного сообщения об ошибке ----
 
   if (hasIpVersionMismatchInRange(value)) {
-    return TEXT_IP_VERSION_MISMATCH;
+    return msg("ip.versionMismatch");
   }
 
   // Недопустимые символы (не цифры, не A-F / a-f, не разделители).
   if (/[^0-9a-fA-F:.,\s/-]/.test(value)) {
-    return TEXT_ALLOWED_CHARS;
+    return msg("common.allowedChars");
   }
 
   // Проверка порядка диапазона: если обе части — полные IP одной версии
   // и начало больше конца, возвращаем специфичную ошибку порядка.
   if (hasRangeOrderViolation(value)) {
-    return TEXT_RANGE_ORDER;
+    return msg("ip.rangeOrder");
   }
 
   // Ошибка диапазона (есть дефис, но формат не прошёл partial-проверку).
   if (value.includes("-")) {
-    return TEXT_RANGE_ALLOWED;
+    return msg("ip.rangeAllowed");
   }
 
   // Ошибка CIDR (есть '/', но маска некорректна).
   if (value.includes("/")) {
-    return TEXT_INVALID_SUBNET;
+    return msg("ip.invalidSubnet");
   }
 
   // Общее сообщение по умолчанию.
-  return "Некорректный формат IP-адреса";
+  return msg("ip.invalidFormat");
+}
+
+/**
+ * Проверяет, допустим ли *промежуточный* ввод IP-поля
+ * (пока пользователь печатает).
+ * Возвращает пустую строку при успехе и текст ошибки (в локали
+ * по умолчанию) при неудаче.
+ */
+export function isIpPartiallyValid(value: string, options?: IpOptions): string {
+  return toDefaultText(getIpPartialError(value, options));
 }
 
 // ==================== MAC ====================
 
-// регулярка для ровно двух шестнадцатеричных символов
-const HEX2_RE = /^[0-9a-fA-F]{2}$/;
-// регулярка для одного или двух шестнадцатеричных символов
-const HEX1_2_RE = /^[0-9a-fA-F]{1,2}$/;
+/**
+ * Нотации записи MAC-адреса:
+ * - hyphen: AA-BB-CC-DD-EE-FF (IEEE 802, используется по умолчанию)
+ * - colon:  aa:bb:cc:dd:ee:ff (Linux, BSD)
+ * - cisco:  aabb.ccdd.eeff    (Cisco IOS)
+ * - bare:   aabbccddeeff      (без разделителей)
+ */
+export type MacNotation = "hyphen" | "colon" | "cisco" | "bare";
 
-// Полный одиночный MAC: XX-XX-XX-XX-XX-XX
-const SingleMacFullSchema = z
-  .string()
-  .transform((s) => s.trim())
-  .superRefine((t, ctx) => {
-    if (!t) {
-      ctx.addIssue({ code: "custom", message: TEXT_INVALID_MAC });
-      return;
-    }
-    // Строго требуем формат XX-XX-XX-XX-XX-XX: 6 сегментов по 2 hex-символа.
-    const parts = t.split("-");
-    if (parts.length !== 6 || !parts.every((p) => HEX2_RE.test(p))) {
-      ctx.addIssue({
-        code: "custom",
-        message: TEXT_INVALID_MAC,
-      });
-    }
-  });
+export const MAC_NOTATIONS: readonly MacNotation[] = [
+  "hyphen",
+  "colon",
+  "cisco",
+  "bare",
+];
 
-// Частичный одиночный MAC при вводе
-const SingleMacPartialSchema = z
-  .string()
-  .transform((s) => s.trim())
-  .superRefine((t, ctx) => {
-    if (!t) return; // пустой токен внутри списка для последнего элемента обрабатываем отдельно
+/**
+ * Длина аппаратного адреса в октетах:
+ * - 6:  EUI-48 (классический MAC)
+ * - 8:  EUI-64
+ * - 20: адрес канального уровня InfiniBand (IPoIB)
+ */
+export type MacLength = 6 | 8 | 20;
 
-    const parts = t.split("-");
-    if (parts.length > 6) {
-      ctx.addIssue({
-        code: "custom",
-        message: "Слишком много сегментов MAC",
-      });
-      return;
-    }
+export const MAC_LENGTHS: readonly MacLength[] = [6, 8, 20];
 
-    const lastIndex = parts.length - 1;
+export interface MacOptions {
+  /** Допустимые нотации; по умолчанию только "hyphen" */
+  notations?: readonly MacNotation[];
+  /** Длина адреса в октетах; по умолчанию 6 (EUI-48) */
+  length?: MacLength;
+}
 
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i];
+const DEFAULT_MAC_NOTATIONS: readonly MacNotation[] = ["hyphen"];
+const DEFAULT_MAC_LENGTH: MacLength = 6;
 
-      // Разрешаем пустой последний сегмент: "AA-BB-" и т.п.
-      if (!part) {
-        if (i !== lastIndex) {
-          ctx.addIssue({
-            code: "custom",
-            message: "Пустой сегмент MAC в середине",
-          });
-          return;
-        }
-        continue;
+interface MacLayout {
+  /** Разделитель групп ("" — без разделителей) */
+  separator: string;
+  /** Количество hex-символов в группе */
+  groupSize: number;
+  /** Количество групп */
+  groups: number;
+}
+
+function getMacLayout(notation: MacNotation, length: MacLength): MacLayout {
+  const digits = length * 2;
+  switch (notation) {
+    case "hyphen":
+      return { separator: "-", groupSize: 2, groups: length };
+    case "colon":
+      return { separator: ":", groupSize: 2, groups: length };
+    case "cisco":
+      return { separator: ".", groupSize: 4, groups: digits / 4 };
+    case "bare":
+      return { separator: "", groupSize: digits, groups: 1 };
+  }
+}
+
+function splitMacGroups(token: string, layout: MacLayout): string[] {
+  return layout.separator ? token.split(layout.separator) : [token];
+}
+
+// Полный одиночный MAC в заданной нотации и длины
+function createSingleMacFullSchema(layout: MacLayout) {
+  // ровно groupSize шестнадцатеричных символов в каждой группе
+  const groupRe = new RegExp(`^[0-9a-fA-F]{${layout.groupSize}}$`);
+
+  return z
+    .string()
+    .transform((s) => s.trim())
+    .superRefine((t, ctx) => {
+      if (!t) {
+        ctx.addIssue({ code: "custom", message: "mac.invalid" });
+        return;
+      }
+      // Строго требуем нужное число групп нужной длины.
+      const parts = splitMacGroups(t, layout);
+      if (
+        parts.length !== layout.groups ||
+        !parts.every((p) => groupRe.test(p))
+      ) {
+        ctx.addIssue({
+          code: "custom",
+          message: "mac.invalid",
+        });
+      }
+    });
+}
+
+// Частичный одиночный MAC при вводе в заданной нотации и длины.
+// Число сегментов берём из раскладки, а не считаем, что их всегда 6.
+function createSingleMacPartialSchema(layout: MacLayout) {
+  const groupRe = new RegExp(`^[0-9a-fA-F]{${layout.groupSize}}$`);
+  // последняя группа может быть недописана: от 1 до groupSize символов
+  const lastGroupRe = new RegExp(`^[0-9a-fA-F]{1,${layout.groupSize}}$`);
+
+  return z
+    .string()
+    .transform((s) => s.trim())
+    .superRefine((t, ctx) => {
+      if (!t) return; // пустой токен внутри списка для последнего элемента обрабатываем отдельно
+
+      const parts = splitMacGroups(t, layout);
+      if (parts.length > layout.groups) {
+        ctx.addIssue({
+          code: "custom",
+          message: "mac.tooManySegments",
+        });
+        return;
       }
 
-      // Для всех сегментов, кроме последнего, требуем ровно 2 hex-символа.
-      // Для последнего сегмента допускаем 1–2 hex-символа (пользователь допечатывает).
-      if (i < lastIndex) {
-        if (!HEX2_RE.test(part)) {
-          ctx.addIssue({
-            code: "custom",
-            message: "Неверный hex в MAC",
-          });
-          return;
+      const lastIndex = parts.length - 1;
+
+      for (let i = 0; i < parts.length; i++) {
+        const part = parts[i];
+
+        // Разрешаем пустой последний сегмент: "AA-BB-" и т.п.
+        if (!part) {
+          if (i !== lastIndex) {
+            ctx.addIssue({
+              code: "custom",
+              message: "mac.emptySegment",
+            });
+            return;
+          }
+          continue;
         }
-      } else {
-        if (!HEX1_2_RE.test(part)) {
+
+        // Для всех сегментов, кроме последнего, требуем полную группу.
+        // Последний сегмент пользователь может ещё допечатывать.
+        const re = i < lastIndex ? groupRe : lastGroupRe;
+        if (!re.test(part)) {
           ctx.addIssue({
             code: "custom",
-            message: "Неверный hex в MAC",
+            message: "mac.invalidHex",
           });
           return;
         }
       }
-    }
-  });
+    });
+}
 
-// Полный список MAC через запятую
-const MacFullSchema = z.string().superRefine((value, ctx) => {
-  const trimmed = value.trim();
-  if (!trimmed) return; // пустое поле — ок на уровне обёртки
+interface MacSchemas {
+  full: ReturnType<typeof createSingleMacFullSchema>;
+  partial: ReturnType<typeof createSingleMacPartialSchema>;
+}
 
-  const items = value.split(",");
-  for (const raw of items) {
-    const token = raw.trim();
-    if (!token) {
-      // пустой элемент (в т.ч. trailing comma) — ошибка
-      ctx.addIssue({
-        code: "custom",
-        message: TEXT_INVALID_MAC,
-      });
-      return;
-    }
-    if (!SingleMacFullSchema.safeParse(token).success) {
-      ctx.addIssue({
-        code: "custom",
-        message: TEXT_INVALID_MAC,
-      });
-      return;
-    }
+// Схемы строятся один раз для каждой пары «нотация + длина».
+const macSchemaCache = new Map<string, MacSchemas>();
+
+function getSingleMacSchemas(
+  notation: MacNotation,
+  length: MacLength,
+): MacSchemas {
+  const key = `${notation}/${length}`;
+  let schemas = macSchemaCache.get(key);
+  if (!schemas) {
+    const layout = getMacLayout(notation, length);
+    schemas = {
+      full: createSingleMacFullSchema(layout),
+      partial: createSingleMacPartialSchema(layout),
+    };
+    macSchemaCache.set(key, schemas);
   }
-});
+  return schemas;
+}
+
+interface ResolvedMacOptions {
+  notations: readonly MacNotation[];
+  length: MacLength;
+}
+
+function resolveMacOptions(options?: MacOptions): ResolvedMacOptions {
+  return {
+    notations: options?.notations?.length
+      ? options.notations
+      : DEFAULT_MAC_NOTATIONS,
+    length: options?.length ?? DEFAULT_MAC_LENGTH,
+  };
+}
+
+/** Полный одиночный MAC хотя бы в одной из допустимых нотаций. */
+function isSingleMacFull(token: string, opts: ResolvedMacOptions): boolean {
+  return opts.notations.some(
+    (n) => getSingleMacSchemas(n, opts.length).full.safeParse(token).success,
+  );
+}
+
+/** Частичный одиночный MAC хотя бы в одной из допустимых нотаций. */
+function isSingleMacPartial(token: string, opts: ResolvedMacOptions): boolean {
+  return opts.notations.some(
+    (n) => getSingleMacSchemas(n, opts.length).partial.safeParse(token).success,
+  );
+}
+
+// Полный список MAC через запятую
+function createMacFullSchema(opts: ResolvedMacOptions) {
+  return z.string().superRefine((value, ctx) => {
+    const trimmed = value.trim();
+    if (!trimmed) return; // пустое поле — ок на уровне обёртки
+
+    const items = value.split(",");
+    for (const raw of items) {
+      const token = raw.trim();
+      if (!token) {
+        // пустой элемент (в т.ч. trailing comma) — ошибка
+        ctx.addIssue({
+          code: "custom",
+          message: "mac.invalid",
+        });
+        return;
+      }
+      if (!isSingleMacFull(token, opts)) {
+        ctx.addIssue({
+          code: "custom",
+          message: "mac.invalid",
+        });
+        return;
+      }
+    }
+  });
+}
 
-function isMacPartialAllowed(value: string): boolean {
+function isMacPartialAllowed(value: string, opts: ResolvedMacOptions): boolean {
   const trimmed = value.trim();
   if (!trimmed) return true; // пустое поле — ок
 
@@ -753,11 +1620,11 @@ function isMacPartialAllowed(value: string): boolean {
     }
 
     if (i < lastIndex) {
-      if (!SingleMacFullSchema.safeParse(token).success) {
+      if (!isSingleMacFull(token, opts)) {
         return false;
       }
     } else {
-      if (!SingleMacPartialSchema.safeParse(token).success) {
+      if (!isSingleMacPartial(token, opts)) {
         return false;
       }
     }
@@ -766,45 +1633,150 @@ function isMacPartialAllowed(value: string): boolean {
   return true;
 }
 
+/**
+ * Регулярка для символов, недопустимых в MAC-поле при данных нотациях:
+ * всё, кроме hex, запятой, пробелов и разделителей разрешённых нотаций.
+ */
+export function getMacDisallowedCharRe(options?: MacOptions): RegExp {
+  const { notations, length } = resolveMacOptions(options);
+  const separators = notations
+    .map((n) => getMacLayout(n, length).separator)
+    .join("");
+  const escaped = separators.replace(/[-.]/g, "\\$&");
+  return new RegExp(`[^0-9a-fA-F,\\s${escaped}]`);
+}
+
 /**
  * Полная валидация MAC (при сабмите).
- * Все элементы списка через запятую должны быть полными MAC.
+ * Все элементы списка через запятую должны быть полными MAC
+ * в одной из допустимых нотаций.
  */
-export function isMacValid(value: string): boolean {
+export function isMacValid(value: string, options?: MacOptions): boolean {
   if (!value.trim()) return true;
-  return MacFullSchema.safeParse(value).success;
+  return createMacFullSchema(resolveMacOptions(options)).safeParse(value)
+    .success;
 }
 
 /**
- * Частичная валидация MAC (при вводе).
+ * Ошибка *полной* валидации MAC в виде ключа каталога сообщений.
+ * Возвращает null, если значение валидно.
+ */
+export function getMacFullError(
+  value: string,
+  options?: MacOptions,
+): ValidationMessage | null {
+  return isMacValid(value, options) ? null : msg("mac.invalid");
+}
+
+/**
+ * Ошибка *промежуточного* ввода MAC в виде ключа каталога сообщений.
  * Все элементы до последнего — полные MAC,
  * последний — может быть частичным (пользователь его набирает).
  * Разрешаем завершающую запятую и пробелы после неё.
- * Возвращает пустую строку при успехе и текст ошибки при неудаче.
+ * Возвращает null, если ввод допустим.
  */
-export function isMacPartiallyValid(value: string): string {
+export function getMacPartialError(
+  value: string,
+  options?: MacOptions,
+): ValidationMessage | null {
   const trimmed = value.trim();
-  if (!trimmed) return "";
+  if (!trimmed) return null;
 
   // Любое полностью валидное значение автоматически считается
   // допустимым и для частичной валидации.
-  if (isMacValid(value)) return "";
+  if (isMacValid(value, options)) return null;
 
   // Сохраняем старую логику допуска через isMacPartialAllowed.
-  if (isMacPartialAllowed(value)) return "";
+  if (isMacPartialAllowed(value, resolveMacOptions(options))) return null;
 
   // ---- Формирование более конкретного сообщения об ошибке ----
 
-  // Недопустимые символы (не цифры, не A-F / a-f, не '-', не ',').
-  if (/[^0-9a-fA-F,\s-]/.test(value)) {
-    return TEXT_ALLOWED_CHARS;
+  // Недопустимые символы (не hex, не ',' и не разделители нотаций).
+  if (getMacDisallowedCharRe(options).test(value)) {
+    return msg("common.allowedChars");
   }
 
   // Ошибка списка MAC (что-то не так с разделением через запятую).
   if (value.includes(",")) {
-    return "Некорректный формат списка MAC-адресов";
+    return msg("mac.invalidList");
   }
 
   // Общее сообщение по умолчанию.
-  return TEXT_INVALID_MAC;
+  return msg("mac.invalid");
+}
+
+/**
+ * Частичная валидация MAC (при вводе).
+ * Возвращает пустую строку при успехе и текст ошибки (в локали
+ * по умолчанию) при неудаче.
+ */
+export function isMacPartiallyValid(
+  value: string,
+  options?: MacOptions,
+): string {
+  return toDefaultText(getMacPartialError(value, options));
+}
+
+// ==================== MAC: нормализация ====================
+
+/**
+ * Разбирает *одиночный* MAC в любой из допустимых нотаций в массив октетов.
+ * Возвращает null, если токен не является полным MAC.
+ */
+export function parseMac(token: string, options?: MacOptions): number[] | null {
+  const t = token.trim();
+  if (!isSingleMacFull(t, resolveMacOptions(options))) return null;
+
+  const hex = t.replace(/[^0-9a-fA-F]/g, "");
+  const octets: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    octets.push(Number.parseInt(hex.slice(i, i + 2), 16));
+  }
+  return octets;
+}
+
+/** Записывает октеты MAC (любой поддерживаемой длины) в заданной нотации. */
+export function formatMac(
+  octets: readonly number[],
+  notation: MacNotation = "hyphen",
+  letterCase: "upper" | "lower" = "upper",
+): string {
+  const hex = octets.map((o) => o.toString(16).padStart(2, "0")).join("");
+  const { separator, groupSize } = getMacLayout(
+    notation,
+    octets.length as MacLength,
+  );
+  const groups = hex.match(new RegExp(`.{${groupSize}}`, "g")) ?? [];
+  const result = groups.join(separator);
+  return letterCase === "upper" ? result.toUpperCase() : result;
+}
+
+/**
+ * Образец записи адреса заданной длины в заданной нотации
+ * для подсказок: "XX-XX-XX-XX-XX-XX", "XXXX.XXXX.XXXX" и т.п.
+ */
+export function getMacNotationExample(
+  notation: MacNotation,
+  length: MacLength = DEFAULT_MAC_LENGTH,
+): string {
+  const { separator, groupSize, groups } = getMacLayout(notation, length);
+  return Array(groups).fill("X".repeat(groupSize)).join(separator);
+}
+
+/**
+ * Приводит список MAC через запятую к единой нотации, как бы их ни ввёл
+ * пользователь. Возвращает null, если значение не проходит isMacValid.
+ */
+export function normalizeMac(
+  value: string,
+  notation: MacNotation = "hyphen",
+  options?: MacOptions,
+): string | null {
+  if (!isMacValid(value, options)) return null;
+  if (!value.trim()) return "";
+
+  return value
+    .split(",")
+    .map((token) => formatMac(parseMac(token, options)!, notation))
+    .join(", ");
 }